@@ -0,0 +1,166 @@
+/**
+ * @module features/playground/components/PlaygroundBoxEditor
+ * @description Devtools-style box model editor for a node's margin, border,
+ * and padding.
+ */
+
+import { useState, type ReactNode } from "react";
+import {
+  type DemoDimension,
+  type DemoLength,
+  type DemoSides,
+} from "./PlaygroundConfig";
+import {
+  dimensionError,
+  parseDimension,
+} from "@/features/playground/lib/dimensions";
+
+/**
+ * Box edges in the editor, from the outside in.
+ */
+const BOX_LAYERS = ["margin", "border", "padding"] as const;
+
+/**
+ * Sides of a box edge, in CSS order.
+ */
+const SIDES = ["top", "right", "bottom", "left"] as const;
+
+/**
+ * Box edges edited by the component. Edges left out are not shown, e.g. the
+ * root container has no margin.
+ */
+interface BoxValue {
+  /** Margin per side. */
+  margin?: DemoSides<DemoDimension>;
+  /** Border width per side. */
+  border?: DemoSides<DemoLength>;
+  /** Padding per side. */
+  padding?: DemoSides<DemoLength>;
+}
+
+/**
+ * Props for the PlaygroundBoxEditor component.
+ */
+interface PlaygroundBoxEditorProps {
+  /** Current box edges. */
+  value: BoxValue;
+  /** Called with the edges that changed. */
+  onChange: (patch: BoxValue) => void;
+  /** Form field name prefix, unique per editor instance. */
+  name: string;
+}
+
+/**
+ * Props for the SideInput component.
+ */
+interface SideInputProps {
+  /** Current value of the side. */
+  value: DemoDimension;
+  /** Whether the side is a margin. */
+  isMargin: boolean;
+  /** Called with each valid value. */
+  onChange: (value: DemoDimension) => void;
+  /** Box edge the side belongs to. */
+  layer: (typeof BOX_LAYERS)[number];
+  /** Side of the box edge. */
+  side: (typeof SIDES)[number];
+  /** Form field name. */
+  name: string;
+}
+
+/**
+ * Text input for one side, accepting pixels, percentages, and `calc()`, plus
+ * `auto` and negative values for margins. Incomplete text such as `-` or
+ * `calc(1` is kept as a draft until it parses, and dropped on blur.
+ *
+ * @param props - Component props.
+ * @returns Side input.
+ */
+function SideInput({
+  value,
+  isMargin,
+  onChange,
+  layer,
+  side,
+  name,
+}: SideInputProps) {
+  const [draft, setDraft] = useState<string | null>(null);
+
+  return (
+    <input
+      className={`playground-box-input ${side}`}
+      type="text"
+      value={draft ?? String(value)}
+      onChange={(event) => {
+        setDraft(event.target.value);
+        const parsed = parseDimension(event.target.value, {
+          auto: isMargin,
+          negative: isMargin,
+        });
+        if (parsed !== null) onChange(parsed);
+      }}
+      onBlur={() => setDraft(null)}
+      spellCheck={false}
+      aria-label={`${layer} ${side}`}
+      aria-invalid={dimensionError(value) !== null}
+      title={
+        dimensionError(value) ??
+        (isMargin ? "Pixels, %, calc() or auto" : "Pixels, % or calc()")
+      }
+      name={name}
+      autoComplete="off"
+    />
+  );
+}
+
+/**
+ * Nested box diagram with one input per side of each edge, laid out like
+ * the box model panel of browser devtools.
+ *
+ * @param props - Component props.
+ * @returns Box model editor.
+ *
+ * @example
+ * <PlaygroundBoxEditor
+ *   value={{ margin: item.margin, border: item.border, padding: item.padding }}
+ *   onChange={updateItem}
+ *   name="item-box"
+ * />
+ */
+export default function PlaygroundBoxEditor({
+  value,
+  onChange,
+  name,
+}: PlaygroundBoxEditorProps) {
+  const renderLayer = (index: number): ReactNode => {
+    if (index === BOX_LAYERS.length) {
+      return <div className="playground-box-content" />;
+    }
+    const layer = BOX_LAYERS[index];
+    const sides = value[layer];
+    if (!sides) return renderLayer(index + 1);
+    const isMargin = layer === "margin";
+
+    return (
+      <div className={`playground-box-layer ${layer}`}>
+        <span className="playground-box-label">{layer}</span>
+        {SIDES.map((side) => (
+          <SideInput
+            key={side}
+            value={sides[side]}
+            isMargin={isMargin}
+            onChange={(next) =>
+              onChange({ [layer]: { ...sides, [side]: next } })
+            }
+            layer={layer}
+            side={side}
+            name={`${name}-${layer}-${side}`}
+          />
+        ))}
+        <div className="playground-box-inner">{renderLayer(index + 1)}</div>
+      </div>
+    );
+  };
+
+  return <div className="playground-box">{renderLayer(0)}</div>;
+}
@@ -0,0 +1,119 @@
+/**
+ * @module features/playground/components/PlaygroundCodePanel
+ * @description Shows runnable code that reproduces the current playground
+ * layout, in TypeScript (`taffy-layout`) or Rust (`taffy`).
+ */
+
+import { useMemo, useState } from "react";
+import { Check, Copy, Download } from "lucide-react";
+import type { Size } from "taffy-layout";
+import { type DemoConfig, type RootSizing } from "./PlaygroundConfig";
+
+import { getCurrentLocale, getUi } from "@/lib/locales";
+import { useClipboard } from "@/features/code/hooks/useClipboard";
+import { highlightCode } from "@/features/code/lib/prism";
+import {
+  generateCode,
+  type CodeLanguage,
+} from "@/features/playground/lib/codegen";
+import { downloadTextFile } from "@/features/playground/lib/download";
+
+/**
+ * Display names, file names, and MIME types of the generated languages.
+ */
+const LANGUAGES: Record<
+  CodeLanguage,
+  { label: string; filename: string; mimeType: string }
+> = {
+  typescript: {
+    label: "TypeScript",
+    filename: "layout.ts",
+    mimeType: "text/typescript",
+  },
+  rust: { label: "Rust", filename: "main.rs", mimeType: "text/x-rust" },
+};
+
+/**
+ * Props for the PlaygroundCodePanel component.
+ */
+interface PlaygroundCodePanelProps {
+  /** Current playground configuration. */
+  config: DemoConfig;
+  /** Size of the canvas, as used by the preview. */
+  previewSize: Size<number>;
+  /** Sizing mode of each root axis, as used by the preview. */
+  rootSizing: RootSizing;
+}
+
+/**
+ * Panel with generated source code and copy/download actions.
+ *
+ * @param props - Component props.
+ * @returns The code panel.
+ */
+export default function PlaygroundCodePanel({
+  config,
+  previewSize,
+  rootSizing,
+}: PlaygroundCodePanelProps) {
+  const ui = getUi(getCurrentLocale());
+  const [language, setLanguage] = useState<CodeLanguage>("typescript");
+  const { copied, copy } = useClipboard();
+
+  const code = useMemo(
+    () => generateCode(language, config, previewSize, rootSizing),
+    [language, config, previewSize, rootSizing],
+  );
+  const highlighted = useMemo(
+    () => highlightCode(code, language),
+    [code, language],
+  );
+  const { filename, mimeType } = LANGUAGES[language];
+
+  return (
+    <div className="playground-code-body">
+      <div className="playground-code-languages">
+        {(Object.keys(LANGUAGES) as CodeLanguage[]).map((key) => (
+          <button
+            key={key}
+            type="button"
+            className={`playground-code-language ${language === key ? "active" : ""}`}
+            onClick={() => setLanguage(key)}
+          >
+            {LANGUAGES[key].label}
+          </button>
+        ))}
+      </div>
+      <div className="playground-code-wrapper">
+        <pre className={`language-${language}`} tabIndex={0}>
+          <code
+            className={`language-${language}`}
+            dangerouslySetInnerHTML={{ __html: highlighted }}
+          />
+        </pre>
+      </div>
+      <div className="playground-code-actions">
+        <button
+          type="button"
+          className="playground-button playground-button-icon"
+          onClick={() => copy(code)}
+        >
+          {copied ? (
+            <Check className="h-4 w-4" />
+          ) : (
+            <Copy className="h-4 w-4" />
+          )}
+          {copied ? ui.codeCopied : ui.copyCode}
+        </button>
+        <button
+          type="button"
+          className="playground-button playground-button-icon"
+          onClick={() => downloadTextFile(filename, code, mimeType)}
+        >
+          <Download className="h-4 w-4" />
+          {ui.downloadCode}
+        </button>
+      </div>
+    </div>
+  );
+}
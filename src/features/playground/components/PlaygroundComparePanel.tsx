@@ -0,0 +1,144 @@
+/**
+ * @module features/playground/components/PlaygroundComparePanel
+ * @description Lists where the reference engines of compare mode disagree
+ * with Taffy's layout.
+ */
+
+import { useState } from "react";
+import {
+  formatNumber,
+  type ItemPath,
+  type LayoutNode,
+} from "./PlaygroundConfig";
+
+import { getCurrentLocale, getUi } from "@/lib/locales";
+import {
+  compareLayouts,
+  toReferenceNode,
+  type ReferenceEngine,
+  type ReferenceLayout,
+} from "@/features/playground/lib/referenceLayout";
+import { formatPath } from "@/features/playground/lib/tree";
+
+/**
+ * Props for the PlaygroundComparePanel component.
+ */
+interface PlaygroundComparePanelProps {
+  /** Calculated layout nodes from Taffy engine. */
+  layoutNodes: LayoutNode[];
+  /** Layouts of the reference engines. */
+  references: ReferenceLayout[];
+  /** Callback to select the item of a difference. */
+  setSelectedPath: (path: ItemPath | null) => void;
+}
+
+/**
+ * Panel with the status of each reference engine and a table of the boxes
+ * that differ from Taffy's by more than an adjustable tolerance. Clicking a
+ * row selects the item in the preview.
+ *
+ * @param props - Component props.
+ * @returns The compare panel.
+ */
+export default function PlaygroundComparePanel({
+  layoutNodes,
+  references,
+  setSelectedPath,
+}: PlaygroundComparePanelProps) {
+  const ui = getUi(getCurrentLocale());
+  const [tolerance, setTolerance] = useState(1);
+  const engineNames: Record<ReferenceEngine, string> = {
+    browser: ui.compareBrowser,
+    yoga: ui.compareYoga,
+  };
+
+  const taffyRoot = layoutNodes[0];
+  const comparisons = references.map((reference) => ({
+    reference,
+    differences: taffyRoot
+      ? compareLayouts(toReferenceNode(taffyRoot), reference, tolerance)
+      : [],
+  }));
+  const differences = comparisons.flatMap(({ differences }) => differences);
+
+  return (
+    <div className="playground-compare">
+      <div className="playground-compare-header">
+        <ul className="playground-compare-engines">
+          {comparisons.map(({ reference, differences }) => (
+            <li key={reference.engine}>
+              <span
+                className={`playground-compare-swatch playground-reference-${reference.engine}`}
+                aria-hidden="true"
+              />
+              <strong>{engineNames[reference.engine]}</strong>
+              <span>
+                {reference.error ??
+                  (differences.length === 0
+                    ? ui.compareMatches
+                    : ui.compareDifferences.replace(
+                        "{{count}}",
+                        String(differences.length),
+                      ))}
+              </span>
+            </li>
+          ))}
+        </ul>
+        <label className="playground-inline">
+          {ui.compareTolerance}
+          <input
+            type="number"
+            className="playground-input playground-compare-tolerance"
+            min={0}
+            step={0.5}
+            value={tolerance}
+            onChange={(event) =>
+              setTolerance(Math.max(0, Number(event.target.value) || 0))
+            }
+            name="playground-compare-tolerance"
+          />
+        </label>
+      </div>
+
+      {differences.length > 0 && (
+        <table className="playground-compare-table">
+          <thead>
+            <tr>
+              <th>{ui.compareItem}</th>
+              <th>{ui.compareEngine}</th>
+              <th>{ui.compareField}</th>
+              <th>Taffy</th>
+              <th>{ui.compareReference}</th>
+              <th>Δ</th>
+            </tr>
+          </thead>
+          <tbody>
+            {differences.map((difference) => (
+              <tr
+                key={`${difference.engine}-${formatPath(difference.path)}-${difference.field}`}
+                onClick={() =>
+                  setSelectedPath(
+                    difference.path.length === 0 ? null : difference.path,
+                  )
+                }
+              >
+                <td>
+                  {difference.path.length === 0
+                    ? ui.importRoot
+                    : `Item ${formatPath(difference.path)}`}
+                </td>
+                <td>{engineNames[difference.engine]}</td>
+                <td>
+                  <code>{difference.field}</code>
+                </td>
+                <td>{formatNumber(difference.taffy)}</td>
+                <td>{formatNumber(difference.reference)}</td>
+                <td>{formatNumber(difference.reference - difference.taffy)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
@@ -10,12 +10,15 @@ import {
   AlignContent,
   AlignItems,
   AlignSelf,
+  Display,
   FlexDirection,
   FlexWrap,
   GridAutoFlow,
   JustifyContent,
-  type GridTemplateComponent,
-  type TrackSizingFunction,
+  Position,
+  type DetailedGridInfo,
+  type GridTemplateArea,
+  type StylePropertyValues,
 } from "taffy-layout";
 
 /**
@@ -32,8 +35,22 @@ export interface LayoutNode {
   width: number;
   /** Computed height. */
   height: number;
+  /** Resolved margin, including `auto` margins. */
+  margin: DemoSides;
+  /** Resolved border widths. */
+  border: DemoSides;
+  /** Resolved padding. */
+  padding: DemoSides;
+  /** Size of the content, which may overflow the node. */
+  contentSize: { width: number; height: number };
+  /** Space reserved for scrollbars. */
+  scrollbarSize: { width: number; height: number };
+  /** Rendering order among siblings. */
+  order: number;
   /** Optional nested child nodes. */
   children?: LayoutNode[];
+  /** Resolved tracks of a grid container, for the grid overlay. */
+  grid?: DetailedGridInfo;
   /** Optional metadata used by the UI. */
   meta?: NodeMeta;
 }
@@ -41,16 +58,13 @@ export interface LayoutNode {
 /**
  * Display mode selection for the playground.
  */
-export type DisplayMode = "flex" | "grid";
+export type DisplayMode = "flex" | "grid" | "block";
 
 /**
  * Flex direction selection keys.
  */
 export type FlexDirectionKey =
-  | "row"
-  | "column"
-  | "rowReverse"
-  | "columnReverse";
+  "row" | "column" | "rowReverse" | "columnReverse";
 
 /**
  * Flex wrap selection keys.
@@ -61,13 +75,7 @@ export type FlexWrapKey = "nowrap" | "wrap" | "wrapReverse";
  * Align-items selection keys.
  */
 export type AlignItemsKey =
-  | "stretch"
-  | "flexStart"
-  | "center"
-  | "flexEnd"
-  | "start"
-  | "end"
-  | "baseline";
+  "stretch" | "flexStart" | "center" | "flexEnd" | "start" | "end" | "baseline";
 
 /**
  * Align-content selection keys.
@@ -116,87 +124,229 @@ export type AlignSelfKey =
 export type GridAutoFlowKey = "row" | "column" | "rowDense" | "columnDense";
 
 /**
- * Track sizing mode for grid templates.
+ * Position keys supported by the playground.
+ */
+export type PositionKey = "relative" | "absolute";
+
+/**
+ * Repeat count of a grid track list entry: a number of repetitions, or
+ * `auto-fill`/`auto-fit` to repeat as often as the container allows.
+ */
+export type TrackRepeat = number | "auto-fill" | "auto-fit";
+
+/**
+ * Entry of a grid track list: one track, or a `repeat()` of tracks.
+ */
+export interface DemoTrack {
+  /**
+   * Track sizes in CSS syntax, e.g. `100px`, `1fr`, or `minmax(80px, 1fr)`.
+   * Several space-separated sizes form the pattern of a repeat.
+   */
+  size: string;
+  /** Repeat count; 1 for a plain track. */
+  repeat: TrackRepeat;
+}
+
+/**
+ * Values for the four sides of a box, such as padding or border widths.
+ */
+export interface DemoSides<T = number> {
+  /** Top side. */
+  top: T;
+  /** Right side. */
+  right: T;
+  /** Bottom side. */
+  bottom: T;
+  /** Left side. */
+  left: T;
+}
+
+/**
+ * Text content of a text leaf, measured by the playground during layout.
+ */
+export interface DemoText {
+  /** Text to lay out; whitespace collapses and wraps as in CSS. */
+  content: string;
+  /** Font size in pixels. */
+  fontSize: number;
+}
+
+/**
+ * A `calc()` expression. taffy-layout has no calc support, so expressions
+ * are folded to a single pixel or percentage value before layout.
+ */
+export type CalcExpression = `calc(${string})`;
+
+/**
+ * A length: pixels as a plain number, a percentage such as `"50%"`, or a
+ * `calc()` expression.
+ */
+export type DemoLength = number | `${number}%` | CalcExpression;
+
+/**
+ * A length, or `auto` to let the layout decide.
+ */
+export type DemoDimension = DemoLength | "auto";
+
+/**
+ * Width and height of an item; `auto` leaves an axis unconstrained.
  */
-export type TrackSizingMode = "fixed" | "fr";
+export interface DemoSize {
+  /** Width value. */
+  width: DemoDimension;
+  /** Height value. */
+  height: DemoDimension;
+}
 
 /**
  * Configurable item entry in the playground.
  */
 export interface DemoItem {
-  /** Item width in pixels. */
-  width: number;
-  /** Item height in pixels. */
-  height: number;
-  /** Whether width should be auto-sized. */
-  widthAuto: boolean;
-  /** Whether height should be auto-sized. */
-  heightAuto: boolean;
+  /** Item width. */
+  width: DemoDimension;
+  /** Item height. */
+  height: DemoDimension;
   /** Flex grow value. */
   flexGrow: number;
   /** Flex shrink value. */
   flexShrink: number;
   /** Flex basis value. */
-  flexBasis: number;
-  /** Whether flex basis should be auto. */
-  flexBasisAuto: boolean;
+  flexBasis: DemoDimension;
   /** Align-self selection for the item. */
   alignSelf: AlignSelfKey;
   /** Grid row span for the item. */
   rowSpan: number;
   /** Grid column span for the item. */
   columnSpan: number;
+  /**
+   * Grid row start line; 0 places the item automatically and negative lines
+   * count from the end of the explicit grid.
+   */
+  rowStart: number;
+  /** Grid row end line; 0 spans `rowSpan` tracks from the start. */
+  rowEnd: number;
+  /** Grid column start line; 0 places the item automatically. */
+  columnStart: number;
+  /** Grid column end line; 0 spans `columnSpan` tracks from the start. */
+  columnEnd: number;
+  /** Named grid area the item is placed in; overrides the line settings. */
+  gridArea: string;
+  /** Margin per side; `auto` margins absorb free space. */
+  margin: DemoSides<DemoDimension>;
+  /** Padding per side; insets the children of containers. */
+  padding: DemoSides<DemoLength>;
+  /** Border width per side. */
+  border: DemoSides<DemoLength>;
+  /** Minimum size (`min-width`/`min-height`). */
+  minSize: DemoSize;
+  /** Maximum size (`max-width`/`max-height`); `auto` means none. */
+  maxSize: DemoSize;
+  /**
+   * Positioning scheme; absolute items are taken out of the flow and placed
+   * against their container's padding box.
+   */
+  position: PositionKey;
+  /**
+   * Offsets per side (`top`/`right`/`bottom`/`left`); for relative items
+   * they shift the laid-out box.
+   */
+  inset: DemoSides<DemoDimension>;
+  /** Whether the item is removed from layout with `display: none`. */
+  hidden: boolean;
+  /**
+   * Optional text content; a leaf with text is sized by measuring it. Items
+   * with a nested layout ignore it.
+   */
+  text?: DemoText;
+  /** Optional nested layout when the item acts as a container. */
+  layout?: DemoLayout;
 }
 
 /**
- * Playground configuration state.
+ * Container-level configuration shared by the root and nested containers.
  */
-export interface DemoConfig {
+export interface DemoContainer {
+  /** Horizontal gap value. */
+  gapX: DemoLength;
+  /** Vertical gap value. */
+  gapY: DemoLength;
+  /** Flex container configuration. */
+  flex: {
+    /** Flex direction. */
+    direction: FlexDirectionKey;
+    /** Justify-content option. */
+    justifyContent: JustifyContentKey;
+    /** Align-items option. */
+    alignItems: AlignItemsKey;
+    /** Align-content option. */
+    alignContent: AlignContentKey;
+    /** Flex wrap option. */
+    wrap: FlexWrapKey;
+  };
+  /** Grid container configuration. */
+  grid: {
+    /** Explicit column tracks (`grid-template-columns`). */
+    columns: DemoTrack[];
+    /** Explicit row tracks (`grid-template-rows`). */
+    rows: DemoTrack[];
+    /** Sizes of implicit columns in CSS syntax; empty for `auto`. */
+    autoColumns: string;
+    /** Sizes of implicit rows in CSS syntax; empty for `auto`. */
+    autoRows: string;
+    /** Auto-flow setting for grid placement. */
+    autoFlow: GridAutoFlowKey;
+    /** `grid-template-areas` rows, one string of area names per row. */
+    areas: string[];
+  };
+}
+
+/**
+ * Layout definition for a container node and its children.
+ */
+export interface DemoLayout {
   /** Display mode selection. */
   displayMode: DisplayMode;
   /** Container-level configuration. */
-  container: {
-    /** Container padding. */
-    padding: number;
-    /** Horizontal gap value. */
-    gapX: number;
-    /** Vertical gap value. */
-    gapY: number;
-    /** Flex container configuration. */
-    flex: {
-      /** Flex direction. */
-      direction: FlexDirectionKey;
-      /** Justify-content option. */
-      justifyContent: JustifyContentKey;
-      /** Align-items option. */
-      alignItems: AlignItemsKey;
-      /** Align-content option. */
-      alignContent: AlignContentKey;
-      /** Flex wrap option. */
-      wrap: FlexWrapKey;
-    };
-    /** Grid container configuration. */
-    grid: {
-      /** Column count. */
-      columns: number;
-      /** Row count. */
-      rows: number;
-      /** Column sizing mode. */
-      columnMode: TrackSizingMode;
-      /** Column size for fixed sizing. */
-      columnSize: number;
-      /** Row sizing mode. */
-      rowMode: TrackSizingMode;
-      /** Row size for fixed sizing. */
-      rowSize: number;
-      /** Auto-flow setting for grid placement. */
-      autoFlow: GridAutoFlowKey;
-    };
-  };
+  container: DemoContainer;
   /** Item configuration list. */
   items: DemoItem[];
 }
 
+/**
+ * Playground configuration state. The root of the playground is itself a
+ * layout whose items may contain further nested layouts; since the root is
+ * not an item, its own padding and border are kept here.
+ */
+export interface DemoConfig extends DemoLayout {
+  /** Padding of the root container. */
+  padding: DemoSides<DemoLength>;
+  /** Border widths of the root container. */
+  border: DemoSides<DemoLength>;
+}
+
+/**
+ * Location of an item in the configuration tree, expressed as the list of
+ * child indices from the root layout down to the item.
+ */
+export type ItemPath = number[];
+
+/**
+ * How the root container is sized along one axis: to the canvas size
+ * (`definite`), by its content within the canvas (`auto`), or by its
+ * `minContent` or `maxContent` contribution.
+ */
+export type RootSizingMode = "definite" | "auto" | "minContent" | "maxContent";
+
+/**
+ * Sizing mode of the root container for each axis.
+ */
+export interface RootSizing {
+  /** Sizing mode of the root width. */
+  width: RootSizingMode;
+  /** Sizing mode of the root height. */
+  height: RootSizingMode;
+}
+
 /**
  * Preset definition for the playground.
  */
@@ -219,6 +369,24 @@ export interface NodeMeta {
   color: string;
   /** Optional index used for labeling. */
   index?: number;
+  /** Path of the configured item this node was built from. */
+  path?: ItemPath;
+  /** Whether the node is a container with its own nested layout. */
+  isContainer?: boolean;
+  /** Whether the node is absolutely positioned. */
+  isAbsolute?: boolean;
+  /** Whether the node is hidden with `display: none`. */
+  isHidden?: boolean;
+  /** Whether the node is a block container, whose children's margins collapse. */
+  isBlock?: boolean;
+  /** Whether the node is a grid container. */
+  isGrid?: boolean;
+  /** Named areas of a grid container, in explicit grid lines. */
+  gridAreas?: GridTemplateArea[];
+  /** Text content of a text leaf. */
+  text?: DemoText;
+  /** Style properties the node was created with. */
+  style?: StylePropertyValues;
 }
 
 /**
@@ -333,6 +501,33 @@ export const ALIGN_SELF_OPTIONS: { label: string; value: AlignSelfKey }[] = [
   { label: "Baseline", value: "baseline" },
 ];
 
+/**
+ * Available position options for items.
+ */
+export const POSITION_OPTIONS: { label: string; value: PositionKey }[] = [
+  { label: "Relative", value: "relative" },
+  { label: "Absolute", value: "absolute" },
+];
+
+/**
+ * Available sizing modes for the root container.
+ */
+export const ROOT_SIZING_OPTIONS: { label: string; value: RootSizingMode }[] = [
+  { label: "Definite", value: "definite" },
+  { label: "Auto", value: "auto" },
+  { label: "Min content", value: "minContent" },
+  { label: "Max content", value: "maxContent" },
+];
+
+/**
+ * Map of display modes to Taffy values.
+ */
+export const DISPLAY_MODE_MAP: Record<DisplayMode, Display> = {
+  flex: Display.Flex,
+  grid: Display.Grid,
+  block: Display.Block,
+};
+
 /**
  * Map of flex direction keys to Taffy values.
  */
@@ -419,21 +614,59 @@ export const GRID_AUTOFLOW_MAP: Record<GridAutoFlowKey, GridAutoFlow> = {
   columnDense: GridAutoFlow.ColumnDense,
 };
 
+/**
+ * Map of position keys to Taffy values.
+ */
+export const POSITION_MAP: Record<PositionKey, Position> = {
+  relative: Position.Relative,
+  absolute: Position.Absolute,
+};
+
+/**
+ * Creates box sides that all share one value.
+ * @param value - Value for every side.
+ * @returns Sides with the value on top, right, bottom, and left.
+ */
+export const uniformSides = <T>(value: T): DemoSides<T> => ({
+  top: value,
+  right: value,
+  bottom: value,
+  left: value,
+});
+
+/**
+ * Text given to an item when it becomes a text leaf.
+ */
+export const defaultText: DemoText = {
+  content: "The quick brown fox jumps over the lazy dog.",
+  fontSize: 16,
+};
+
 /**
  * Default demo item configuration used for new items.
  */
 export const defaultItem: DemoItem = {
   width: 120,
   height: 80,
-  widthAuto: false,
-  heightAuto: false,
   flexGrow: 0,
   flexShrink: 1,
-  flexBasis: 0,
-  flexBasisAuto: true,
+  flexBasis: "auto",
   alignSelf: "auto",
   rowSpan: 1,
   columnSpan: 1,
+  rowStart: 0,
+  rowEnd: 0,
+  columnStart: 0,
+  columnEnd: 0,
+  gridArea: "",
+  margin: uniformSides(0),
+  padding: uniformSides(0),
+  border: uniformSides(0),
+  minSize: { width: "auto", height: "auto" },
+  maxSize: { width: "auto", height: "auto" },
+  position: "relative",
+  inset: uniformSides("auto"),
+  hidden: false,
 };
 
 /**
@@ -445,6 +678,59 @@ export const defaultItem: DemoItem = {
 export const createItems = (count: number, overrides?: Partial<DemoItem>) =>
   Array.from({ length: count }, () => ({ ...defaultItem, ...overrides }));
 
+/**
+ * Default container configuration used for new nested layouts.
+ */
+export const defaultContainer: DemoContainer = {
+  gapX: 8,
+  gapY: 8,
+  flex: {
+    direction: "row",
+    justifyContent: "flexStart",
+    alignItems: "stretch",
+    alignContent: "stretch",
+    wrap: "nowrap",
+  },
+  grid: {
+    columns: [{ size: "1fr", repeat: 2 }],
+    rows: [{ size: "1fr", repeat: 2 }],
+    autoColumns: "",
+    autoRows: "",
+    autoFlow: "row",
+    areas: [],
+  },
+};
+
+/**
+ * Default root sizing, which fills the canvas on both axes.
+ */
+export const DEFAULT_ROOT_SIZING: RootSizing = {
+  width: "definite",
+  height: "definite",
+};
+
+/**
+ * Create a nested layout for an item that acts as a container.
+ * @param displayMode - Display mode of the nested layout.
+ * @param overrides - Optional container overrides.
+ * @param items - Optional child items.
+ * @returns Nested layout definition.
+ */
+export const createLayout = (
+  displayMode: DisplayMode = "flex",
+  overrides?: Partial<DemoContainer>,
+  items: DemoItem[] = [],
+): DemoLayout => ({
+  displayMode,
+  container: {
+    ...defaultContainer,
+    flex: { ...defaultContainer.flex },
+    grid: { ...defaultContainer.grid },
+    ...overrides,
+  },
+  items,
+});
+
 /**
  * Built-in presets for the playground.
  */
@@ -454,8 +740,9 @@ export const PRESETS: Record<string, DemoPreset> = {
     description: "A row container distributing space between cards.",
     config: {
       displayMode: "flex",
+      padding: uniformSides(16),
+      border: uniformSides(0),
       container: {
-        padding: 16,
         gapX: 16,
         gapY: 16,
         flex: {
@@ -466,13 +753,12 @@ export const PRESETS: Record<string, DemoPreset> = {
           wrap: "nowrap",
         },
         grid: {
-          columns: 3,
-          rows: 2,
-          columnMode: "fixed",
-          columnSize: 180,
-          rowMode: "fixed",
-          rowSize: 120,
+          columns: [{ size: "180px", repeat: 3 }],
+          rows: [{ size: "120px", repeat: 2 }],
+          autoColumns: "",
+          autoRows: "",
           autoFlow: "row",
+          areas: [],
         },
       },
       items: createItems(3, { width: 140, height: 90 }),
@@ -483,8 +769,9 @@ export const PRESETS: Record<string, DemoPreset> = {
     description: "Items grow proportionally to fill the row.",
     config: {
       displayMode: "flex",
+      padding: uniformSides(12),
+      border: uniformSides(0),
       container: {
-        padding: 12,
         gapX: 12,
         gapY: 12,
         flex: {
@@ -495,13 +782,12 @@ export const PRESETS: Record<string, DemoPreset> = {
           wrap: "nowrap",
         },
         grid: {
-          columns: 3,
-          rows: 2,
-          columnMode: "fixed",
-          columnSize: 180,
-          rowMode: "fixed",
-          rowSize: 120,
+          columns: [{ size: "180px", repeat: 3 }],
+          rows: [{ size: "120px", repeat: 2 }],
+          autoColumns: "",
+          autoRows: "",
           autoFlow: "row",
+          areas: [],
         },
       },
       items: [
@@ -516,8 +802,9 @@ export const PRESETS: Record<string, DemoPreset> = {
     description: "Wrapping layout with align-content controls.",
     config: {
       displayMode: "flex",
+      padding: uniformSides(16),
+      border: uniformSides(0),
       container: {
-        padding: 16,
         gapX: 16,
         gapY: 16,
         flex: {
@@ -528,25 +815,76 @@ export const PRESETS: Record<string, DemoPreset> = {
           wrap: "wrap",
         },
         grid: {
-          columns: 3,
-          rows: 2,
-          columnMode: "fixed",
-          columnSize: 180,
-          rowMode: "fixed",
-          rowSize: 120,
+          columns: [{ size: "180px", repeat: 3 }],
+          rows: [{ size: "120px", repeat: 2 }],
+          autoColumns: "",
+          autoRows: "",
           autoFlow: "row",
+          areas: [],
         },
       },
       items: createItems(8, { width: 140, height: 70 }),
     },
   },
+  flexAutoMargins: {
+    name: "Flex · Auto Margins",
+    description: "Auto margins push items apart and center them.",
+    config: {
+      displayMode: "flex",
+      padding: uniformSides(16),
+      border: uniformSides(0),
+      container: {
+        gapX: 12,
+        gapY: 12,
+        flex: {
+          direction: "row",
+          justifyContent: "flexStart",
+          alignItems: "flexStart",
+          alignContent: "stretch",
+          wrap: "nowrap",
+        },
+        grid: {
+          columns: [{ size: "180px", repeat: 3 }],
+          rows: [{ size: "120px", repeat: 2 }],
+          autoColumns: "",
+          autoRows: "",
+          autoFlow: "row",
+          areas: [],
+        },
+      },
+      items: [
+        { ...defaultItem, width: 100, height: 60 },
+        {
+          ...defaultItem,
+          width: 140,
+          height: 90,
+          margin: uniformSides("auto"),
+          padding: uniformSides(12),
+          border: uniformSides(4),
+        },
+        {
+          ...defaultItem,
+          width: 100,
+          height: 60,
+          margin: { ...uniformSides(0), top: "auto" },
+        },
+        {
+          ...defaultItem,
+          width: 100,
+          height: 60,
+          minSize: { width: 140, height: "auto" },
+        },
+      ],
+    },
+  },
   gridBasic: {
     name: "Grid · Basic",
     description: "Auto-placed grid tracks with fixed sizes.",
     config: {
       displayMode: "grid",
+      padding: uniformSides(16),
+      border: uniformSides(0),
       container: {
-        padding: 16,
         gapX: 12,
         gapY: 12,
         flex: {
@@ -557,21 +895,15 @@ export const PRESETS: Record<string, DemoPreset> = {
           wrap: "nowrap",
         },
         grid: {
-          columns: 3,
-          rows: 2,
-          columnMode: "fixed",
-          columnSize: 200,
-          rowMode: "fixed",
-          rowSize: 120,
+          columns: [{ size: "200px", repeat: 3 }],
+          rows: [{ size: "120px", repeat: 2 }],
+          autoColumns: "",
+          autoRows: "",
           autoFlow: "row",
+          areas: [],
         },
       },
-      items: createItems(6, {
-        width: 140,
-        height: 80,
-        widthAuto: true,
-        heightAuto: true,
-      }),
+      items: createItems(6, { width: "auto", height: "auto" }),
     },
   },
   gridSpans: {
@@ -579,8 +911,9 @@ export const PRESETS: Record<string, DemoPreset> = {
     description: "Mix spans to highlight grid placement.",
     config: {
       displayMode: "grid",
+      padding: uniformSides(16),
+      border: uniformSides(0),
       container: {
-        padding: 16,
         gapX: 12,
         gapY: 12,
         flex: {
@@ -591,91 +924,444 @@ export const PRESETS: Record<string, DemoPreset> = {
           wrap: "nowrap",
         },
         grid: {
-          columns: 4,
-          rows: 3,
-          columnMode: "fixed",
-          columnSize: 160,
-          rowMode: "fixed",
-          rowSize: 100,
+          columns: [{ size: "160px", repeat: 4 }],
+          rows: [{ size: "100px", repeat: 3 }],
+          autoColumns: "",
+          autoRows: "",
           autoFlow: "row",
+          areas: [],
         },
       },
       items: [
         {
           ...defaultItem,
-          widthAuto: true,
-          heightAuto: true,
+          width: "auto",
+          height: "auto",
           columnSpan: 2,
           rowSpan: 1,
         },
         {
           ...defaultItem,
-          widthAuto: true,
-          heightAuto: true,
+          width: "auto",
+          height: "auto",
           columnSpan: 1,
           rowSpan: 2,
         },
         {
           ...defaultItem,
-          widthAuto: true,
-          heightAuto: true,
+          width: "auto",
+          height: "auto",
           columnSpan: 2,
           rowSpan: 1,
         },
         {
           ...defaultItem,
-          widthAuto: true,
-          heightAuto: true,
+          width: "auto",
+          height: "auto",
           columnSpan: 1,
           rowSpan: 1,
         },
         {
           ...defaultItem,
-          widthAuto: true,
-          heightAuto: true,
+          width: "auto",
+          height: "auto",
           columnSpan: 1,
           rowSpan: 1,
         },
         {
           ...defaultItem,
-          widthAuto: true,
-          heightAuto: true,
+          width: "auto",
+          height: "auto",
           columnSpan: 1,
           rowSpan: 1,
         },
       ],
     },
   },
+  gridAutoFill: {
+    name: "Grid · Auto-fill",
+    description: "Responsive columns with repeat(auto-fill, minmax()).",
+    config: {
+      displayMode: "grid",
+      padding: uniformSides(16),
+      border: uniformSides(0),
+      container: {
+        gapX: 12,
+        gapY: 12,
+        flex: {
+          direction: "row",
+          justifyContent: "flexStart",
+          alignItems: "stretch",
+          alignContent: "stretch",
+          wrap: "nowrap",
+        },
+        grid: {
+          columns: [{ size: "minmax(140px, 1fr)", repeat: "auto-fill" }],
+          rows: [],
+          autoColumns: "",
+          autoRows: "minmax(60px, auto)",
+          autoFlow: "row",
+          areas: [],
+        },
+      },
+      items: createItems(7, { width: "auto", height: "auto" }),
+    },
+  },
+  gridAreas: {
+    name: "Grid · Areas",
+    description: "A dashboard placed with named areas and explicit lines.",
+    config: {
+      displayMode: "grid",
+      padding: uniformSides(16),
+      border: uniformSides(0),
+      container: {
+        gapX: 12,
+        gapY: 12,
+        flex: {
+          direction: "row",
+          justifyContent: "flexStart",
+          alignItems: "stretch",
+          alignContent: "stretch",
+          wrap: "nowrap",
+        },
+        grid: {
+          columns: [{ size: "1fr", repeat: 4 }],
+          rows: [{ size: "100px", repeat: 3 }],
+          autoColumns: "",
+          autoRows: "",
+          autoFlow: "row",
+          areas: [
+            "header header header header",
+            "nav main main aside",
+            "nav footer footer footer",
+          ],
+        },
+      },
+      items: [
+        {
+          ...defaultItem,
+          width: "auto",
+          height: "auto",
+          gridArea: "header",
+        },
+        { ...defaultItem, width: "auto", height: "auto", gridArea: "nav" },
+        { ...defaultItem, width: "auto", height: "auto", gridArea: "main" },
+        {
+          ...defaultItem,
+          width: "auto",
+          height: "auto",
+          gridArea: "aside",
+        },
+        {
+          ...defaultItem,
+          width: "auto",
+          height: "auto",
+          gridArea: "footer",
+        },
+        {
+          ...defaultItem,
+          width: 80,
+          height: 40,
+          rowStart: -2,
+          columnStart: -2,
+          alignSelf: "end",
+        },
+      ],
+    },
+  },
+  nestedSidebar: {
+    name: "Nested · Sidebar",
+    description: "A sidebar and a main column built from nested containers.",
+    config: {
+      displayMode: "flex",
+      padding: uniformSides(16),
+      border: uniformSides(0),
+      container: {
+        gapX: 16,
+        gapY: 16,
+        flex: {
+          direction: "row",
+          justifyContent: "flexStart",
+          alignItems: "stretch",
+          alignContent: "stretch",
+          wrap: "nowrap",
+        },
+        grid: {
+          columns: [{ size: "180px", repeat: 3 }],
+          rows: [{ size: "120px", repeat: 2 }],
+          autoColumns: "",
+          autoRows: "",
+          autoFlow: "row",
+          areas: [],
+        },
+      },
+      items: [
+        {
+          ...defaultItem,
+          width: 200,
+          height: "auto",
+          flexShrink: 0,
+          padding: uniformSides(12),
+          layout: createLayout(
+            "flex",
+            {
+              flex: { ...defaultContainer.flex, direction: "column" },
+            },
+            createItems(4, { width: "auto", height: 36 }),
+          ),
+        },
+        {
+          ...defaultItem,
+          width: "auto",
+          height: "auto",
+          flexGrow: 1,
+          padding: uniformSides(12),
+          layout: createLayout(
+            "flex",
+            {
+              gapX: 12,
+              gapY: 12,
+              flex: { ...defaultContainer.flex, direction: "column" },
+            },
+            [
+              {
+                ...defaultItem,
+                width: "auto",
+                height: 64,
+                flexShrink: 0,
+                padding: uniformSides(8),
+                layout: createLayout(
+                  "flex",
+                  {
+                    flex: {
+                      ...defaultContainer.flex,
+                      justifyContent: "spaceBetween",
+                      alignItems: "center",
+                    },
+                  },
+                  createItems(3, { width: 80, height: 40 }),
+                ),
+              },
+              {
+                ...defaultItem,
+                width: "auto",
+                height: "auto",
+                flexGrow: 1,
+              },
+            ],
+          ),
+        },
+      ],
+    },
+  },
+  absoluteOverlays: {
+    name: "Absolute · Badges & Overlays",
+    description: "Badges, captions and dialogs placed with absolute insets.",
+    config: {
+      displayMode: "flex",
+      padding: uniformSides(32),
+      border: uniformSides(0),
+      container: {
+        gapX: 32,
+        gapY: 32,
+        flex: {
+          direction: "row",
+          justifyContent: "flexStart",
+          alignItems: "flexStart",
+          alignContent: "flexStart",
+          wrap: "wrap",
+        },
+        grid: {
+          columns: [{ size: "180px", repeat: 3 }],
+          rows: [{ size: "120px", repeat: 2 }],
+          autoColumns: "",
+          autoRows: "",
+          autoFlow: "row",
+          areas: [],
+        },
+      },
+      items: [
+        {
+          ...defaultItem,
+          width: 180,
+          height: 120,
+          padding: uniformSides(12),
+          layout: createLayout(
+            "flex",
+            { flex: { ...defaultContainer.flex, direction: "column" } },
+            [
+              { ...defaultItem, width: "auto", height: "auto", flexGrow: 1 },
+              {
+                ...defaultItem,
+                width: 28,
+                height: 28,
+                position: "absolute",
+                inset: { top: -10, right: -10, bottom: "auto", left: "auto" },
+              },
+            ],
+          ),
+        },
+        {
+          ...defaultItem,
+          width: 180,
+          height: 120,
+          layout: createLayout(
+            "flex",
+            { flex: { ...defaultContainer.flex, direction: "column" } },
+            [
+              { ...defaultItem, width: "auto", height: "auto", flexGrow: 1 },
+              {
+                ...defaultItem,
+                width: "auto",
+                height: 36,
+                position: "absolute",
+                inset: { top: "auto", right: 0, bottom: 0, left: 0 },
+              },
+            ],
+          ),
+        },
+        {
+          ...defaultItem,
+          width: 180,
+          height: 120,
+          layout: createLayout(
+            "flex",
+            { flex: { ...defaultContainer.flex, direction: "column" } },
+            [
+              { ...defaultItem, width: "auto", height: "auto", flexGrow: 1 },
+              {
+                ...defaultItem,
+                width: "auto",
+                height: "auto",
+                position: "absolute",
+                inset: uniformSides("15%"),
+              },
+            ],
+          ),
+        },
+      ],
+    },
+  },
+  textWrapping: {
+    name: "Text · Wrapping in a Row",
+    description:
+      "Measured text that shrinks to its longest word and wraps in a flex row.",
+    config: {
+      ...createLayout("flex", {
+        gapX: 16,
+        gapY: 16,
+        flex: { ...defaultContainer.flex, alignItems: "flexStart" },
+      }),
+      padding: uniformSides(24),
+      border: uniformSides(0),
+      items: [
+        {
+          ...defaultItem,
+          width: "auto",
+          height: "auto",
+          padding: uniformSides(8),
+          text: { content: "Status:", fontSize: 16 },
+        },
+        {
+          ...defaultItem,
+          width: "auto",
+          height: "auto",
+          padding: uniformSides(8),
+          text: {
+            content:
+              "Flex items with text start at their max-content width and shrink no further than their longest word, wrapping onto new lines on the way.",
+            fontSize: 16,
+          },
+        },
+        {
+          ...defaultItem,
+          width: 160,
+          height: "auto",
+          flexShrink: 0,
+          padding: uniformSides(8),
+          layout: createLayout(
+            "flex",
+            {
+              gapX: 0,
+              gapY: 4,
+              flex: { ...defaultContainer.flex, direction: "column" },
+            },
+            [
+              {
+                ...defaultItem,
+                width: "auto",
+                height: "auto",
+                text: { content: "Fixed width card", fontSize: 20 },
+              },
+              {
+                ...defaultItem,
+                width: "auto",
+                height: "auto",
+                text: {
+                  content: "Its text wraps within 160px.",
+                  fontSize: 12,
+                },
+              },
+            ],
+          ),
+        },
+      ],
+    },
+  },
+  blockDocument: {
+    name: "Block · Document",
+    description:
+      "Stacked blocks whose vertical margins collapse, with a hidden block.",
+    config: {
+      ...createLayout("block"),
+      padding: uniformSides(24),
+      border: uniformSides(0),
+      items: [
+        {
+          ...defaultItem,
+          width: "auto",
+          height: 48,
+          margin: { top: 0, right: 0, bottom: 16, left: 0 },
+        },
+        {
+          ...defaultItem,
+          width: "auto",
+          height: 72,
+          margin: { top: 24, right: 0, bottom: 24, left: 0 },
+        },
+        { ...defaultItem, width: "auto", height: 40, hidden: true },
+        {
+          ...defaultItem,
+          width: "60%",
+          height: 72,
+          margin: { top: 12, right: "auto", bottom: 12, left: "auto" },
+        },
+        {
+          ...defaultItem,
+          width: "auto",
+          height: "auto",
+          margin: { top: 32, right: 0, bottom: 0, left: 0 },
+          padding: uniformSides(12),
+          layout: createLayout("block", {}, [
+            {
+              ...defaultItem,
+              width: "auto",
+              height: 32,
+              margin: { top: 8, right: 0, bottom: 8, left: 0 },
+            },
+            {
+              ...defaultItem,
+              width: "auto",
+              height: 32,
+              margin: { top: 8, right: 0, bottom: 8, left: 0 },
+            },
+          ]),
+        },
+      ],
+    },
+  },
 };
 
-/**
- * Convert a sizing mode and value into a grid track definition.
- * @param mode - Track sizing mode.
- * @param value - Track size value.
- * @returns Track sizing function for Taffy grid templates.
- */
-export const toTrack = (
-  mode: TrackSizingMode,
-  value: number,
-): TrackSizingFunction =>
-  mode === "fixed"
-    ? { min: value, max: value }
-    : { min: "auto", max: `${value}fr` };
-
-/**
- * Build a track list with the provided sizing configuration.
- * @param count - Number of tracks.
- * @param mode - Track sizing mode.
- * @param value - Track size value.
- * @returns Array of grid template components.
- */
-export const buildTrackList = (
-  count: number,
-  mode: TrackSizingMode,
-  value: number,
-): GridTemplateComponent[] =>
-  Array.from({ length: Math.max(count, 1) }, () => toTrack(mode, value));
-
 /**
  * Deep clone a playground configuration object.
  * @param config - Configuration to clone.
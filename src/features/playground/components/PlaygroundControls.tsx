@@ -10,6 +10,7 @@ import {
   FLEX_WRAP_OPTIONS,
   GRID_AUTOFLOW_OPTIONS,
   JUSTIFY_CONTENT_OPTIONS,
+  ROOT_SIZING_OPTIONS,
   type DemoConfig,
   type DisplayMode,
   type FlexDirectionKey,
@@ -17,8 +18,16 @@ import {
   type GridAutoFlowKey,
   type JustifyContentKey,
   type AlignItemsKey,
-  type TrackSizingMode,
+  type ItemPath,
+  type RootSizing,
+  type RootSizingMode,
 } from "./PlaygroundConfig";
+import PlaygroundBoxEditor from "./PlaygroundBoxEditor";
+import PlaygroundDimensionInput from "./PlaygroundDimensionInput";
+import PlaygroundGridAreas from "./PlaygroundGridAreas";
+import PlaygroundGridTracks from "./PlaygroundGridTracks";
+import PlaygroundOutline from "./PlaygroundOutline";
+import { type MoveDirection } from "@/features/playground/lib/tree";
 
 /**
  * Props for the PlaygroundControls component.
@@ -34,6 +43,14 @@ interface PlaygroundControlsProps {
   setPreviewScale: React.Dispatch<
     React.SetStateAction<{ width: number; height: number }>
   >;
+  /** Exact canvas size that overrides the scale, or null. */
+  canvasSize: { width: number; height: number } | null;
+  /** Drops the exact canvas size so the scale applies again. */
+  clearCanvasSize: () => void;
+  /** Sizing mode of each root axis. */
+  rootSizing: RootSizing;
+  /** State setter for updating the root sizing. */
+  setRootSizing: React.Dispatch<React.SetStateAction<RootSizing>>;
   /** Helper function to update container-level styles. */
   updateContainer: (patch: Partial<DemoConfig["container"]>) => void;
   /** Helper function to update flexbox specific configuration. */
@@ -42,14 +59,33 @@ interface PlaygroundControlsProps {
   updateGrid: (patch: Partial<DemoConfig["container"]["grid"]>) => void;
   /** Helper function to update the number of items in the layout. */
   updateItemCount: (count: number) => void;
+  /** Path of the currently selected item, or null if none. */
+  selectedPath: ItemPath | null;
+  /** Callback to change the selected item path. */
+  setSelectedPath: (path: ItemPath | null) => void;
+  /** Appends a child item to the container at the given path. */
+  addItem: (parentPath: ItemPath) => void;
+  /** Removes the item at the given path. */
+  removeItem: (path: ItemPath) => void;
+  /** Reorders or reparents the item at the given path. */
+  moveItem: (path: ItemPath, direction: MoveDirection) => void;
+  /** Whether the preview draws the tracks of grid containers. */
+  showGridLines: boolean;
+  /** Callback to toggle the grid overlay. */
+  setShowGridLines: (show: boolean) => void;
 }
 
 /**
  * Toolbar control panel for the playground.
  *
- * Renders an interactive toolbar allowing users to adjust canvas dimensions,
- * display mode (flex/grid), padding, gap, and layout-specific properties
- * including columns, rows, and flex direction.
+ * Renders an interactive toolbar allowing users to adjust canvas dimensions
+ * (or drop an exact canvas size set by an opened fuzz case or fixture),
+ * how the root is sized against the canvas on each axis, display mode (flex/grid/block), padding and border, gap, and
+ * layout-specific properties including columns, rows, and flex direction.
+ * Block containers have no gap or layout-specific settings. The overlay
+ * toggle draws the tracks of every grid container in the tree. A full-width
+ * outline of the nested item tree closes the toolbar for adding, removing,
+ * and reparenting nodes.
  *
  * @example
  * <PlaygroundControls
@@ -57,10 +93,21 @@ interface PlaygroundControlsProps {
  *   setConfig={setConfig}
  *   previewScale={previewScale}
  *   setPreviewScale={setPreviewScale}
+ *   canvasSize={canvasSize}
+ *   clearCanvasSize={() => setCanvasSize(null)}
+ *   rootSizing={rootSizing}
+ *   setRootSizing={setRootSizing}
  *   updateContainer={updateContainer}
  *   updateFlex={updateFlex}
  *   updateGrid={updateGrid}
  *   updateItemCount={updateItemCount}
+ *   selectedPath={selectedPath}
+ *   setSelectedPath={setSelectedPath}
+ *   addItem={addItem}
+ *   removeItem={removeItem}
+ *   moveItem={moveItem}
+ *   showGridLines={showGridLines}
+ *   setShowGridLines={setShowGridLines}
  * />
  */
 export default function PlaygroundControls({
@@ -68,10 +115,21 @@ export default function PlaygroundControls({
   setConfig,
   previewScale,
   setPreviewScale,
+  canvasSize,
+  clearCanvasSize,
+  rootSizing,
+  setRootSizing,
   updateContainer,
   updateFlex,
   updateGrid,
   updateItemCount,
+  selectedPath,
+  setSelectedPath,
+  addItem,
+  removeItem,
+  moveItem,
+  showGridLines,
+  setShowGridLines,
 }: PlaygroundControlsProps) {
   const [activeSlider, setActiveSlider] = useState<"width" | "height" | null>(
     null,
@@ -188,6 +246,59 @@ export default function PlaygroundControls({
           </div>
           <span className="playground-tag-size text-[0.6rem]">%</span>
         </div>
+        {canvasSize && (
+          <button
+            type="button"
+            className="playground-canvas-fixed"
+            onClick={clearCanvasSize}
+            title="Use the canvas scale again"
+          >
+            {canvasSize.width} × {canvasSize.height} px ×
+          </button>
+        )}
+      </div>
+
+      <div className="toolbar-group">
+        <label className="toolbar-label">Root:</label>
+        {(["width", "height"] as const).map((axis) => (
+          <div key={axis} className="playground-row gap-1">
+            <span className="playground-tag-size text-[0.6rem]">
+              {axis === "width" ? "W" : "H"}
+            </span>
+            <select
+              className="playground-select small"
+              value={rootSizing[axis]}
+              onChange={(event) =>
+                setRootSizing((prev) => ({
+                  ...prev,
+                  [axis]: event.target.value as RootSizingMode,
+                }))
+              }
+              aria-label={`Root ${axis} sizing`}
+              name={`root-sizing-${axis}`}
+              autoComplete="off"
+            >
+              {ROOT_SIZING_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+        ))}
+      </div>
+
+      <div className="toolbar-group">
+        <label className="toolbar-label">Overlay:</label>
+        <label className="playground-inline">
+          <input
+            type="checkbox"
+            checked={showGridLines}
+            onChange={(event) => setShowGridLines(event.target.checked)}
+            name="show-grid-lines"
+          />
+          Grid lines
+        </label>
       </div>
 
       <div className="toolbar-group">
@@ -207,55 +318,36 @@ export default function PlaygroundControls({
         >
           <option value="flex">Flex</option>
           <option value="grid">Grid</option>
+          <option value="block">Block</option>
         </select>
       </div>
 
       <div className="toolbar-group">
-        <label className="toolbar-label">Padding:</label>
-        <input
-          className="playground-input small"
-          type="number"
-          min={0}
-          max={100}
-          value={config.container.padding}
-          onChange={(event) =>
-            updateContainer({ padding: Number(event.target.value) })
-          }
-          aria-label="Container padding"
-          name="container-padding"
-          autoComplete="off"
+        <label className="toolbar-label">Box:</label>
+        <PlaygroundBoxEditor
+          value={{ border: config.border, padding: config.padding }}
+          onChange={(patch) => setConfig((prev) => ({ ...prev, ...patch }))}
+          name="container-box"
         />
       </div>
 
-      <div className="toolbar-group">
-        <label className="toolbar-label">Gap:</label>
-        <input
-          className="playground-input small"
-          type="number"
-          min={0}
-          max={100}
-          value={config.container.gapX}
-          onChange={(event) =>
-            updateContainer({ gapX: Number(event.target.value) })
-          }
-          aria-label="Horizontal gap"
-          name="container-gap-x"
-          autoComplete="off"
-        />
-        <input
-          className="playground-input small"
-          type="number"
-          min={0}
-          max={100}
-          value={config.container.gapY}
-          onChange={(event) =>
-            updateContainer({ gapY: Number(event.target.value) })
-          }
-          aria-label="Vertical gap"
-          name="container-gap-y"
-          autoComplete="off"
-        />
-      </div>
+      {config.displayMode !== "block" && (
+        <div className="toolbar-group">
+          <label className="toolbar-label">Gap:</label>
+          <PlaygroundDimensionInput
+            value={config.container.gapX}
+            onChange={(gapX) => updateContainer({ gapX })}
+            label="Horizontal gap"
+            name="container-gap-x"
+          />
+          <PlaygroundDimensionInput
+            value={config.container.gapY}
+            onChange={(gapY) => updateContainer({ gapY })}
+            label="Vertical gap"
+            name="container-gap-y"
+          />
+        </div>
+      )}
 
       {config.displayMode === "flex" ? (
         <>
@@ -347,103 +439,29 @@ export default function PlaygroundControls({
             </select>
           </div>
         </>
-      ) : (
+      ) : config.displayMode === "grid" ? (
         <>
           <div className="toolbar-group">
             <label className="toolbar-label">Columns:</label>
-            <input
-              className="playground-input small"
-              type="number"
-              min={1}
-              max={20}
-              value={config.container.grid.columns}
-              onChange={(event) =>
-                updateGrid({
-                  columns: Number(event.target.value),
-                })
-              }
-              aria-label="Grid columns"
+            <PlaygroundGridTracks
+              axis="column"
+              tracks={config.container.grid.columns}
+              onTracksChange={(columns) => updateGrid({ columns })}
+              autoTracks={config.container.grid.autoColumns}
+              onAutoTracksChange={(autoColumns) => updateGrid({ autoColumns })}
               name="grid-columns"
-              autoComplete="off"
-            />
-            <select
-              className="playground-select small"
-              value={config.container.grid.columnMode}
-              onChange={(event) =>
-                updateGrid({
-                  columnMode: event.target.value as TrackSizingMode,
-                })
-              }
-              aria-label="Grid column sizing mode"
-              name="grid-column-mode"
-              autoComplete="off"
-            >
-              <option value="fixed">Fixed</option>
-              <option value="fr">fr</option>
-            </select>
-            <input
-              className="playground-input small"
-              type="number"
-              min={10}
-              max={500}
-              value={config.container.grid.columnSize}
-              onChange={(event) =>
-                updateGrid({
-                  columnSize: Number(event.target.value),
-                })
-              }
-              aria-label="Grid column size"
-              name="grid-column-size"
-              autoComplete="off"
             />
           </div>
 
           <div className="toolbar-group">
             <label className="toolbar-label">Rows:</label>
-            <input
-              className="playground-input small"
-              type="number"
-              min={1}
-              max={20}
-              value={config.container.grid.rows}
-              onChange={(event) =>
-                updateGrid({
-                  rows: Number(event.target.value),
-                })
-              }
-              aria-label="Grid rows"
+            <PlaygroundGridTracks
+              axis="row"
+              tracks={config.container.grid.rows}
+              onTracksChange={(rows) => updateGrid({ rows })}
+              autoTracks={config.container.grid.autoRows}
+              onAutoTracksChange={(autoRows) => updateGrid({ autoRows })}
               name="grid-rows"
-              autoComplete="off"
-            />
-            <select
-              className="playground-select small"
-              value={config.container.grid.rowMode}
-              onChange={(event) =>
-                updateGrid({
-                  rowMode: event.target.value as TrackSizingMode,
-                })
-              }
-              aria-label="Grid row sizing mode"
-              name="grid-row-mode"
-              autoComplete="off"
-            >
-              <option value="fixed">Fixed</option>
-              <option value="fr">fr</option>
-            </select>
-            <input
-              className="playground-input small"
-              type="number"
-              min={10}
-              max={500}
-              value={config.container.grid.rowSize}
-              onChange={(event) =>
-                updateGrid({
-                  rowSize: Number(event.target.value),
-                })
-              }
-              aria-label="Grid row size"
-              name="grid-row-size"
-              autoComplete="off"
             />
           </div>
 
@@ -468,8 +486,17 @@ export default function PlaygroundControls({
               ))}
             </select>
           </div>
+
+          <div className="toolbar-group">
+            <label className="toolbar-label">Areas:</label>
+            <PlaygroundGridAreas
+              areas={config.container.grid.areas}
+              onChange={(areas) => updateGrid({ areas })}
+              name="grid-areas"
+            />
+          </div>
         </>
-      )}
+      ) : null}
 
       <div className="toolbar-group">
         <label className="toolbar-label">Items:</label>
@@ -485,6 +512,15 @@ export default function PlaygroundControls({
           autoComplete="off"
         />
       </div>
+
+      <PlaygroundOutline
+        config={config}
+        selectedPath={selectedPath}
+        setSelectedPath={setSelectedPath}
+        addItem={addItem}
+        removeItem={removeItem}
+        moveItem={moveItem}
+      />
     </div>
   );
 }
@@ -0,0 +1,125 @@
+/**
+ * @module features/playground/components/PlaygroundDimensionInput
+ * @description Number input with a compact unit picker for pixel,
+ * percentage, `auto`, and `calc()` dimension values.
+ */
+
+import { type DemoDimension } from "./PlaygroundConfig";
+import {
+  type DimensionUnit,
+  dimensionError,
+  dimensionUnit,
+  resolveDimension,
+  withUnit,
+} from "@/features/playground/lib/dimensions";
+
+/**
+ * Props for the PlaygroundDimensionInput component.
+ */
+interface PlaygroundDimensionInputProps<T extends DemoDimension> {
+  /** Current value. */
+  value: T;
+  /** Called with each edited value. */
+  onChange: (value: T) => void;
+  /** Whether `auto` is offered; lengths such as padding leave it out. */
+  allowAuto?: boolean;
+  /** Label of the `auto` option, e.g. `none` for maximum sizes. */
+  autoLabel?: string;
+  /** Whether negative values are accepted, as for margins. */
+  allowNegative?: boolean;
+  /** Accessible label of the number input. */
+  label: string;
+  /** Form field name prefix, unique per input. */
+  name: string;
+}
+
+/**
+ * Dimension input: a number with a unit picker, or a free-form expression
+ * when the unit is `calc`. Expressions taffy-layout cannot represent are
+ * kept for editing and shown with the reason they are ignored.
+ *
+ * @param props - Component props.
+ * @returns Dimension input with its validation message.
+ *
+ * @example
+ * <PlaygroundDimensionInput
+ *   value={item.width}
+ *   onChange={(width) => updateItem({ width })}
+ *   allowAuto
+ *   label="Item width"
+ *   name="item-width"
+ * />
+ */
+export default function PlaygroundDimensionInput<T extends DemoDimension>({
+  value,
+  onChange,
+  allowAuto = false,
+  autoLabel = "auto",
+  allowNegative = false,
+  label,
+  name,
+}: PlaygroundDimensionInputProps<T>) {
+  const unit = dimensionUnit(value);
+  const resolved = resolveDimension(value);
+  const error =
+    dimensionError(value) ??
+    (!allowNegative && resolved !== "auto" && parseFloat(String(resolved)) < 0
+      ? "Negative values are not allowed here."
+      : null);
+  const units: DimensionUnit[] = allowAuto
+    ? ["px", "%", "auto", "calc"]
+    : ["px", "%", "calc"];
+
+  return (
+    <span className="playground-dimension">
+      {unit === "calc" ? (
+        <input
+          className="playground-input playground-dimension-calc"
+          type="text"
+          value={String(value).slice("calc(".length, -1)}
+          onChange={(event) => onChange(`calc(${event.target.value})` as T)}
+          spellCheck={false}
+          aria-label={`${label} expression`}
+          aria-invalid={error !== null}
+          title={error ?? "calc() expression with px or %, e.g. 100% / 3"}
+          name={name}
+          autoComplete="off"
+        />
+      ) : (
+        <input
+          className="playground-input small"
+          type="number"
+          min={allowNegative ? undefined : 0}
+          value={unit === "auto" ? "" : parseFloat(String(value))}
+          onChange={(event) => {
+            const amount = Number(event.target.value);
+            onChange((unit === "%" ? `${amount}%` : amount) as T);
+          }}
+          disabled={unit === "auto"}
+          placeholder={autoLabel}
+          aria-label={label}
+          aria-invalid={error !== null}
+          title={error ?? undefined}
+          name={name}
+          autoComplete="off"
+        />
+      )}
+      <select
+        className="playground-select playground-dimension-unit"
+        value={unit}
+        onChange={(event) =>
+          onChange(withUnit(value, event.target.value as DimensionUnit) as T)
+        }
+        aria-label={`${label} unit`}
+        name={`${name}-unit`}
+        autoComplete="off"
+      >
+        {units.map((option) => (
+          <option key={option} value={option}>
+            {option === "auto" ? autoLabel : option}
+          </option>
+        ))}
+      </select>
+    </span>
+  );
+}
@@ -0,0 +1,256 @@
+/**
+ * @module features/playground/components/PlaygroundFuzzPanel
+ * @description Runs layout fuzzing against the browser and lists the
+ * reduced reproductions, which can be opened or exported as HTML fixtures.
+ */
+
+import { type Dispatch, type SetStateAction } from "react";
+import { FileCode, Play, Square } from "lucide-react";
+import { formatNumber, type DisplayMode } from "./PlaygroundConfig";
+
+import { getCurrentLocale, getUi } from "@/lib/locales";
+import { downloadTextFile } from "@/features/playground/lib/download";
+import {
+  countItems,
+  type FuzzCase,
+  type FuzzOptions,
+} from "@/features/playground/lib/fuzz";
+import { exportHtml } from "@/features/playground/lib/htmlExport";
+import { formatPath } from "@/features/playground/lib/tree";
+
+/**
+ * Display modes that can be fuzzed.
+ */
+const FUZZ_DISPLAY_MODES: DisplayMode[] = ["flex", "grid", "block"];
+
+/**
+ * Props for the PlaygroundFuzzPanel component.
+ */
+interface PlaygroundFuzzPanelProps {
+  /** Size of the root container cases are laid out at. */
+  previewSize: { width: number; height: number };
+  /** Settings of the next run. */
+  options: FuzzOptions;
+  /** Callback to change the settings. */
+  setOptions: Dispatch<SetStateAction<FuzzOptions>>;
+  /** Whether a run is in progress. */
+  running: boolean;
+  /** Number of cases checked by the current or last run. */
+  checked: number;
+  /** Reduced reproductions found by the current or last run. */
+  failures: FuzzCase[];
+  /** Why the last run stopped early, or null. */
+  error: string | null;
+  /** Starts a run with the current settings. */
+  start: () => void;
+  /** Cancels the current run. */
+  stop: () => void;
+  /** Called with a case to open it in the playground at its root size. */
+  onOpen: (failure: FuzzCase) => void;
+}
+
+/**
+ * Panel with the fuzzing bounds, the progress of the current run, and the
+ * reproductions found so far.
+ *
+ * @param props - Component props.
+ * @returns The fuzz panel.
+ */
+export default function PlaygroundFuzzPanel({
+  previewSize,
+  options,
+  setOptions,
+  running,
+  checked,
+  failures,
+  error,
+  start,
+  stop,
+  onOpen,
+}: PlaygroundFuzzPanelProps) {
+  const ui = getUi(getCurrentLocale());
+
+  const updateBounds = (patch: Partial<FuzzOptions["bounds"]>) =>
+    setOptions((current) => ({
+      ...current,
+      bounds: { ...current.bounds, ...patch },
+    }));
+
+  const toggleDisplayMode = (mode: DisplayMode, enabled: boolean) =>
+    updateBounds({
+      displayModes: FUZZ_DISPLAY_MODES.filter((candidate) =>
+        candidate === mode
+          ? enabled
+          : options.bounds.displayModes.includes(candidate),
+      ),
+    });
+
+  const handleExport = (failure: FuzzCase) => {
+    downloadTextFile(
+      `taffy-fuzz-${failure.seed}.html`,
+      exportHtml(
+        failure.config,
+        failure.rootSize,
+        `Taffy fuzz case ${failure.seed}`,
+      ),
+      "text/html",
+    );
+  };
+
+  /**
+   * Renders a labelled whole-number input.
+   *
+   * @param label - Field label.
+   * @param value - Current value.
+   * @param min - Smallest allowed value.
+   * @param onChange - Receives the clamped value.
+   * @returns Field element.
+   */
+  const renderNumber = (
+    label: string,
+    value: number,
+    min: number,
+    onChange: (value: number) => void,
+  ) => (
+    <label className="playground-inline">
+      {label}
+      <input
+        className="playground-input small"
+        type="number"
+        min={min}
+        value={value}
+        disabled={running}
+        onChange={(event) =>
+          onChange(Math.max(min, Math.floor(Number(event.target.value) || 0)))
+        }
+        autoComplete="off"
+      />
+    </label>
+  );
+
+  return (
+    <div className="playground-fuzz">
+      <p className="playground-fuzz-intro">{ui.fuzzIntro}</p>
+      <div className="playground-fuzz-settings">
+        {renderNumber(ui.fuzzCases, options.cases, 1, (cases) =>
+          setOptions((current) => ({ ...current, cases })),
+        )}
+        {renderNumber(ui.fuzzSeed, options.seed, 0, (seed) =>
+          setOptions((current) => ({ ...current, seed })),
+        )}
+        {renderNumber(ui.fuzzMaxDepth, options.bounds.maxDepth, 0, (maxDepth) =>
+          updateBounds({ maxDepth }),
+        )}
+        {renderNumber(ui.fuzzMaxItems, options.bounds.maxItems, 1, (maxItems) =>
+          updateBounds({ maxItems }),
+        )}
+        {renderNumber(ui.compareTolerance, options.tolerance, 0, (tolerance) =>
+          setOptions((current) => ({ ...current, tolerance })),
+        )}
+      </div>
+      <div className="playground-fuzz-settings">
+        {FUZZ_DISPLAY_MODES.map((mode) => (
+          <label key={mode} className="playground-inline">
+            <input
+              type="checkbox"
+              checked={options.bounds.displayModes.includes(mode)}
+              disabled={running}
+              onChange={(event) =>
+                toggleDisplayMode(mode, event.target.checked)
+              }
+            />
+            {mode}
+          </label>
+        ))}
+        <label className="playground-inline">
+          <input
+            type="checkbox"
+            checked={options.bounds.text}
+            disabled={running}
+            onChange={(event) => updateBounds({ text: event.target.checked })}
+          />
+          {ui.fuzzText}
+        </label>
+      </div>
+
+      <div className="playground-import-actions">
+        <span className="playground-fuzz-progress">
+          {ui.fuzzProgress
+            .replace("{{checked}}", String(checked))
+            .replace("{{total}}", String(options.cases))
+            .replace("{{count}}", String(failures.length))}{" "}
+          · {formatNumber(previewSize.width)} ×{" "}
+          {formatNumber(previewSize.height)}
+        </span>
+        {running ? (
+          <button
+            type="button"
+            className="playground-button playground-button-secondary playground-button-icon"
+            onClick={stop}
+          >
+            <Square className="h-4 w-4" />
+            {ui.fuzzStop}
+          </button>
+        ) : (
+          <button
+            type="button"
+            className="playground-button playground-button-icon"
+            onClick={start}
+            disabled={options.bounds.displayModes.length === 0}
+          >
+            <Play className="h-4 w-4" />
+            {ui.fuzzStart}
+          </button>
+        )}
+      </div>
+
+      {error && <div className="playground-error">⚠️ {error}</div>}
+      {failures.length > 0 && (
+        <ul className="playground-fuzz-cases">
+          {failures.map((failure) => {
+            const [first] = failure.differences;
+            return (
+              <li key={failure.seed}>
+                <div>
+                  <strong>
+                    {ui.fuzzSeed} {failure.seed}
+                  </strong>{" "}
+                  · {countItems(failure.config)} {ui.fuzzItems}
+                  {first && (
+                    <p>
+                      {first.path.length === 0
+                        ? ui.importRoot
+                        : `Item ${formatPath(first.path)}`}{" "}
+                      <code>{first.field}</code>: Taffy{" "}
+                      {formatNumber(first.taffy)}, {ui.compareBrowser}{" "}
+                      {formatNumber(first.reference)}
+                      {failure.differences.length > 1 &&
+                        ` (+${failure.differences.length - 1})`}
+                    </p>
+                  )}
+                </div>
+                <div className="playground-fuzz-case-actions">
+                  <button
+                    type="button"
+                    className="playground-button playground-button-secondary"
+                    onClick={() => onOpen(failure)}
+                  >
+                    {ui.fuzzOpen}
+                  </button>
+                  <button
+                    type="button"
+                    className="playground-button playground-button-secondary playground-button-icon"
+                    onClick={() => handleExport(failure)}
+                  >
+                    <FileCode className="h-4 w-4" />
+                    {ui.exportHtml}
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
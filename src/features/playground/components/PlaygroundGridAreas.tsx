@@ -0,0 +1,59 @@
+/**
+ * @module features/playground/components/PlaygroundGridAreas
+ * @description Editor for a grid container's `grid-template-areas`.
+ */
+
+import { parseTemplateAreas } from "@/features/playground/lib/gridAreas";
+
+/**
+ * Props for the PlaygroundGridAreas component.
+ */
+interface PlaygroundGridAreasProps {
+  /** Template rows, one string of area names per grid row. */
+  areas: string[];
+  /** Called with the edited rows. */
+  onChange: (areas: string[]) => void;
+  /** Form field name, unique per editor instance. */
+  name: string;
+}
+
+/**
+ * Text editor for named grid areas, one template row per line, in the same
+ * notation as CSS (`.` leaves a cell empty). Invalid templates are kept so
+ * they can be fixed, but are not applied to the layout.
+ *
+ * @param props - Component props.
+ * @returns Areas textarea with its validation message.
+ *
+ * @example
+ * <PlaygroundGridAreas
+ *   areas={config.container.grid.areas}
+ *   onChange={(areas) => updateGrid({ areas })}
+ *   name="grid-areas"
+ * />
+ */
+export default function PlaygroundGridAreas({
+  areas,
+  onChange,
+  name,
+}: PlaygroundGridAreasProps) {
+  const { error } = parseTemplateAreas(areas);
+
+  return (
+    <div className="playground-grid-areas">
+      <textarea
+        className="playground-grid-areas-input"
+        value={areas.join("\n")}
+        onChange={(event) => onChange(event.target.value.split("\n"))}
+        placeholder={"header header\nnav main"}
+        rows={Math.max(2, areas.length)}
+        spellCheck={false}
+        aria-label="Grid template areas"
+        aria-invalid={error !== null}
+        name={name}
+        autoComplete="off"
+      />
+      {error && <span className="playground-field-error">{error}</span>}
+    </div>
+  );
+}
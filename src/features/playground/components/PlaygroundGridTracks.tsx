@@ -0,0 +1,208 @@
+/**
+ * @module features/playground/components/PlaygroundGridTracks
+ * @description Per-track editor for a grid axis: explicit track list with
+ * `repeat()` support, plus the sizes of implicit tracks.
+ */
+
+import { Plus, Trash2 } from "lucide-react";
+import { type DemoTrack, type TrackRepeat } from "./PlaygroundConfig";
+import {
+  buildTrackList,
+  parseTrackSizes,
+} from "@/features/playground/lib/gridTracks";
+
+/**
+ * Size suggestions offered by the track inputs.
+ */
+const SIZE_SUGGESTIONS = [
+  "1fr",
+  "100px",
+  "25%",
+  "auto",
+  "min-content",
+  "max-content",
+  "fit-content",
+  "minmax(100px, 1fr)",
+  "minmax(auto, 200px)",
+];
+
+/**
+ * Repeat modes offered for each track list entry.
+ */
+const REPEAT_OPTIONS = [
+  { label: "Track", value: "single" },
+  { label: "Repeat", value: "count" },
+  { label: "Auto-fill", value: "auto-fill" },
+  { label: "Auto-fit", value: "auto-fit" },
+] as const;
+
+/**
+ * Props for the PlaygroundGridTracks component.
+ */
+interface PlaygroundGridTracksProps {
+  /** Grid axis being edited. */
+  axis: "column" | "row";
+  /** Explicit track list. */
+  tracks: DemoTrack[];
+  /** Called with the edited track list. */
+  onTracksChange: (tracks: DemoTrack[]) => void;
+  /** Sizes of implicit tracks in CSS syntax. */
+  autoTracks: string;
+  /** Called with the edited implicit track sizes. */
+  onAutoTracksChange: (value: string) => void;
+  /** Form field name prefix, unique per editor instance. */
+  name: string;
+}
+
+/**
+ * Returns the repeat mode shown in the select for a repeat count.
+ *
+ * @param repeat - Repeat count of an entry.
+ * @returns Repeat option value.
+ */
+const repeatMode = (repeat: TrackRepeat) =>
+  typeof repeat === "string" ? repeat : repeat === 1 ? "single" : "count";
+
+/**
+ * Editor for the tracks of one grid axis. Sizes use CSS syntax; entries
+ * that fail to parse are kept for editing but left out of the layout, and
+ * the first problem is shown below the list.
+ *
+ * @param props - Component props.
+ * @returns Track list editor.
+ *
+ * @example
+ * <PlaygroundGridTracks
+ *   axis="column"
+ *   tracks={grid.columns}
+ *   onTracksChange={(columns) => updateGrid({ columns })}
+ *   autoTracks={grid.autoColumns}
+ *   onAutoTracksChange={(autoColumns) => updateGrid({ autoColumns })}
+ *   name="grid-columns"
+ * />
+ */
+export default function PlaygroundGridTracks({
+  axis,
+  tracks,
+  onTracksChange,
+  autoTracks,
+  onAutoTracksChange,
+  name,
+}: PlaygroundGridTracksProps) {
+  const error =
+    buildTrackList(tracks).error ?? parseTrackSizes(autoTracks).error;
+  const suggestionsId = `${name}-sizes`;
+
+  const updateTrack = (index: number, patch: Partial<DemoTrack>) =>
+    onTracksChange(
+      tracks.map((track, current) =>
+        current === index ? { ...track, ...patch } : track,
+      ),
+    );
+
+  return (
+    <div className="playground-tracks">
+      <datalist id={suggestionsId}>
+        {SIZE_SUGGESTIONS.map((size) => (
+          <option key={size} value={size} />
+        ))}
+      </datalist>
+      {tracks.map((track, index) => (
+        <div className="playground-track" key={index}>
+          <select
+            className="playground-select small"
+            value={repeatMode(track.repeat)}
+            onChange={(event) => {
+              const mode = event.target.value;
+              updateTrack(index, {
+                repeat:
+                  mode === "single"
+                    ? 1
+                    : mode === "count"
+                      ? 2
+                      : (mode as TrackRepeat),
+              });
+            }}
+            aria-label={`${axis} track ${index + 1} repeat`}
+            name={`${name}-${index}-repeat`}
+            autoComplete="off"
+          >
+            {REPEAT_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          {typeof track.repeat === "number" && track.repeat > 1 && (
+            <input
+              className="playground-input small"
+              type="number"
+              min={2}
+              max={20}
+              value={track.repeat}
+              onChange={(event) =>
+                updateTrack(index, {
+                  repeat: Math.max(1, Number(event.target.value)),
+                })
+              }
+              aria-label={`${axis} track ${index + 1} repeat count`}
+              name={`${name}-${index}-count`}
+              autoComplete="off"
+            />
+          )}
+          <input
+            className="playground-input playground-track-size"
+            type="text"
+            list={suggestionsId}
+            value={track.size}
+            onChange={(event) =>
+              updateTrack(index, { size: event.target.value })
+            }
+            spellCheck={false}
+            aria-label={`${axis} track ${index + 1} size`}
+            name={`${name}-${index}-size`}
+            autoComplete="off"
+          />
+          <button
+            type="button"
+            className="playground-icon-button"
+            onClick={() =>
+              onTracksChange(tracks.filter((_, current) => current !== index))
+            }
+            aria-label={`Remove ${axis} track ${index + 1}`}
+            title="Remove track"
+          >
+            <Trash2 className="h-3.5 w-3.5" />
+          </button>
+        </div>
+      ))}
+      <div className="playground-track">
+        <button
+          type="button"
+          className="playground-icon-button"
+          onClick={() =>
+            onTracksChange([...tracks, { size: "1fr", repeat: 1 }])
+          }
+          aria-label={`Add ${axis} track`}
+          title="Add track"
+        >
+          <Plus className="h-3.5 w-3.5" />
+        </button>
+        <span className="toolbar-label">Implicit:</span>
+        <input
+          className="playground-input playground-track-size"
+          type="text"
+          list={suggestionsId}
+          value={autoTracks}
+          onChange={(event) => onAutoTracksChange(event.target.value)}
+          placeholder="auto"
+          spellCheck={false}
+          aria-label={`Implicit ${axis} track sizes`}
+          name={`${name}-auto`}
+          autoComplete="off"
+        />
+      </div>
+      {error && <span className="playground-field-error">{error}</span>}
+    </div>
+  );
+}
@@ -0,0 +1,123 @@
+/**
+ * @module features/playground/components/PlaygroundHistory
+ * @description Undo/redo buttons and a compact list of recent edits.
+ */
+
+import { useEffect, useRef, useState } from "react";
+import { History, Redo2, Undo2 } from "lucide-react";
+
+import { getCurrentLocale, getUi } from "@/lib/locales";
+import { type HistoryState } from "@/features/playground/lib/history";
+
+/**
+ * Props for the PlaygroundHistory component.
+ */
+interface PlaygroundHistoryProps {
+  /** Current history state. */
+  history: HistoryState;
+  /** Whether an earlier entry exists. */
+  canUndo: boolean;
+  /** Whether a later entry exists. */
+  canRedo: boolean;
+  /** Steps back one entry. */
+  undo: () => void;
+  /** Steps forward one entry. */
+  redo: () => void;
+  /** Jumps to an entry by index. */
+  jumpToHistory: (index: number) => void;
+}
+
+/**
+ * History controls for the playground header.
+ *
+ * @param props - Component props.
+ * @returns Undo/redo buttons with a history dropdown.
+ */
+export default function PlaygroundHistory({
+  history,
+  canUndo,
+  canRedo,
+  undo,
+  redo,
+  jumpToHistory,
+}: PlaygroundHistoryProps) {
+  const ui = getUi(getCurrentLocale());
+  const [open, setOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return undefined;
+
+    const handlePointerDown = (event: PointerEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) {
+        setOpen(false);
+      }
+    };
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") setOpen(false);
+    };
+
+    document.addEventListener("pointerdown", handlePointerDown);
+    document.addEventListener("keydown", handleKeyDown);
+    return () => {
+      document.removeEventListener("pointerdown", handlePointerDown);
+      document.removeEventListener("keydown", handleKeyDown);
+    };
+  }, [open]);
+
+  return (
+    <div className="playground-history" ref={containerRef}>
+      <button
+        type="button"
+        className="playground-icon-button"
+        onClick={undo}
+        disabled={!canUndo}
+        title={`${ui.undo} (Ctrl+Z)`}
+        aria-label={ui.undo}
+      >
+        <Undo2 className="h-4 w-4" />
+      </button>
+      <button
+        type="button"
+        className="playground-icon-button"
+        onClick={redo}
+        disabled={!canRedo}
+        title={`${ui.redo} (Ctrl+Shift+Z)`}
+        aria-label={ui.redo}
+      >
+        <Redo2 className="h-4 w-4" />
+      </button>
+      <button
+        type="button"
+        className={`playground-icon-button ${open ? "active" : ""}`}
+        onClick={() => setOpen((value) => !value)}
+        title={ui.history}
+        aria-label={ui.history}
+        aria-expanded={open}
+      >
+        <History className="h-4 w-4" />
+      </button>
+
+      {open && (
+        <ol className="playground-history-list">
+          {history.entries
+            .map((entry, index) => ({ entry, index }))
+            .reverse()
+            .map(({ entry, index }) => (
+              <li key={index}>
+                <button
+                  type="button"
+                  className={`playground-history-entry ${
+                    index === history.index ? "active" : ""
+                  } ${index > history.index ? "future" : ""}`}
+                  onClick={() => jumpToHistory(index)}
+                >
+                  {entry.label}
+                </button>
+              </li>
+            ))}
+        </ol>
+      )}
+    </div>
+  );
+}
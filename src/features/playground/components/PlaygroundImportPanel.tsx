@@ -0,0 +1,138 @@
+/**
+ * @module features/playground/components/PlaygroundImportPanel
+ * @description Lets users paste an HTML snippet or Taffy gentest fixture and
+ * load it into the playground, reporting any CSS that was dropped.
+ */
+
+import { useRef, useState, type ChangeEvent } from "react";
+import { Upload } from "lucide-react";
+
+import { getCurrentLocale, getUi } from "@/lib/locales";
+import { reportError } from "@/features/code/lib/errors";
+import { LayoutImportError } from "@/features/playground/lib/errors";
+import {
+  importHtml,
+  type DroppedProperty,
+  type HtmlImportResult,
+} from "@/features/playground/lib/htmlImport";
+import { formatPath } from "@/features/playground/lib/tree";
+
+/**
+ * Props for the PlaygroundImportPanel component.
+ */
+interface PlaygroundImportPanelProps {
+  /** Called with the imported configuration and root size. */
+  onImport: (result: HtmlImportResult) => void;
+}
+
+/**
+ * Panel with an HTML input and the report of the last import.
+ *
+ * @param props - Component props.
+ * @returns The import panel.
+ */
+export default function PlaygroundImportPanel({
+  onImport,
+}: PlaygroundImportPanelProps) {
+  const ui = getUi(getCurrentLocale());
+  const [source, setSource] = useState("");
+  const [dropped, setDropped] = useState<DroppedProperty[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleImport = () => {
+    try {
+      const result = importHtml(source);
+      onImport(result);
+      setDropped(result.dropped);
+      setError(null);
+    } catch (err) {
+      if (!(err instanceof LayoutImportError)) {
+        reportError(err, "PlaygroundImportPanel");
+      }
+      setDropped(null);
+      setError(
+        err instanceof LayoutImportError
+          ? err.message
+          : "The HTML could not be imported.",
+      );
+    }
+  };
+
+  const handleFileChange = (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    file
+      .text()
+      .then(setSource)
+      .catch((err) => reportError(err, "PlaygroundImportPanel"));
+  };
+
+  return (
+    <div className="playground-import">
+      <textarea
+        className="playground-import-input"
+        value={source}
+        onChange={(event) => setSource(event.target.value)}
+        placeholder={ui.importPlaceholder}
+        spellCheck={false}
+        aria-label={ui.importPlaceholder}
+        name="playground-import"
+      />
+      <div className="playground-import-actions">
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".html,.htm,text/html"
+          hidden
+          onChange={handleFileChange}
+        />
+        <button
+          type="button"
+          className="playground-button playground-button-secondary playground-button-icon"
+          onClick={() => fileInputRef.current?.click()}
+        >
+          <Upload className="h-4 w-4" />
+          {ui.importOpenFile}
+        </button>
+        <button
+          type="button"
+          className="playground-button"
+          onClick={handleImport}
+          disabled={!source.trim()}
+        >
+          {ui.importApply}
+        </button>
+      </div>
+
+      {error && <div className="playground-error">⚠️ {error}</div>}
+      {dropped && (
+        <div className="playground-import-report">
+          {dropped.length === 0 ? (
+            <p>{ui.importComplete}</p>
+          ) : (
+            <>
+              <p>{ui.importDropped}</p>
+              <ul>
+                {dropped.map((entry, index) => (
+                  <li key={index}>
+                    <span className="playground-import-path">
+                      {entry.path.length === 0
+                        ? ui.importRoot
+                        : `Item ${formatPath(entry.path)}`}
+                    </span>
+                    <code>
+                      {entry.property}: {entry.value}
+                    </code>
+                    <span>{entry.reason}</span>
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
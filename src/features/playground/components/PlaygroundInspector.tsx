@@ -0,0 +1,189 @@
+/**
+ * @module features/playground/components/PlaygroundInspector
+ * @description Shows everything Taffy computed for the selected node next to
+ * the style it was given, like the "Computed" tab of browser devtools.
+ */
+
+import { type StyleProperty } from "taffy-layout";
+import {
+  type DemoSides,
+  type ItemPath,
+  type LayoutNode,
+} from "./PlaygroundConfig";
+
+import { getCurrentLocale, getUi } from "@/lib/locales";
+import {
+  STYLE_ENUMS,
+  significantStyleEntries,
+} from "@/features/playground/lib/styles";
+import { formatPath, isSamePath } from "@/features/playground/lib/tree";
+
+/**
+ * Props for the PlaygroundInspector component.
+ */
+interface PlaygroundInspectorProps {
+  /** Calculated layout nodes from Taffy engine. */
+  layoutNodes: LayoutNode[];
+  /** Path of the selected item; the root is inspected when null. */
+  selectedPath: ItemPath | null;
+}
+
+/**
+ * Box edges listed in the box model table, from the outside in.
+ */
+const BOX_EDGES = ["margin", "border", "padding"] as const;
+
+/**
+ * Finds the layout node of an item, or the root for `[]`.
+ *
+ * @param node - Node to search from.
+ * @param path - Item path to find.
+ * @returns Matching node, or null.
+ */
+const findNode = (node: LayoutNode, path: ItemPath): LayoutNode | null => {
+  if (isSamePath(node.meta?.path ?? [], path)) return node;
+  for (const child of node.children ?? []) {
+    const found = findNode(child, path);
+    if (found) return found;
+  }
+  return null;
+};
+
+/**
+ * Formats a computed length, keeping fractions Taffy did not round.
+ *
+ * @param value - Length in pixels.
+ * @returns Display text.
+ */
+const formatPixels = (value: number) =>
+  `${Number.isInteger(value) ? value : value.toFixed(2)}`;
+
+/**
+ * Formats a style value as it would be written in TypeScript, with enum
+ * members by name.
+ *
+ * @param key - Style property.
+ * @param value - Value sent to Taffy.
+ * @returns Display text.
+ */
+const formatStyleValue = (key: StyleProperty, value: unknown) => {
+  const enumInfo = STYLE_ENUMS[key];
+  if (enumInfo && typeof value === "number") {
+    return `${enumInfo.name}.${enumInfo.values[value]}`;
+  }
+  return JSON.stringify(value);
+};
+
+/**
+ * Formats box sides in CSS shorthand order.
+ *
+ * @param sides - Resolved sides.
+ * @returns Top, right, bottom, and left values.
+ */
+const formatSides = (sides: DemoSides) =>
+  [sides.top, sides.right, sides.bottom, sides.left].map(formatPixels);
+
+/**
+ * Inspector panel for the selected node. Lists the computed position, size,
+ * content and scrollbar sizes, order, resolved box edges, and the style
+ * properties sent to Taffy, with those that differ from Taffy's defaults
+ * highlighted.
+ *
+ * @param props - Component props.
+ * @returns The inspector panel, or null before the first layout.
+ */
+export default function PlaygroundInspector({
+  layoutNodes,
+  selectedPath,
+}: PlaygroundInspectorProps) {
+  const ui = getUi(getCurrentLocale());
+  const root = layoutNodes[0];
+  const path = selectedPath ?? [];
+  const node = root ? findNode(root, path) : null;
+  if (!node) return null;
+
+  const style = node.meta?.style ?? {};
+  const significant = new Set(
+    significantStyleEntries(style).map(([key]) => key),
+  );
+  const computed: [string, string][] = [
+    ["x, y", `${formatPixels(node.x)}, ${formatPixels(node.y)}`],
+    ["size", `${formatPixels(node.width)} × ${formatPixels(node.height)}`],
+    [
+      "contentSize",
+      `${formatPixels(node.contentSize.width)} × ${formatPixels(node.contentSize.height)}`,
+    ],
+    [
+      "scrollbarSize",
+      `${formatPixels(node.scrollbarSize.width)} × ${formatPixels(node.scrollbarSize.height)}`,
+    ],
+    ["order", String(node.order)],
+  ];
+
+  return (
+    <div className="playground-inspector">
+      <div className="playground-inspector-header">
+        <strong>
+          {path.length === 0 ? ui.importRoot : `Item ${formatPath(path)}`}
+        </strong>
+        <code>
+          {ui.inspectorPath}: [{path.join(", ")}] · NodeId {node.id.toString()}
+        </code>
+      </div>
+
+      <div className="playground-inspector-sections">
+        <section>
+          <h3>{ui.inspectorLayout}</h3>
+          <dl className="playground-inspector-list">
+            {computed.map(([label, value]) => (
+              <div key={label}>
+                <dt>{label}</dt>
+                <dd>{value}</dd>
+              </div>
+            ))}
+          </dl>
+          <table className="playground-inspector-box">
+            <thead>
+              <tr>
+                <th />
+                <th>top</th>
+                <th>right</th>
+                <th>bottom</th>
+                <th>left</th>
+              </tr>
+            </thead>
+            <tbody>
+              {BOX_EDGES.map((edge) => (
+                <tr key={edge} className={edge}>
+                  <th>{edge}</th>
+                  {formatSides(node[edge]).map((value, index) => (
+                    <td key={index}>{value}</td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </section>
+
+        <section>
+          <h3>{ui.inspectorStyle}</h3>
+          <dl className="playground-inspector-list">
+            {(Object.entries(style) as [StyleProperty, unknown][]).map(
+              ([key, value]) => (
+                <div
+                  key={key}
+                  className={significant.has(key) ? "" : "default"}
+                >
+                  <dt>{key}</dt>
+                  <dd>
+                    <code>{formatStyleValue(key, value)}</code>
+                  </dd>
+                </div>
+              ),
+            )}
+          </dl>
+        </section>
+      </div>
+    </div>
+  );
+}
@@ -6,10 +6,66 @@
 import React from "react";
 import {
   type DemoItem,
-  type DemoConfig,
+  type DemoContainer,
+  type DemoLayout,
+  type DisplayMode,
+  ALIGN_ITEMS_OPTIONS,
   ALIGN_SELF_OPTIONS,
+  FLEX_DIRECTION_OPTIONS,
+  FLEX_WRAP_OPTIONS,
+  JUSTIFY_CONTENT_OPTIONS,
+  POSITION_OPTIONS,
+  defaultText,
+  type AlignItemsKey,
   type AlignSelfKey,
+  type FlexDirectionKey,
+  type FlexWrapKey,
+  type JustifyContentKey,
+  type PositionKey,
 } from "./PlaygroundConfig";
+import PlaygroundBoxEditor from "./PlaygroundBoxEditor";
+import PlaygroundDimensionInput from "./PlaygroundDimensionInput";
+import PlaygroundGridAreas from "./PlaygroundGridAreas";
+import PlaygroundGridTracks from "./PlaygroundGridTracks";
+import { listAreaNames } from "@/features/playground/lib/gridAreas";
+
+/**
+ * Placement fields edited for each grid axis.
+ */
+const GRID_AXES = [
+  {
+    axis: "column",
+    label: "Column",
+    start: "columnStart",
+    end: "columnEnd",
+    span: "columnSpan",
+  },
+  {
+    axis: "row",
+    label: "Row",
+    start: "rowStart",
+    end: "rowEnd",
+    span: "rowSpan",
+  },
+] as const;
+
+/**
+ * Size and size limit rows edited for each item, with the CSS keyword that
+ * leaves an axis unset.
+ */
+const SIZE_FIELDS = [
+  { field: "size", label: "Size", autoLabel: "auto" },
+  { field: "minSize", label: "Min", autoLabel: "auto" },
+  { field: "maxSize", label: "Max", autoLabel: "none" },
+] as const;
+
+/**
+ * Inset sides edited per row, vertical sides first.
+ */
+const INSET_ROWS = [
+  ["top", "bottom"],
+  ["left", "right"],
+] as const;
 
 /**
  * Props for the PlaygroundNodeEditor component.
@@ -17,8 +73,8 @@ import {
 interface PlaygroundNodeEditorProps {
   /** The currently selected layout item to edit. */
   selectedItem: DemoItem;
-  /** The global playground configuration. */
-  config: DemoConfig;
+  /** The layout that contains the selected item. */
+  parentLayout: DemoLayout;
   /** Callback to update properties of the selected item. */
   updateItem: (patch: Partial<DemoItem>) => void;
   /** Callback to close the editor. */
@@ -29,23 +85,41 @@ interface PlaygroundNodeEditorProps {
  * Inline property editor for a selected playground node.
  *
  * Renders form controls within a floating tooltip for editing the selected
- * item’s dimensions, flex properties (when in flex mode), grid span (when in
- * grid mode), and alignment. The editor closes via the onClose callback.
+ * item’s dimensions, text content (for leaves), size limits,
+ * margin/border/padding, visibility,
+ * position and insets, flex properties (when its parent is in flex mode),
+ * grid lines, spans, and named area (when its parent is in grid mode), and
+ * alignment (except in block mode, which has no self alignment).
+ * Items with a nested layout also expose their own container settings. The
+ * editor closes via the onClose callback.
  *
  * @example
  * <PlaygroundNodeEditor
  *   selectedItem={selectedItem}
- *   config={config}
+ *   parentLayout={parentLayout}
  *   updateItem={updateItem}
  *   onClose={() => setSelectedItemIndex(null)}
  * />
  */
 export const PlaygroundNodeEditor: React.FC<PlaygroundNodeEditorProps> = ({
   selectedItem,
-  config,
+  parentLayout,
   updateItem,
   onClose,
 }) => {
+  const nestedLayout = selectedItem.layout;
+  const areaNames = listAreaNames(parentLayout.container.grid.areas);
+
+  const updateNestedContainer = (patch: Partial<DemoContainer>) => {
+    if (!nestedLayout) return;
+    updateItem({
+      layout: {
+        ...nestedLayout,
+        container: { ...nestedLayout.container, ...patch },
+      },
+    });
+  };
+
   return (
     <div className="playground-tooltip-content">
       <button
@@ -70,65 +144,169 @@ export const PlaygroundNodeEditor: React.FC<PlaygroundNodeEditorProps> = ({
         <label>
           <span className="playground-tag playground-tag-size">Size</span>
         </label>
-        <div className="playground-row">
+        {SIZE_FIELDS.map(({ field, label, autoLabel }) => (
+          <div className="playground-row" key={field}>
+            <span className="playground-inline">{label}</span>
+            {(["width", "height"] as const).map((axis) => (
+              <PlaygroundDimensionInput
+                key={axis}
+                value={
+                  field === "size"
+                    ? selectedItem[axis]
+                    : selectedItem[field][axis]
+                }
+                onChange={(next) =>
+                  updateItem(
+                    field === "size"
+                      ? { [axis]: next }
+                      : { [field]: { ...selectedItem[field], [axis]: next } },
+                  )
+                }
+                allowAuto
+                autoLabel={autoLabel}
+                label={`${label} ${axis}`}
+                name={`item-${field}-${axis}`}
+              />
+            ))}
+          </div>
+        ))}
+      </div>
+
+      {!nestedLayout && (
+        <div className="playground-field">
           <label className="playground-inline">
             <input
               type="checkbox"
-              checked={selectedItem.widthAuto}
+              checked={selectedItem.text !== undefined}
               onChange={(event) =>
-                updateItem({ widthAuto: event.target.checked })
+                updateItem(
+                  event.target.checked
+                    ? {
+                        text: { ...defaultText },
+                        width: "auto",
+                        height: "auto",
+                      }
+                    : { text: undefined },
+                )
               }
-              name="item-width-auto"
-              aria-label="Auto width"
-              autoComplete="off"
+              name="item-text-enabled"
             />
-            Auto W
+            Text content
           </label>
-          <input
-            className="playground-input small"
-            type="number"
-            min={0}
-            value={selectedItem.width}
-            onChange={(event) =>
-              updateItem({ width: Number(event.target.value) })
-            }
-            disabled={selectedItem.widthAuto}
-            name="item-width"
-            aria-label="Item width"
-            autoComplete="off"
-          />
+          {selectedItem.text && (
+            <>
+              <textarea
+                className="playground-text-input"
+                value={selectedItem.text.content}
+                onChange={(event) =>
+                  updateItem({
+                    text: {
+                      ...(selectedItem.text ?? defaultText),
+                      content: event.target.value,
+                    },
+                  })
+                }
+                rows={3}
+                aria-label="Text content"
+                name="item-text"
+                autoComplete="off"
+              />
+              <div className="playground-row">
+                <span className="playground-inline">Font size</span>
+                <input
+                  className="playground-input small"
+                  type="number"
+                  min={1}
+                  value={selectedItem.text.fontSize}
+                  onChange={(event) =>
+                    updateItem({
+                      text: {
+                        ...(selectedItem.text ?? defaultText),
+                        fontSize: Math.max(1, Number(event.target.value)),
+                      },
+                    })
+                  }
+                  name="item-text-font-size"
+                  aria-label="Font size"
+                  autoComplete="off"
+                />
+              </div>
+            </>
+          )}
         </div>
-        <div className="playground-row">
-          <label className="playground-inline">
-            <input
-              type="checkbox"
-              checked={selectedItem.heightAuto}
-              onChange={(event) =>
-                updateItem({ heightAuto: event.target.checked })
-              }
-              name="item-height-auto"
-              aria-label="Auto height"
-              autoComplete="off"
-            />
-            Auto H
-          </label>
+      )}
+
+      <div className="playground-field">
+        <label>
+          <span className="playground-tag playground-tag-size">Box</span>
+        </label>
+        <PlaygroundBoxEditor
+          value={{
+            margin: selectedItem.margin,
+            border: selectedItem.border,
+            padding: selectedItem.padding,
+          }}
+          onChange={updateItem}
+          name="item-box"
+        />
+      </div>
+
+      <div className="playground-field">
+        <label className="playground-inline">
           <input
-            className="playground-input small"
-            type="number"
-            min={0}
-            value={selectedItem.height}
-            onChange={(event) =>
-              updateItem({ height: Number(event.target.value) })
-            }
-            disabled={selectedItem.heightAuto}
-            name="item-height"
-            aria-label="Item height"
-            autoComplete="off"
+            type="checkbox"
+            checked={selectedItem.hidden}
+            onChange={(event) => updateItem({ hidden: event.target.checked })}
+            name="item-hidden"
           />
-        </div>
+          Hidden (display: none)
+        </label>
+      </div>
+
+      <div className="playground-field">
+        <label>
+          <span className="playground-tag playground-tag-size">Position</span>
+        </label>
+        <select
+          className="playground-select small"
+          value={selectedItem.position}
+          onChange={(event) =>
+            updateItem({ position: event.target.value as PositionKey })
+          }
+          name="item-position"
+          aria-label="Position"
+          autoComplete="off"
+        >
+          {POSITION_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        {INSET_ROWS.map((sides) => (
+          <div className="playground-row" key={sides.join("-")}>
+            {sides.map((side) => (
+              <React.Fragment key={side}>
+                <span className="playground-inline">{side}</span>
+                <PlaygroundDimensionInput
+                  value={selectedItem.inset[side]}
+                  onChange={(next) =>
+                    updateItem({
+                      inset: { ...selectedItem.inset, [side]: next },
+                    })
+                  }
+                  allowAuto
+                  allowNegative
+                  label={`Inset ${side}`}
+                  name={`item-inset-${side}`}
+                />
+              </React.Fragment>
+            ))}
+          </div>
+        ))}
       </div>
 
-      {config.displayMode === "flex" ? (
+      {parentLayout.displayMode === "flex" ? (
         <>
           <div className="playground-field">
             <label>
@@ -183,113 +361,312 @@ export const PlaygroundNodeEditor: React.FC<PlaygroundNodeEditorProps> = ({
               </span>
             </label>
             <div className="playground-row">
-              <label className="playground-inline">
+              <PlaygroundDimensionInput
+                value={selectedItem.flexBasis}
+                onChange={(flexBasis) => updateItem({ flexBasis })}
+                allowAuto
+                label="Flex basis"
+                name="item-flex-basis"
+              />
+            </div>
+          </div>
+        </>
+      ) : parentLayout.displayMode === "grid" ? (
+        <>
+          {areaNames.length > 0 && (
+            <div className="playground-field">
+              <label>
+                <span className="playground-tag playground-tag-grid">
+                  Grid Area
+                </span>
+              </label>
+              <select
+                className="playground-select small"
+                value={selectedItem.gridArea}
+                onChange={(event) =>
+                  updateItem({ gridArea: event.target.value })
+                }
+                name="item-grid-area"
+                aria-label="Grid area"
+                autoComplete="off"
+              >
+                <option value="">None</option>
+                {areaNames.map((areaName) => (
+                  <option key={areaName} value={areaName}>
+                    {areaName}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+          {GRID_AXES.map(({ axis, label, start, end, span }) => (
+            <div className="playground-field" key={axis}>
+              <label>
+                <span className="playground-tag playground-tag-grid">
+                  Grid {label}
+                </span>
+              </label>
+              <div className="playground-row">
                 <input
-                  type="checkbox"
-                  checked={selectedItem.flexBasisAuto}
+                  className="playground-input small"
+                  type="number"
+                  value={selectedItem[start]}
                   onChange={(event) =>
-                    updateItem({
-                      flexBasisAuto: event.target.checked,
-                    })
+                    updateItem({ [start]: Number(event.target.value) })
                   }
-                  name="item-flex-basis-auto"
-                  aria-label="Auto flex basis"
+                  disabled={selectedItem.gridArea !== ""}
+                  name={`item-${axis}-start`}
+                  aria-label={`Grid ${axis} start line`}
+                  title="Start line (0 = auto, negative counts from the end)"
                   autoComplete="off"
                 />
-                Auto
-              </label>
-              <input
-                className="playground-input small"
-                type="number"
-                min={0}
-                value={selectedItem.flexBasis}
-                onChange={(event) =>
-                  updateItem({
-                    flexBasis: Number(event.target.value),
-                  })
-                }
-                disabled={selectedItem.flexBasisAuto}
-                name="item-flex-basis"
-                aria-label="Flex basis"
-                autoComplete="off"
-              />
+                <input
+                  className="playground-input small"
+                  type="number"
+                  value={selectedItem[end]}
+                  onChange={(event) =>
+                    updateItem({ [end]: Number(event.target.value) })
+                  }
+                  disabled={selectedItem.gridArea !== ""}
+                  name={`item-${axis}-end`}
+                  aria-label={`Grid ${axis} end line`}
+                  title="End line (0 = span from the start)"
+                  autoComplete="off"
+                />
+                <input
+                  className="playground-input small"
+                  type="number"
+                  min={1}
+                  value={selectedItem[span]}
+                  onChange={(event) =>
+                    updateItem({ [span]: Number(event.target.value) })
+                  }
+                  disabled={
+                    selectedItem.gridArea !== "" ||
+                    (selectedItem[start] !== 0 && selectedItem[end] !== 0)
+                  }
+                  name={`item-${axis}-span`}
+                  aria-label={`Grid ${axis} span`}
+                  title="Span"
+                  autoComplete="off"
+                />
+              </div>
             </div>
-          </div>
+          ))}
         </>
-      ) : (
+      ) : null}
+
+      {parentLayout.displayMode !== "block" && (
+        <div className="playground-field">
+          <label>
+            <span className="playground-tag playground-tag-align">
+              Align Self
+            </span>
+          </label>
+          <select
+            className="playground-select small"
+            value={selectedItem.alignSelf}
+            onChange={(event) =>
+              updateItem({
+                alignSelf: event.target.value as AlignSelfKey,
+              })
+            }
+            name="item-align-self"
+            aria-label="Align self"
+            autoComplete="off"
+          >
+            {ALIGN_SELF_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {nestedLayout && (
         <>
           <div className="playground-field">
             <label>
-              <span className="playground-tag playground-tag-grid">
-                Grid Span (Column)
+              <span className="playground-tag playground-tag-layout">
+                Container
               </span>
             </label>
             <div className="playground-row">
-              <input
-                className="playground-input small"
-                type="number"
-                min={1}
-                value={selectedItem.columnSpan}
+              <select
+                className="playground-select small"
+                value={nestedLayout.displayMode}
                 onChange={(event) =>
                   updateItem({
-                    columnSpan: Number(event.target.value),
+                    layout: {
+                      ...nestedLayout,
+                      displayMode: event.target.value as DisplayMode,
+                    },
                   })
                 }
-                name="item-column-span"
-                aria-label="Grid column span"
+                name="item-display-mode"
+                aria-label="Container display mode"
                 autoComplete="off"
-              />
+              >
+                <option value="flex">Flex</option>
+                <option value="grid">Grid</option>
+                <option value="block">Block</option>
+              </select>
             </div>
+            {nestedLayout.displayMode !== "block" && (
+              <div className="playground-row">
+                <PlaygroundDimensionInput
+                  value={nestedLayout.container.gapX}
+                  onChange={(gapX) => updateNestedContainer({ gapX })}
+                  label="Container horizontal gap"
+                  name="item-container-gap-x"
+                />
+                <PlaygroundDimensionInput
+                  value={nestedLayout.container.gapY}
+                  onChange={(gapY) => updateNestedContainer({ gapY })}
+                  label="Container vertical gap"
+                  name="item-container-gap-y"
+                />
+              </div>
+            )}
           </div>
-          <div className="playground-field">
-            <label>
-              <span className="playground-tag playground-tag-grid">
-                Grid Span (Row)
-              </span>
-            </label>
-            <div className="playground-row">
-              <input
-                className="playground-input small"
-                type="number"
-                min={1}
-                value={selectedItem.rowSpan}
+
+          {nestedLayout.displayMode === "flex" ? (
+            <div className="playground-field">
+              <label>
+                <span className="playground-tag playground-tag-flex">
+                  Flex Container
+                </span>
+              </label>
+              <select
+                className="playground-select small"
+                value={nestedLayout.container.flex.direction}
+                onChange={(event) =>
+                  updateNestedContainer({
+                    flex: {
+                      ...nestedLayout.container.flex,
+                      direction: event.target.value as FlexDirectionKey,
+                    },
+                  })
+                }
+                name="item-flex-direction"
+                aria-label="Container flex direction"
+                autoComplete="off"
+              >
+                {FLEX_DIRECTION_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+              <select
+                className="playground-select small"
+                value={nestedLayout.container.flex.justifyContent}
+                onChange={(event) =>
+                  updateNestedContainer({
+                    flex: {
+                      ...nestedLayout.container.flex,
+                      justifyContent: event.target.value as JustifyContentKey,
+                    },
+                  })
+                }
+                name="item-justify-content"
+                aria-label="Container justify content"
+                autoComplete="off"
+              >
+                {JUSTIFY_CONTENT_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+              <select
+                className="playground-select small"
+                value={nestedLayout.container.flex.alignItems}
                 onChange={(event) =>
-                  updateItem({ rowSpan: Number(event.target.value) })
+                  updateNestedContainer({
+                    flex: {
+                      ...nestedLayout.container.flex,
+                      alignItems: event.target.value as AlignItemsKey,
+                    },
+                  })
+                }
+                name="item-align-items"
+                aria-label="Container align items"
+                autoComplete="off"
+              >
+                {ALIGN_ITEMS_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+              <select
+                className="playground-select small"
+                value={nestedLayout.container.flex.wrap}
+                onChange={(event) =>
+                  updateNestedContainer({
+                    flex: {
+                      ...nestedLayout.container.flex,
+                      wrap: event.target.value as FlexWrapKey,
+                    },
+                  })
                 }
-                name="item-row-span"
-                aria-label="Grid row span"
+                name="item-flex-wrap"
+                aria-label="Container flex wrap"
                 autoComplete="off"
+              >
+                {FLEX_WRAP_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          ) : nestedLayout.displayMode === "grid" ? (
+            <div className="playground-field">
+              <label>
+                <span className="playground-tag playground-tag-grid">
+                  Grid Container
+                </span>
+              </label>
+              {(["column", "row"] as const).map((axis) => {
+                const { grid } = nestedLayout.container;
+                const tracksKey = axis === "column" ? "columns" : "rows";
+                const autoKey = axis === "column" ? "autoColumns" : "autoRows";
+                return (
+                  <PlaygroundGridTracks
+                    key={axis}
+                    axis={axis}
+                    tracks={grid[tracksKey]}
+                    onTracksChange={(tracks) =>
+                      updateNestedContainer({
+                        grid: { ...grid, [tracksKey]: tracks },
+                      })
+                    }
+                    autoTracks={grid[autoKey]}
+                    onAutoTracksChange={(value) =>
+                      updateNestedContainer({
+                        grid: { ...grid, [autoKey]: value },
+                      })
+                    }
+                    name={`item-grid-${tracksKey}`}
+                  />
+                );
+              })}
+              <PlaygroundGridAreas
+                areas={nestedLayout.container.grid.areas}
+                onChange={(areas) =>
+                  updateNestedContainer({
+                    grid: { ...nestedLayout.container.grid, areas },
+                  })
+                }
+                name="item-grid-areas"
               />
             </div>
-          </div>
+          ) : null}
         </>
       )}
-
-      <div className="playground-field">
-        <label>
-          <span className="playground-tag playground-tag-align">
-            Align Self
-          </span>
-        </label>
-        <select
-          className="playground-select small"
-          value={selectedItem.alignSelf}
-          onChange={(event) =>
-            updateItem({
-              alignSelf: event.target.value as AlignSelfKey,
-            })
-          }
-          name="item-align-self"
-          aria-label="Align self"
-          autoComplete="off"
-        >
-          {ALIGN_SELF_OPTIONS.map((option) => (
-            <option key={option.value} value={option.value}>
-              {option.label}
-            </option>
-          ))}
-        </select>
-      </div>
     </div>
   );
 };
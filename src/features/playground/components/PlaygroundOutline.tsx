@@ -0,0 +1,181 @@
+/**
+ * @module features/playground/components/PlaygroundOutline
+ * @description Tree outline of the playground items with controls for adding,
+ * removing, reordering, and reparenting nodes.
+ */
+
+import {
+  ArrowDown,
+  ArrowUp,
+  IndentDecrease,
+  IndentIncrease,
+  Plus,
+  Trash2,
+} from "lucide-react";
+import { type DemoLayout, type ItemPath } from "./PlaygroundConfig";
+import {
+  formatPath,
+  isSamePath,
+  type MoveDirection,
+} from "@/features/playground/lib/tree";
+
+/**
+ * Props for the PlaygroundOutline component.
+ */
+interface PlaygroundOutlineProps {
+  /** Root layout of the playground configuration. */
+  config: DemoLayout;
+  /** Path of the currently selected item, or null if none. */
+  selectedPath: ItemPath | null;
+  /** Callback to change the selected item path. */
+  setSelectedPath: (path: ItemPath | null) => void;
+  /** Appends a child item to the container at the given path. */
+  addItem: (parentPath: ItemPath) => void;
+  /** Removes the item at the given path. */
+  removeItem: (path: ItemPath) => void;
+  /** Reorders or reparents the item at the given path. */
+  moveItem: (path: ItemPath, direction: MoveDirection) => void;
+}
+
+/**
+ * Action buttons shown for the selected outline row.
+ */
+const MOVE_ACTIONS: {
+  direction: MoveDirection;
+  label: string;
+  icon: typeof ArrowUp;
+}[] = [
+  { direction: "up", label: "Move up", icon: ArrowUp },
+  { direction: "down", label: "Move down", icon: ArrowDown },
+  {
+    direction: "indent",
+    label: "Move into previous item",
+    icon: IndentIncrease,
+  },
+  {
+    direction: "outdent",
+    label: "Move out of container",
+    icon: IndentDecrease,
+  },
+];
+
+/**
+ * Outline view of the nested item tree.
+ *
+ * Each row selects its item on click. The selected row exposes buttons to
+ * move the item among its siblings, indent it into the previous sibling,
+ * outdent it into the grandparent, add a child, or delete it.
+ *
+ * @example
+ * <PlaygroundOutline
+ *   config={config}
+ *   selectedPath={selectedPath}
+ *   setSelectedPath={setSelectedPath}
+ *   addItem={addItem}
+ *   removeItem={removeItem}
+ *   moveItem={moveItem}
+ * />
+ */
+export default function PlaygroundOutline({
+  config,
+  selectedPath,
+  setSelectedPath,
+  addItem,
+  removeItem,
+  moveItem,
+}: PlaygroundOutlineProps) {
+  const renderItems = (layout: DemoLayout, parentPath: ItemPath) => (
+    <ul className="playground-outline-list">
+      {layout.items.map((item, index) => {
+        const path = [...parentPath, index];
+        const isSelected = isSamePath(path, selectedPath);
+
+        return (
+          <li key={formatPath(path)}>
+            <div
+              className={`playground-outline-row ${isSelected ? "active" : ""}`}
+              style={{ paddingLeft: `${parentPath.length}rem` }}
+            >
+              <button
+                type="button"
+                className="playground-outline-label"
+                onClick={() => setSelectedPath(isSelected ? null : path)}
+                aria-pressed={isSelected}
+              >
+                Item {formatPath(path)}
+                {item.layout && (
+                  <span className="playground-outline-mode">
+                    {item.layout.displayMode}
+                  </span>
+                )}
+                {!item.layout && item.text && (
+                  <span className="playground-outline-mode">text</span>
+                )}
+                {item.hidden && (
+                  <span className="playground-outline-mode playground-outline-hidden">
+                    none
+                  </span>
+                )}
+              </button>
+              {isSelected && (
+                <div className="playground-outline-actions">
+                  {MOVE_ACTIONS.map(({ direction, label, icon: Icon }) => (
+                    <button
+                      key={direction}
+                      type="button"
+                      className="playground-icon-button"
+                      onClick={() => moveItem(path, direction)}
+                      aria-label={label}
+                      title={label}
+                    >
+                      <Icon className="h-3.5 w-3.5" />
+                    </button>
+                  ))}
+                  <button
+                    type="button"
+                    className="playground-icon-button"
+                    onClick={() => addItem(path)}
+                    aria-label="Add child item"
+                    title="Add child item"
+                  >
+                    <Plus className="h-3.5 w-3.5" />
+                  </button>
+                  <button
+                    type="button"
+                    className="playground-icon-button"
+                    onClick={() => removeItem(path)}
+                    aria-label="Remove item"
+                    title="Remove item"
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </button>
+                </div>
+              )}
+            </div>
+            {item.layout &&
+              item.layout.items.length > 0 &&
+              renderItems(item.layout, path)}
+          </li>
+        );
+      })}
+    </ul>
+  );
+
+  return (
+    <div className="playground-outline">
+      <div className="playground-outline-header">
+        <span className="toolbar-label">Tree:</span>
+        <button
+          type="button"
+          className="playground-icon-button"
+          onClick={() => addItem([])}
+          aria-label="Add item to root"
+          title="Add item to root"
+        >
+          <Plus className="h-3.5 w-3.5" />
+        </button>
+      </div>
+      {renderItems(config, [])}
+    </div>
+  );
+}
@@ -0,0 +1,216 @@
+/**
+ * @module features/playground/components/PlaygroundPresetsPanel
+ * @description Manages the user's own presets: saving the current layout,
+ * renaming, updating and deleting saved ones, and sharing the library as a
+ * JSON file.
+ */
+
+import { useRef, useState, type ChangeEvent } from "react";
+import { Download, Save, Trash2, Upload } from "lucide-react";
+import { type DemoConfig } from "./PlaygroundConfig";
+
+import { getCurrentLocale, getUi } from "@/lib/locales";
+import { reportError } from "@/features/code/lib/errors";
+import {
+  customPresetKey,
+  type CustomPreset,
+} from "@/features/playground/lib/customPresets";
+import { downloadTextFile } from "@/features/playground/lib/download";
+import { PresetImportError } from "@/features/playground/lib/errors";
+
+/**
+ * Props for the PlaygroundPresetsPanel component.
+ */
+interface PlaygroundPresetsPanelProps {
+  /** Current playground configuration. */
+  config: DemoConfig;
+  /** Key of the active built-in or custom preset. */
+  presetKey: string;
+  /** Saved custom presets. */
+  presets: CustomPreset[];
+  /** Saves a configuration as a new preset. */
+  savePreset: (name: string, config: DemoConfig) => CustomPreset;
+  /** Replaces the configuration of a preset. */
+  updatePreset: (id: string, config: DemoConfig) => void;
+  /** Renames a preset. */
+  renamePreset: (id: string, name: string) => void;
+  /** Removes a preset. */
+  deletePreset: (id: string) => void;
+  /** Appends the presets of a collection file and returns their count. */
+  importPresets: (json: string) => number;
+  /** Serializes the library as a collection file. */
+  exportPresets: () => string;
+  /** Called with a preset to load it into the playground. */
+  onLoad: (preset: CustomPreset) => void;
+}
+
+/**
+ * Panel listing the custom presets with controls to manage them.
+ *
+ * @param props - Component props.
+ * @returns The presets panel.
+ */
+export default function PlaygroundPresetsPanel({
+  config,
+  presetKey,
+  presets,
+  savePreset,
+  updatePreset,
+  renamePreset,
+  deletePreset,
+  importPresets,
+  exportPresets,
+  onLoad,
+}: PlaygroundPresetsPanelProps) {
+  const ui = getUi(getCurrentLocale());
+  const [name, setName] = useState("");
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleSave = () => {
+    const preset = savePreset(
+      name.trim() || `Preset ${presets.length + 1}`,
+      config,
+    );
+    setName("");
+    onLoad(preset);
+  };
+
+  const handleFileChange = (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    file
+      .text()
+      .then((json) => {
+        const count = importPresets(json);
+        setMessage(ui.presetsImported.replace("{{count}}", String(count)));
+        setError(null);
+      })
+      .catch((err) => {
+        if (!(err instanceof PresetImportError)) {
+          reportError(err, "PlaygroundPresetsPanel");
+        }
+        setMessage(null);
+        setError(
+          err instanceof PresetImportError
+            ? err.message
+            : "The presets could not be imported.",
+        );
+      });
+  };
+
+  const handleExport = () => {
+    downloadTextFile("taffy-presets.json", exportPresets(), "application/json");
+  };
+
+  return (
+    <div className="playground-presets">
+      <p className="playground-presets-intro">{ui.presetsIntro}</p>
+      <div className="playground-import-actions">
+        <input
+          className="playground-input playground-presets-name"
+          value={name}
+          onChange={(event) => setName(event.target.value)}
+          onKeyDown={(event) => {
+            if (event.key === "Enter") handleSave();
+          }}
+          placeholder={ui.presetsName}
+          aria-label={ui.presetsName}
+          name="playground-preset-name"
+          autoComplete="off"
+        />
+        <button
+          type="button"
+          className="playground-button playground-button-icon"
+          onClick={handleSave}
+        >
+          <Save className="h-4 w-4" />
+          {ui.presetsSave}
+        </button>
+      </div>
+
+      {presets.length === 0 ? (
+        <p className="playground-presets-empty">{ui.presetsEmpty}</p>
+      ) : (
+        <ul className="playground-presets-list">
+          {presets.map((preset) => (
+            <li
+              key={preset.id}
+              className={
+                customPresetKey(preset.id) === presetKey ? "active" : ""
+              }
+            >
+              <input
+                className="playground-input playground-presets-name"
+                value={preset.name}
+                onChange={(event) =>
+                  renamePreset(preset.id, event.target.value)
+                }
+                aria-label={ui.presetsName}
+                name={`playground-preset-${preset.id}`}
+                autoComplete="off"
+              />
+              <div className="playground-presets-actions">
+                <button
+                  type="button"
+                  className="playground-button playground-button-secondary"
+                  onClick={() => onLoad(preset)}
+                >
+                  {ui.presetsLoad}
+                </button>
+                <button
+                  type="button"
+                  className="playground-button playground-button-secondary"
+                  onClick={() => updatePreset(preset.id, config)}
+                >
+                  {ui.presetsUpdate}
+                </button>
+                <button
+                  type="button"
+                  className="playground-button playground-button-secondary playground-button-icon"
+                  onClick={() => deletePreset(preset.id)}
+                  aria-label={ui.presetsDelete}
+                  title={ui.presetsDelete}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="playground-import-actions">
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,application/json"
+          hidden
+          onChange={handleFileChange}
+        />
+        <button
+          type="button"
+          className="playground-button playground-button-secondary playground-button-icon"
+          onClick={() => fileInputRef.current?.click()}
+        >
+          <Upload className="h-4 w-4" />
+          {ui.presetsImport}
+        </button>
+        <button
+          type="button"
+          className="playground-button playground-button-secondary playground-button-icon"
+          onClick={handleExport}
+          disabled={presets.length === 0}
+        >
+          <Download className="h-4 w-4" />
+          {ui.presetsExport}
+        </button>
+      </div>
+
+      {message && <p className="playground-presets-empty">{message}</p>}
+      {error && <div className="playground-error">⚠️ {error}</div>}
+    </div>
+  );
+}
@@ -5,13 +5,46 @@
 
 import React, { useRef, useEffect, useCallback, useState } from "react";
 import { createPortal } from "react-dom";
+import type {
+  DetailedGridInfo,
+  DetailedGridTracksInfo,
+  GridTemplateArea,
+} from "taffy-layout";
 import {
+  DEFAULT_ROOT_SIZING,
   formatNumber,
   type DemoConfig,
   type DemoItem,
+  type DemoSides,
+  type DemoText,
+  type ItemPath,
   type LayoutNode,
+  type RootSizing,
 } from "./PlaygroundConfig";
 import { PlaygroundNodeEditor } from "./PlaygroundNodeEditor";
+import {
+  getItemAtPath,
+  getLayoutAtPath,
+  isSamePath,
+} from "@/features/playground/lib/tree";
+import {
+  TEXT_FONT_FAMILY,
+  TEXT_LINE_HEIGHT,
+  wrapText,
+} from "@/features/playground/lib/textMeasure";
+import type {
+  ReferenceLayout,
+  ReferenceNode,
+} from "@/features/playground/lib/referenceLayout";
+import {
+  usePreviewDrag,
+  type ResizeEdge,
+} from "@/features/playground/hooks/usePreviewDrag";
+
+/**
+ * Resize handles drawn on the selected item.
+ */
+const RESIZE_EDGES: ResizeEdge[] = ["right", "bottom", "corner"];
 
 /**
  * Props for the PlaygroundPreview component.
@@ -21,68 +54,420 @@ interface PlaygroundPreviewProps {
   layoutNodes: LayoutNode[];
   /** Current size of the preview container. */
   previewSize: { width: number; height: number };
+  /** Sizing mode of each root axis; intrinsic axes outline the canvas. */
+  rootSizing?: RootSizing;
   /** Callback to report the available size for layout computation. */
   setAvailableSize: (size: { width: number; height: number }) => void;
-  /** Index of the currently selected item, or null if none. */
-  selectedItemIndex: number | null;
-  /** Callback to change the selected item index. */
-  setSelectedItemIndex: (index: number | null) => void;
+  /** Path of the currently selected item, or null if none. */
+  selectedPath: ItemPath | null;
+  /** Callback to change the selected item path. */
+  setSelectedPath: (path: ItemPath | null) => void;
   /** Complete playground configuration object. */
   config: DemoConfig;
   /** Callback to update a specific item's properties. */
   updateItem: (patch: Partial<DemoItem>) => void;
+  /** Callback receiving the configuration of an in-progress drag. */
+  onDraftChange: (config: DemoConfig | null) => void;
+  /** Callback recording a finished drag as one history entry. */
+  commitEdit: (config: DemoConfig, label: string) => void;
+  /** Layouts of reference engines drawn over the nodes in compare mode. */
+  references?: ReferenceLayout[];
+  /** Whether grid containers show their tracks, gaps, and line numbers. */
+  showGridLines?: boolean;
+  /** Duration of the last layout in milliseconds, or null before the first. */
+  computeTime?: number | null;
 }
 
 /**
- * Recursively searches for a layout node by its index.
+ * Recursively searches for a layout node by its item path.
  *
  * @param nodes - Array of layout nodes to search through.
- * @param targetIndex - The item index to find.
+ * @param targetPath - The item path to find.
  * @returns The matching LayoutNode or null if not found.
  */
 const findNodeRecursive = (
   nodes: LayoutNode[],
-  targetIndex: number,
+  targetPath: ItemPath,
 ): LayoutNode | null => {
   for (const node of nodes) {
-    if (node.meta?.index === targetIndex) {
+    if (node.meta?.path && isSamePath(node.meta.path, targetPath)) {
       return node;
     }
     if (node.children) {
-      const found = findNodeRecursive(node.children, targetIndex);
+      const found = findNodeRecursive(node.children, targetPath);
+      if (found) return found;
+    }
+  }
+  return null;
+};
+
+/**
+ * Sums the offsets of a node's ancestors so nested nodes can be positioned
+ * relative to the preview root.
+ *
+ * @param nodes - Array of layout nodes to search through.
+ * @param target - The node whose absolute position is resolved.
+ * @param offsetX - Accumulated X offset of the current level.
+ * @param offsetY - Accumulated Y offset of the current level.
+ * @returns Position of the node relative to the preview root, or null.
+ */
+const findAbsolutePosition = (
+  nodes: LayoutNode[],
+  target: LayoutNode,
+  offsetX = 0,
+  offsetY = 0,
+): { x: number; y: number } | null => {
+  for (const node of nodes) {
+    if (node === target) {
+      return { x: offsetX + node.x, y: offsetY + node.y };
+    }
+    if (node.children) {
+      const found = findAbsolutePosition(
+        node.children,
+        target,
+        offsetX + node.x,
+        offsetY + node.y,
+      );
       if (found) return found;
     }
   }
   return null;
 };
 
+/**
+ * Formats box sides as a CSS `border-width` value. Negative margins have no
+ * band to draw and are clamped to zero.
+ *
+ * @param sides - Resolved sides in pixels.
+ * @returns CSS value in top, right, bottom, left order.
+ */
+const bandWidths = (sides: DemoSides) =>
+  [sides.top, sides.right, sides.bottom, sides.left]
+    .map((side) => `${Math.max(0, side)}px`)
+    .join(" ");
+
+/**
+ * Places a box on a node's margin edge, in the parent's coordinate space,
+ * with the margin as its border width.
+ *
+ * @param node - Layout node.
+ * @returns Position, size, and border widths of the margin box.
+ */
+const marginBoxStyle = (node: LayoutNode): React.CSSProperties => {
+  const left = Math.max(0, node.margin.left);
+  const top = Math.max(0, node.margin.top);
+  return {
+    left: node.x - left,
+    top: node.y - top,
+    width: node.width + left + Math.max(0, node.margin.right),
+    height: node.height + top + Math.max(0, node.margin.bottom),
+    borderWidth: bandWidths(node.margin),
+  };
+};
+
+/**
+ * Draws the margin of a block container's child. Adjoining vertical margins
+ * collapse in block layout, so the bands of neighbouring children overlap
+ * where their margins were combined.
+ *
+ * @param node - Child of a block container.
+ * @returns Margin band, or null for hidden nodes.
+ */
+const renderMarginBand = (node: LayoutNode) =>
+  node.meta?.isHidden ? null : (
+    <div
+      key={`margin-${node.id.toString()}`}
+      className="playground-margin-band"
+      style={marginBoxStyle(node)}
+      aria-hidden="true"
+    />
+  );
+
+/**
+ * Draws the text of a text leaf in its content box, broken into the same
+ * lines the measure function sized the node for.
+ *
+ * @param node - Layout node of a text leaf.
+ * @param text - Text content of the node.
+ * @returns Text overlay.
+ */
+const renderText = (node: LayoutNode, text: DemoText) => {
+  const left = node.border.left + node.padding.left;
+  const top = node.border.top + node.padding.top;
+  // Taffy rounds sizes to whole pixels, which may cut the measured width
+  const width =
+    node.width - left - node.border.right - node.padding.right + 0.5;
+  return (
+    <div
+      className="playground-node-text"
+      style={{
+        left,
+        top,
+        fontFamily: TEXT_FONT_FAMILY,
+        fontSize: text.fontSize,
+        lineHeight: TEXT_LINE_HEIGHT,
+      }}
+    >
+      {wrapText(text, width).map((line, index) => (
+        <div key={index}>{line}</div>
+      ))}
+    </div>
+  );
+};
+
+/**
+ * Draws a node's resolved margin, border, and padding as nested bands, like
+ * the box model overlay of browser devtools. The bands are placed in the
+ * parent's coordinate space, next to the node, so the margin is not clipped
+ * by the node itself.
+ *
+ * @param node - Layout node to outline.
+ * @returns Band overlay.
+ */
+const renderBoxBands = (node: LayoutNode) => (
+  <div
+    className="playground-box-bands"
+    style={marginBoxStyle(node)}
+    aria-hidden="true"
+  >
+    <div
+      className="playground-box-band border"
+      style={{ borderWidth: bandWidths(node.border) }}
+    >
+      <div
+        className="playground-box-band padding"
+        style={{ borderWidth: bandWidths(node.padding) }}
+      />
+    </div>
+  </div>
+);
+
+/**
+ * Resolves where the grid lines of one axis are drawn: at the outer edges
+ * of the first and last track, and in the middle of each gap between.
+ *
+ * @param tracks - Resolved tracks of the axis.
+ * @returns Line positions, one more than there are tracks.
+ */
+const gridLinePositions = ({ positions }: DetailedGridTracksInfo) =>
+  positions.length === 0
+    ? []
+    : [
+        positions[0].start,
+        ...positions
+          .slice(1)
+          .map((track, index) => (positions[index].end + track.start) / 2),
+        positions[positions.length - 1].end,
+      ];
+
+/**
+ * Resolves the extent of a grid area along one axis.
+ *
+ * @param tracks - Resolved tracks of the axis.
+ * @param start - Explicit start line of the area.
+ * @param end - Explicit end line of the area.
+ * @returns Start and size in pixels, or null when the lines have no tracks.
+ */
+const areaExtent = (
+  tracks: DetailedGridTracksInfo,
+  start: number,
+  end: number,
+) => {
+  // Explicit line 1 follows the implicit tracks created before the grid
+  const first = tracks.positions[start - 1 + tracks.negativeImplicitTracks];
+  const last = tracks.positions[end - 2 + tracks.negativeImplicitTracks];
+  if (!first || !last) return null;
+  return { start: first.start, size: last.end - first.start };
+};
+
+/**
+ * Draws the resolved tracks of a grid container, like the grid inspector
+ * of browser devtools: track outlines, hatched gaps, named areas, and the
+ * numbers of explicit grid lines. Implicit lines before the explicit grid
+ * have no positive number and are left unlabelled.
+ *
+ * @param grid - Resolved tracks of the container.
+ * @param areas - Named areas of the container.
+ * @returns Grid overlay, or null for grids without tracks.
+ */
+const renderGridOverlay = (
+  grid: DetailedGridInfo,
+  areas: GridTemplateArea[] = [],
+) => {
+  const { rows, columns } = grid;
+  const columnLines = gridLinePositions(columns);
+  const rowLines = gridLinePositions(rows);
+  if (columnLines.length === 0 || rowLines.length === 0) return null;
+  const left = columnLines[0];
+  const top = rowLines[0];
+  const width = columnLines[columnLines.length - 1] - left;
+  const height = rowLines[rowLines.length - 1] - top;
+
+  return (
+    <div className="playground-grid-overlay" aria-hidden="true">
+      {columns.positions.map((track, index) => (
+        <div
+          key={`column-${index}`}
+          className="playground-grid-track"
+          style={{
+            left: track.start,
+            top,
+            width: track.end - track.start,
+            height,
+          }}
+        />
+      ))}
+      {rows.positions.map((track, index) => (
+        <div
+          key={`row-${index}`}
+          className="playground-grid-track"
+          style={{
+            left,
+            top: track.start,
+            width,
+            height: track.end - track.start,
+          }}
+        />
+      ))}
+      {columns.positions.slice(1).map((track, index) => (
+        <div
+          key={`column-gap-${index}`}
+          className="playground-grid-gap"
+          style={{
+            left: columns.positions[index].end,
+            top,
+            width: track.start - columns.positions[index].end,
+            height,
+          }}
+        />
+      ))}
+      {rows.positions.slice(1).map((track, index) => (
+        <div
+          key={`row-gap-${index}`}
+          className="playground-grid-gap"
+          style={{
+            left,
+            top: rows.positions[index].end,
+            width,
+            height: track.start - rows.positions[index].end,
+          }}
+        />
+      ))}
+      {areas.map((area) => {
+        const x = areaExtent(columns, area.columnStart, area.columnEnd);
+        const y = areaExtent(rows, area.rowStart, area.rowEnd);
+        if (!x || !y) return null;
+        return (
+          <div
+            key={`area-${area.name}`}
+            className="playground-grid-area"
+            style={{
+              left: x.start,
+              top: y.start,
+              width: x.size,
+              height: y.size,
+            }}
+          >
+            {area.name}
+          </div>
+        );
+      })}
+      {columnLines.map((position, index) => {
+        const line = index - columns.negativeImplicitTracks + 1;
+        return line > 0 ? (
+          <span
+            key={`column-line-${index}`}
+            className="playground-grid-line-number column"
+            style={{ left: position, top }}
+          >
+            {line}
+          </span>
+        ) : null;
+      })}
+      {rowLines.map((position, index) => {
+        const line = index - rows.negativeImplicitTracks + 1;
+        return line > 0 ? (
+          <span
+            key={`row-line-${index}`}
+            className="playground-grid-line-number row"
+            style={{ left, top: position }}
+          >
+            {line}
+          </span>
+        ) : null;
+      })}
+    </div>
+  );
+};
+
+/**
+ * Draws the boxes of a reference engine as dashed outlines. They are nested
+ * like the nodes, with the same border width, so each outline lines up
+ * with Taffy's box wherever the engines agree.
+ *
+ * @param node - Reference box.
+ * @returns Outline of the box and its children.
+ */
+const renderReferenceBox = (node: ReferenceNode) => (
+  <div
+    key={node.path.join(".")}
+    className="playground-reference-box"
+    style={{
+      left: node.x,
+      top: node.y,
+      width: node.width,
+      height: node.height,
+    }}
+  >
+    {node.children?.map(renderReferenceBox)}
+  </div>
+);
+
 /**
  * Visual preview canvas for the playground.
  *
  * Renders the computed layout as interactive visual nodes that users can
- * click to select and edit. Displays a tooltip editor when a node is selected.
+ * click to select and edit, at any nesting depth. Items can be dragged to
+ * reorder them within their container, and the selected item shows handles
+ * for resizing it along with its margin, border, and padding bands. Grid
+ * containers can show their resolved tracks, and in compare mode the boxes
+ * of reference engines are outlined on top. When the root is not sized to
+ * the canvas on both axes, the canvas is drawn as a dashed outline and the
+ * root box is labeled with its size, so intrinsic sizing can be compared
+ * against the available space. Displays a tooltip editor when a node is selected.
  * Handles resize observation and tooltip positioning.
  *
  * @example
  * <PlaygroundPreview
  *   layoutNodes={layoutNodes}
  *   previewSize={previewSize}
+ *   rootSizing={rootSizing}
  *   setAvailableSize={setAvailableSize}
- *   selectedItemIndex={selectedItemIndex}
- *   setSelectedItemIndex={setSelectedItemIndex}
+ *   selectedPath={selectedPath}
+ *   setSelectedPath={setSelectedPath}
  *   config={config}
  *   updateItem={updateItem}
+ *   onDraftChange={setDraftConfig}
+ *   commitEdit={commitEdit}
  * />
  */
 export default function PlaygroundPreview({
   layoutNodes,
   previewSize,
+  rootSizing = DEFAULT_ROOT_SIZING,
   setAvailableSize,
-  selectedItemIndex,
-  setSelectedItemIndex,
+  selectedPath,
+  setSelectedPath,
   config,
   updateItem,
+  onDraftChange,
+  commitEdit,
+  references = [],
+  showGridLines = false,
+  computeTime = null,
 }: PlaygroundPreviewProps) {
+  const isIntrinsic =
+    rootSizing.width !== "definite" || rootSizing.height !== "definite";
   const previewSurfaceRef = useRef<HTMLDivElement | null>(null);
   const previewRootRef = useRef<HTMLDivElement | null>(null);
   const tooltipRef = useRef<HTMLDivElement | null>(null);
@@ -90,6 +475,9 @@ export default function PlaygroundPreview({
     x: number;
     y: number;
   } | null>(null);
+  const { dragging, startMove, startResize, consumeDragClick } = usePreviewDrag(
+    { config, onDraftChange, commitEdit, setSelectedPath },
+  );
 
   useEffect(() => {
     const element = previewSurfaceRef.current;
@@ -111,7 +499,7 @@ export default function PlaygroundPreview({
   }, [setAvailableSize]);
 
   useEffect(() => {
-    if (selectedItemIndex === null) return;
+    if (selectedPath === null) return;
 
     const handlePointerDown = (event: PointerEvent) => {
       const target = event.target as Node;
@@ -124,21 +512,23 @@ export default function PlaygroundPreview({
         return;
       }
 
-      setSelectedItemIndex(null);
+      setSelectedPath(null);
     };
 
     document.addEventListener("pointerdown", handlePointerDown);
     return () => {
       document.removeEventListener("pointerdown", handlePointerDown);
     };
-  }, [selectedItemIndex, setSelectedItemIndex]);
+  }, [selectedPath, setSelectedPath]);
 
   const selectedItem =
-    selectedItemIndex !== null ? config.items[selectedItemIndex] : null;
-  const selectedNode =
-    selectedItemIndex !== null
-      ? findNodeRecursive(layoutNodes, selectedItemIndex)
+    selectedPath !== null ? getItemAtPath(config, selectedPath) : null;
+  const parentLayout =
+    selectedPath !== null
+      ? getLayoutAtPath(config, selectedPath.slice(0, -1))
       : null;
+  const selectedNode =
+    selectedPath !== null ? findNodeRecursive(layoutNodes, selectedPath) : null;
 
   const updateTooltipPosition = useCallback(() => {
     if (!selectedNode || !previewRootRef.current) {
@@ -147,11 +537,15 @@ export default function PlaygroundPreview({
     }
 
     const rootRect = previewRootRef.current.getBoundingClientRect();
+    const position = findAbsolutePosition(layoutNodes, selectedNode) ?? {
+      x: selectedNode.x,
+      y: selectedNode.y,
+    };
     setTooltipPosition({
-      x: rootRect.left + selectedNode.x + selectedNode.width / 2,
-      y: rootRect.top + selectedNode.y,
+      x: rootRect.left + position.x + selectedNode.width / 2,
+      y: rootRect.top + position.y,
     });
-  }, [selectedNode]);
+  }, [layoutNodes, selectedNode]);
 
   useEffect(() => {
     const frame = window.requestAnimationFrame(() => {
@@ -175,17 +569,28 @@ export default function PlaygroundPreview({
   }, [selectedNode, updateTooltipPosition]);
 
   const renderNode = (node: LayoutNode) => {
-    const itemIndex = node.meta?.index;
-    const isSelected = itemIndex === selectedItemIndex;
+    // Hidden items take no space; they stay selectable from the outline
+    if (node.meta?.isHidden) return null;
+    const itemPath = node.meta?.path;
+    const isSelected =
+      itemPath !== undefined && isSamePath(itemPath, selectedPath);
+    const isContainer = node.meta?.isContainer ?? false;
+    const text = node.meta?.text;
+    const isAbsolute = node.meta?.isAbsolute ?? false;
+    const isRoot = itemPath === undefined;
+    // Overlays often hang over the edge of their container, e.g. badges
+    const hasOverlays =
+      node.children?.some((child) => child.meta?.isAbsolute) ?? false;
 
     const handleClick = (e: React.MouseEvent) => {
       e.stopPropagation();
+      if (consumeDragClick()) return;
 
-      if (itemIndex === undefined) {
-        setSelectedItemIndex(null);
+      if (itemPath === undefined) {
+        setSelectedPath(null);
         return;
       }
-      setSelectedItemIndex(itemIndex);
+      setSelectedPath(itemPath);
     };
 
     const sizeLabel = `${formatNumber(node.width)} × ${formatNumber(node.height)}`;
@@ -193,16 +598,24 @@ export default function PlaygroundPreview({
     const content = (
       <div
         key={node.id.toString()}
-        className={`playground-node ${isSelected ? "playground-node-selected" : ""}`}
+        className={`playground-node ${isRoot ? "playground-node-root" : ""} ${isContainer ? "playground-node-container" : ""} ${isAbsolute ? "playground-node-absolute" : ""} ${hasOverlays ? "playground-node-overlays" : ""} ${isSelected ? "playground-node-selected" : ""} ${dragging && isSelected ? "playground-node-dragging" : ""}`}
+        data-item-index={itemPath?.[itemPath.length - 1]}
         style={{
           left: node.x,
           top: node.y,
           width: node.width,
           height: node.height,
-          backgroundColor: node.meta?.color,
+          // Containers and text get a translucent fill to stay readable
+          backgroundColor:
+            (isContainer || text) && node.meta
+              ? `${node.meta.color}1f`
+              : node.meta?.color,
           borderColor: node.meta?.color,
         }}
         onClick={handleClick}
+        onPointerDown={(event) => {
+          if (itemPath !== undefined) startMove(event, itemPath);
+        }}
         onMouseDownCapture={(event) => {
           event.preventDefault();
         }}
@@ -224,16 +637,52 @@ export default function PlaygroundPreview({
           }
         }}
       >
-        {itemIndex !== undefined && (
-          <div className="playground-node-content">
-            <span className="playground-node-size">{sizeLabel}</span>
-          </div>
+        {text && renderText(node, text)}
+        {isRoot && isIntrinsic && (
+          <span className="playground-node-badge playground-root-badge">
+            Root {sizeLabel}
+          </span>
         )}
+        {itemPath !== undefined &&
+          (isContainer || text ? (
+            <span
+              className="playground-node-badge"
+              style={{ backgroundColor: node.meta?.color }}
+            >
+              {sizeLabel}
+            </span>
+          ) : (
+            <div className="playground-node-content">
+              <span className="playground-node-size">{sizeLabel}</span>
+            </div>
+          ))}
+        {node.meta?.isBlock && node.children?.map(renderMarginBand)}
         {node.children?.map((child) => renderNode(child))}
+        {showGridLines &&
+          node.grid &&
+          renderGridOverlay(node.grid, node.meta?.gridAreas)}
+        {isSelected &&
+          itemPath !== undefined &&
+          RESIZE_EDGES.map((edge) => (
+            <span
+              key={edge}
+              className={`playground-resize-handle ${edge}`}
+              onPointerDown={(event) =>
+                startResize(event, itemPath, node, edge)
+              }
+              aria-hidden="true"
+            />
+          ))}
       </div>
     );
 
-    return content;
+    if (!isSelected) return content;
+    return (
+      <React.Fragment key={node.id.toString()}>
+        {content}
+        {renderBoxBands(node)}
+      </React.Fragment>
+    );
   };
 
   return (
@@ -244,7 +693,7 @@ export default function PlaygroundPreview({
         style={{}}
         onClick={(e) => {
           if (e.target === e.currentTarget) {
-            setSelectedItemIndex(null);
+            setSelectedPath(null);
           }
         }}
         role="button"
@@ -253,20 +702,20 @@ export default function PlaygroundPreview({
         onKeyDown={(event) => {
           if (event.key === "Enter" || event.key === " ") {
             event.preventDefault();
-            setSelectedItemIndex(null);
+            setSelectedPath(null);
           }
         }}
       >
         <div
           ref={previewRootRef}
-          className="playground-preview-root"
+          className={`playground-preview-root ${isIntrinsic ? "playground-preview-intrinsic" : ""}`}
           style={{
             width: previewSize.width,
             height: previewSize.height,
           }}
           onClick={(e) => {
-            if (e.target === e.currentTarget) {
-              setSelectedItemIndex(null);
+            if (e.target === e.currentTarget && !consumeDragClick()) {
+              setSelectedPath(null);
             }
           }}
           role="button"
@@ -275,13 +724,27 @@ export default function PlaygroundPreview({
           onKeyDown={(event) => {
             if (event.key === "Enter" || event.key === " ") {
               event.preventDefault();
-              setSelectedItemIndex(null);
+              setSelectedPath(null);
             }
           }}
         >
           {layoutNodes.map(renderNode)}
+          {references.map(
+            (reference) =>
+              reference.root && (
+                <div
+                  key={reference.engine}
+                  className={`playground-reference playground-reference-${reference.engine}`}
+                  aria-hidden="true"
+                >
+                  {renderReferenceBox(reference.root)}
+                </div>
+              ),
+          )}
 
-          {selectedItem &&
+          {!dragging &&
+          selectedItem &&
+          parentLayout &&
           selectedNode &&
           tooltipPosition &&
           typeof document !== "undefined"
@@ -296,16 +759,16 @@ export default function PlaygroundPreview({
                   <div className="playground-tooltip" ref={tooltipRef}>
                     <button
                       className="playground-tooltip-close absolute top-3 right-3 z-10"
-                      onClick={() => setSelectedItemIndex(null)}
+                      onClick={() => setSelectedPath(null)}
                       aria-label="Close editor"
                     >
                       ×
                     </button>
                     <PlaygroundNodeEditor
                       selectedItem={selectedItem}
-                      config={config}
+                      parentLayout={parentLayout}
                       updateItem={updateItem}
-                      onClose={() => setSelectedItemIndex(null)}
+                      onClose={() => setSelectedPath(null)}
                     />
                   </div>
                 </div>,
@@ -314,6 +777,14 @@ export default function PlaygroundPreview({
             : null}
         </div>
       </div>
+      {computeTime !== null && (
+        <span
+          className="playground-preview-timing"
+          title="Time the last layout took in the layout worker"
+        >
+          Layout {computeTime.toFixed(1)} ms
+        </span>
+      )}
     </div>
   );
 }
@@ -0,0 +1,205 @@
+/**
+ * @module features/playground/components/PlaygroundSweepChart
+ * @description Line chart of one computed value of every item across the
+ * frames of a sweep.
+ */
+
+import { type PointerEvent } from "react";
+import { type SweepBreakpointKind } from "@/features/playground/lib/sweep";
+
+/**
+ * Width of the chart's coordinate system.
+ */
+const CHART_WIDTH = 320;
+
+/**
+ * Height of the chart's coordinate system.
+ */
+const CHART_HEIGHT = 120;
+
+/**
+ * Space around the plot for the axis labels.
+ */
+const CHART_PADDING = { top: 8, right: 8, bottom: 16, left: 36 };
+
+/**
+ * One line of the chart.
+ */
+export interface SweepChartLine {
+  /** Stable key of the line. */
+  key: string;
+  /** Label shown on hover. */
+  label: string;
+  /** Stroke color. */
+  color: string;
+  /** Value per frame; null leaves a gap. */
+  points: (number | null)[];
+}
+
+/**
+ * Props for the PlaygroundSweepChart component.
+ */
+interface PlaygroundSweepChartProps {
+  /** Name of the charted value. */
+  title: string;
+  /** Formatted swept value of the first and last frame. */
+  range: [string, string];
+  /** Lines to draw. */
+  lines: SweepChartLine[];
+  /** Frames at which the layout changes shape. */
+  breakpoints: { index: number; kind: SweepBreakpointKind }[];
+  /** Number of frames. */
+  frameCount: number;
+  /** Frame shown in the preview. */
+  frameIndex: number;
+  /** Called with the frame under the pointer when the chart is clicked. */
+  onSelectFrame: (index: number) => void;
+}
+
+/**
+ * Formats an axis label.
+ *
+ * @param value - Value in pixels.
+ * @returns Label text.
+ */
+const formatTick = (value: number) => String(Math.round(value));
+
+/**
+ * Splits a line into runs of consecutive values, so hidden frames leave
+ * gaps.
+ *
+ * @param points - Value per frame.
+ * @returns Runs of frame index and value pairs.
+ */
+const toSegments = (points: (number | null)[]) => {
+  const segments: [number, number][][] = [];
+  let current: [number, number][] = [];
+  points.forEach((value, index) => {
+    if (value === null) {
+      if (current.length > 0) segments.push(current);
+      current = [];
+      return;
+    }
+    current.push([index, value]);
+  });
+  if (current.length > 0) segments.push(current);
+  return segments;
+};
+
+/**
+ * Chart of one value across a sweep, with the breakpoints as dashed lines
+ * and the shown frame as a solid marker. Clicking or dragging over the
+ * chart scrubs to the frame under the pointer.
+ *
+ * @param props - Component props.
+ * @returns The chart.
+ */
+export default function PlaygroundSweepChart({
+  title,
+  range,
+  lines,
+  breakpoints,
+  frameCount,
+  frameIndex,
+  onSelectFrame,
+}: PlaygroundSweepChartProps) {
+  const values = lines.flatMap((line) =>
+    line.points.filter((value): value is number => value !== null),
+  );
+  const min = values.length > 0 ? Math.min(...values) : 0;
+  const max = values.length > 0 ? Math.max(...values) : 1;
+  // A flat chart still needs a range to place its line in the middle
+  const low = min === max ? min - 1 : min;
+  const high = min === max ? max + 1 : max;
+  const plotWidth = CHART_WIDTH - CHART_PADDING.left - CHART_PADDING.right;
+  const plotHeight = CHART_HEIGHT - CHART_PADDING.top - CHART_PADDING.bottom;
+
+  const toX = (index: number) =>
+    CHART_PADDING.left +
+    (frameCount > 1 ? (index / (frameCount - 1)) * plotWidth : 0);
+  const toY = (value: number) =>
+    CHART_PADDING.top + (1 - (value - low) / (high - low)) * plotHeight;
+
+  const selectAt = (event: PointerEvent<SVGSVGElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const x = ((event.clientX - rect.left) / rect.width) * CHART_WIDTH;
+    const ratio = (x - CHART_PADDING.left) / plotWidth;
+    const index = Math.round(ratio * (frameCount - 1));
+    onSelectFrame(Math.min(frameCount - 1, Math.max(0, index)));
+  };
+
+  return (
+    <figure className="playground-sweep-chart">
+      <figcaption>{title}</figcaption>
+      <svg
+        viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+        role="img"
+        aria-label={title}
+        onPointerDown={(event) => {
+          event.currentTarget.setPointerCapture(event.pointerId);
+          selectAt(event);
+        }}
+        onPointerMove={(event) => {
+          if (event.buttons === 1) selectAt(event);
+        }}
+      >
+        <rect
+          className="playground-sweep-chart-plot"
+          x={CHART_PADDING.left}
+          y={CHART_PADDING.top}
+          width={plotWidth}
+          height={plotHeight}
+        />
+        <text x={CHART_PADDING.left - 4} y={CHART_PADDING.top + 4}>
+          {formatTick(high)}
+        </text>
+        <text x={CHART_PADDING.left - 4} y={CHART_PADDING.top + plotHeight}>
+          {formatTick(low)}
+        </text>
+        <text className="start" x={CHART_PADDING.left} y={CHART_HEIGHT - 2}>
+          {range[0]}
+        </text>
+        <text
+          className="end"
+          x={CHART_WIDTH - CHART_PADDING.right}
+          y={CHART_HEIGHT - 2}
+        >
+          {range[1]}
+        </text>
+
+        {breakpoints.map((breakpoint, index) => (
+          <line
+            key={index}
+            className={`playground-sweep-breakpoint ${breakpoint.kind}`}
+            x1={toX(breakpoint.index - 0.5)}
+            x2={toX(breakpoint.index - 0.5)}
+            y1={CHART_PADDING.top}
+            y2={CHART_PADDING.top + plotHeight}
+          />
+        ))}
+
+        {lines.map((line) =>
+          toSegments(line.points).map((segment, index) => (
+            <polyline
+              key={`${line.key}-${index}`}
+              points={segment
+                .map(([frame, value]) => `${toX(frame)},${toY(value)}`)
+                .join(" ")}
+              stroke={line.color}
+            >
+              <title>{line.label}</title>
+            </polyline>
+          )),
+        )}
+
+        <line
+          className="playground-sweep-cursor"
+          x1={toX(frameIndex)}
+          x2={toX(frameIndex)}
+          y1={CHART_PADDING.top}
+          y2={CHART_PADDING.top + plotHeight}
+        />
+      </svg>
+    </figure>
+  );
+}
@@ -0,0 +1,240 @@
+/**
+ * @module features/playground/components/PlaygroundSweepPanel
+ * @description Configures a sweep of one setting, scrubs and plays back its
+ * frames in the preview, and charts how every item responds.
+ */
+
+import { type Dispatch, type SetStateAction } from "react";
+import { Pause, Play } from "lucide-react";
+import PlaygroundSweepChart from "./PlaygroundSweepChart";
+
+import { getCurrentLocale, getUi } from "@/lib/locales";
+import { type SweepResult } from "@/features/playground/hooks/useLayoutSweep";
+import {
+  MAX_SWEEP_STEPS,
+  SWEEP_TARGETS,
+  type SweepBox,
+  type SweepSettings,
+  type SweepTargetKey,
+} from "@/features/playground/lib/sweep";
+import { formatPath } from "@/features/playground/lib/tree";
+
+/**
+ * Item values charted by the panel, one chart each.
+ */
+const SWEEP_METRICS: (keyof SweepBox)[] = ["width", "height", "x", "y"];
+
+/**
+ * Props for the PlaygroundSweepPanel component.
+ */
+interface PlaygroundSweepPanelProps {
+  /** Range of the sweep. */
+  settings: SweepSettings;
+  /** Callback to change the range. */
+  setSettings: Dispatch<SetStateAction<SweepSettings>>;
+  /** Laid out sweep, or null before the first one. */
+  result: SweepResult | null;
+  /** Why the sweep could not be laid out, or null. */
+  error: string | null;
+  /** Whether a sweep is being laid out. */
+  computing: boolean;
+  /** Frame shown in the preview. */
+  frameIndex: number;
+  /** Callback to show another frame. */
+  setFrameIndex: (index: number) => void;
+  /** Whether the frames are being played back. */
+  playing: boolean;
+  /** Starts or pauses playback. */
+  togglePlay: () => void;
+}
+
+/**
+ * Formats a swept value, keeping the fractions of small ranges.
+ *
+ * @param value - Swept value.
+ * @param unit - Unit of the value.
+ * @returns Display text.
+ */
+const formatSweepValue = (value: number, unit: string) =>
+  `${Number.isInteger(value) ? value : value.toFixed(2)}${unit}`;
+
+/**
+ * Panel with the sweep range, the playback controls, a chart per item
+ * value, and the list of breakpoints.
+ *
+ * @param props - Component props.
+ * @returns The sweep panel.
+ */
+export default function PlaygroundSweepPanel({
+  settings,
+  setSettings,
+  result,
+  error,
+  computing,
+  frameIndex,
+  setFrameIndex,
+  playing,
+  togglePlay,
+}: PlaygroundSweepPanelProps) {
+  const ui = getUi(getCurrentLocale());
+  const target = SWEEP_TARGETS[settings.target];
+  const frameCount = result?.frames.length ?? 0;
+  const values = result?.values ?? [];
+  const format = (value: number) => formatSweepValue(value, target.unit);
+
+  /**
+   * Renders a labelled number input for the sweep range.
+   *
+   * @param label - Field label.
+   * @param value - Current value.
+   * @param onChange - Receives the entered value.
+   * @returns Field element.
+   */
+  const renderNumber = (
+    label: string,
+    value: number,
+    onChange: (value: number) => void,
+  ) => (
+    <label className="playground-inline">
+      {label}
+      <input
+        className="playground-input small"
+        type="number"
+        step="any"
+        value={value}
+        onChange={(event) => onChange(Number(event.target.value) || 0)}
+        autoComplete="off"
+      />
+    </label>
+  );
+
+  return (
+    <div className="playground-sweep">
+      <p className="playground-sweep-intro">{ui.sweepIntro}</p>
+      <div className="playground-fuzz-settings">
+        <label className="playground-inline">
+          {ui.sweepProperty}
+          <select
+            className="playground-select small"
+            value={settings.target}
+            onChange={(event) => {
+              const key = event.target.value as SweepTargetKey;
+              setSettings((current) => ({
+                ...current,
+                target: key,
+                from: SWEEP_TARGETS[key].from,
+                to: SWEEP_TARGETS[key].to,
+              }));
+            }}
+            name="sweep-target"
+            autoComplete="off"
+          >
+            {(Object.keys(SWEEP_TARGETS) as SweepTargetKey[]).map((key) => (
+              <option key={key} value={key}>
+                {SWEEP_TARGETS[key].label}
+              </option>
+            ))}
+          </select>
+        </label>
+        {renderNumber(ui.sweepFrom, settings.from, (from) =>
+          setSettings((current) => ({ ...current, from })),
+        )}
+        {renderNumber(ui.sweepTo, settings.to, (to) =>
+          setSettings((current) => ({ ...current, to })),
+        )}
+        {renderNumber(ui.sweepSteps, settings.steps, (steps) =>
+          setSettings((current) => ({
+            ...current,
+            steps: Math.min(MAX_SWEEP_STEPS, Math.max(2, Math.floor(steps))),
+          })),
+        )}
+      </div>
+
+      {error && <div className="playground-error">⚠️ {error}</div>}
+
+      {result && frameCount > 0 && (
+        <>
+          <div className="playground-sweep-playback">
+            <button
+              type="button"
+              className="playground-button playground-button-icon"
+              onClick={togglePlay}
+              aria-pressed={playing}
+            >
+              {playing ? (
+                <Pause className="h-4 w-4" />
+              ) : (
+                <Play className="h-4 w-4" />
+              )}
+              {playing ? ui.sweepPause : ui.sweepPlay}
+            </button>
+            <input
+              type="range"
+              min={0}
+              max={frameCount - 1}
+              value={frameIndex}
+              onChange={(event) => setFrameIndex(Number(event.target.value))}
+              aria-label={ui.sweepFrame}
+              name="sweep-frame"
+              autoComplete="off"
+            />
+            <span className="playground-sweep-value">
+              {target.label} = {format(values[frameIndex])}
+            </span>
+            <span className="playground-sweep-status">
+              {computing
+                ? ui.sweepComputing
+                : ui.sweepTime
+                    .replace("{{count}}", String(frameCount))
+                    .replace("{{time}}", result.time.toFixed(1))}
+            </span>
+          </div>
+
+          <div className="playground-sweep-charts">
+            {SWEEP_METRICS.map((metric) => (
+              <PlaygroundSweepChart
+                key={metric}
+                title={metric}
+                range={[format(values[0]), format(values[frameCount - 1])]}
+                lines={result.series.map((series) => ({
+                  key: formatPath(series.path),
+                  label: series.label,
+                  color: series.color,
+                  points: series.boxes.map((box) => box?.[metric] ?? null),
+                }))}
+                breakpoints={result.breakpoints}
+                frameCount={frameCount}
+                frameIndex={frameIndex}
+                onSelectFrame={setFrameIndex}
+              />
+            ))}
+          </div>
+
+          <h3 className="playground-sweep-heading">{ui.sweepBreakpoints}</h3>
+          {result.breakpoints.length === 0 ? (
+            <p className="playground-sweep-intro">{ui.sweepNoBreakpoints}</p>
+          ) : (
+            <ul className="playground-sweep-breakpoints">
+              {result.breakpoints.map((breakpoint) => (
+                <li key={`${formatPath(breakpoint.path)}-${breakpoint.index}`}>
+                  <button
+                    type="button"
+                    className={`playground-sweep-breakpoint-button ${breakpoint.kind} ${breakpoint.index === frameIndex ? "active" : ""}`}
+                    onClick={() => setFrameIndex(breakpoint.index)}
+                  >
+                    {format(values[breakpoint.index])} ·{" "}
+                    {breakpoint.kind === "wrap" ? ui.sweepWrap : ui.sweepTracks}{" "}
+                    ·{" "}
+                    {breakpoint.path.length === 0
+                      ? ui.importRoot
+                      : `Item ${formatPath(breakpoint.path)}`}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
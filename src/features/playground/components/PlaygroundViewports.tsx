@@ -0,0 +1,336 @@
+/**
+ * @module features/playground/components/PlaygroundViewports
+ * @description Shows the playground configuration laid out at several
+ * viewport sizes side by side, with the containers that change shape
+ * between them.
+ */
+
+import { Plus, RotateCcw, Trash2 } from "lucide-react";
+import {
+  type DemoText,
+  type ItemPath,
+  type LayoutNode,
+} from "./PlaygroundConfig";
+
+import { getCurrentLocale, getUi } from "@/lib/locales";
+import { type ViewportLayout } from "@/features/playground/hooks/useViewports";
+import { type LayoutShape } from "@/features/playground/lib/sweep";
+import {
+  TEXT_FONT_FAMILY,
+  TEXT_LINE_HEIGHT,
+  wrapText,
+} from "@/features/playground/lib/textMeasure";
+import { formatPath, isSamePath } from "@/features/playground/lib/tree";
+import {
+  DEVICE_PRESETS,
+  MAX_VIEWPORTS,
+  MAX_VIEWPORT_SIZE,
+  MIN_VIEWPORT_SIZE,
+  type Viewport,
+} from "@/features/playground/lib/viewports";
+
+/**
+ * Largest height a viewport is drawn at, in screen pixels.
+ */
+const VIEWPORT_MAX_HEIGHT = 360;
+
+/**
+ * Largest width a viewport is drawn at, in screen pixels.
+ */
+const VIEWPORT_MAX_WIDTH = 560;
+
+/**
+ * Props for the PlaygroundViewports component.
+ */
+interface PlaygroundViewportsProps {
+  /** Viewports to compare. */
+  viewports: Viewport[];
+  /** Adds a viewport. */
+  addViewport: (viewport: Omit<Viewport, "id">) => void;
+  /** Changes the name or size of a viewport. */
+  updateViewport: (id: string, patch: Partial<Omit<Viewport, "id">>) => void;
+  /** Removes a viewport. */
+  removeViewport: (id: string) => void;
+  /** Restores the default viewports. */
+  resetViewports: () => void;
+  /** Layout of each viewport, by viewport id. */
+  layouts: Map<string, ViewportLayout>;
+  /** Paths of the containers whose shape differs between viewports. */
+  changedShapes: Set<string>;
+  /** Why the viewports could not be laid out, or null. */
+  error: string | null;
+  /** Whether the viewports are being laid out. */
+  computing: boolean;
+  /** Time the last layout of all viewports took, or null. */
+  time: number | null;
+  /** Path of the selected item. */
+  selectedPath: ItemPath | null;
+  /** Callback to select an item. */
+  setSelectedPath: (path: ItemPath | null) => void;
+}
+
+/**
+ * Draws the wrapped text of a text leaf, as in the preview.
+ *
+ * @param node - Layout node of the text leaf.
+ * @param text - Text content.
+ * @returns Text element.
+ */
+const renderText = (node: LayoutNode, text: DemoText) => {
+  const left = node.border.left + node.padding.left;
+  const top = node.border.top + node.padding.top;
+  const width =
+    node.width - left - node.border.right - node.padding.right + 0.5;
+  return (
+    <div
+      className="playground-node-text"
+      style={{
+        left,
+        top,
+        fontFamily: TEXT_FONT_FAMILY,
+        fontSize: text.fontSize,
+        lineHeight: TEXT_LINE_HEIGHT,
+      }}
+    >
+      {wrapText(text, width).map((line, index) => (
+        <div key={index}>{line}</div>
+      ))}
+    </div>
+  );
+};
+
+/**
+ * Panel that lays the configuration out at every viewport, drawn at one
+ * shared scale so their sizes compare truthfully. Clicking an item selects
+ * it in all viewports and in the preview.
+ *
+ * @param props - Component props.
+ * @returns The viewports panel.
+ */
+export default function PlaygroundViewports({
+  viewports,
+  addViewport,
+  updateViewport,
+  removeViewport,
+  resetViewports,
+  layouts,
+  changedShapes,
+  error,
+  computing,
+  time,
+  selectedPath,
+  setSelectedPath,
+}: PlaygroundViewportsProps) {
+  const ui = getUi(getCurrentLocale());
+  const scale = Math.min(
+    1,
+    ...viewports.map((viewport) => VIEWPORT_MAX_HEIGHT / viewport.height),
+    ...viewports.map((viewport) => VIEWPORT_MAX_WIDTH / viewport.width),
+  );
+
+  /**
+   * Draws a layout node and its children, read-only apart from selection.
+   *
+   * @param node - Node to draw.
+   * @returns Node element, or null for hidden items.
+   */
+  const renderNode = (node: LayoutNode) => {
+    if (node.meta?.isHidden) return null;
+    const itemPath = node.meta?.path;
+    const isSelected =
+      itemPath !== undefined && isSamePath(itemPath, selectedPath);
+    const isContainer = node.meta?.isContainer ?? false;
+    const text = node.meta?.text;
+
+    return (
+      <div
+        key={node.id.toString()}
+        className={`playground-node ${itemPath === undefined ? "playground-node-root" : ""} ${isContainer ? "playground-node-container" : ""} ${node.meta?.isAbsolute ? "playground-node-absolute" : ""} ${isSelected ? "playground-node-selected" : ""}`}
+        style={{
+          left: node.x,
+          top: node.y,
+          width: node.width,
+          height: node.height,
+          backgroundColor:
+            (isContainer || text) && node.meta
+              ? `${node.meta.color}1f`
+              : node.meta?.color,
+          borderColor: node.meta?.color,
+        }}
+        onClick={(event) => {
+          event.stopPropagation();
+          setSelectedPath(itemPath ?? null);
+        }}
+        title={node.meta?.label}
+      >
+        {text && renderText(node, text)}
+        {node.children?.map(renderNode)}
+      </div>
+    );
+  };
+
+  /**
+   * Describes a container shape, e.g. "Item 1 · 3 lines".
+   *
+   * @param shape - Shape to describe.
+   * @returns Display text.
+   */
+  const describeShape = (shape: LayoutShape) => {
+    const container =
+      shape.path.length === 0
+        ? ui.importRoot
+        : `Item ${formatPath(shape.path)}`;
+    const counts =
+      shape.kind === "wrap"
+        ? ui.viewportsLines.replace("{{count}}", String(shape.counts[0]))
+        : ui.viewportsTracks
+            .replace("{{columns}}", String(shape.counts[0]))
+            .replace("{{rows}}", String(shape.counts[1]));
+    return `${container} · ${counts}`;
+  };
+
+  /**
+   * Renders a labelled number input for a viewport dimension.
+   *
+   * @param viewport - Viewport to edit.
+   * @param axis - Dimension to edit.
+   * @param label - Accessible label.
+   * @returns Input element.
+   */
+  const renderSize = (
+    viewport: Viewport,
+    axis: "width" | "height",
+    label: string,
+  ) => (
+    <input
+      className="playground-input small"
+      type="number"
+      min={MIN_VIEWPORT_SIZE}
+      max={MAX_VIEWPORT_SIZE}
+      value={viewport[axis]}
+      onChange={(event) =>
+        updateViewport(viewport.id, { [axis]: Number(event.target.value) })
+      }
+      aria-label={`${viewport.name} ${label}`}
+      name={`viewport-${viewport.id}-${axis}`}
+      autoComplete="off"
+    />
+  );
+
+  return (
+    <div className="playground-viewports">
+      <p className="playground-viewports-intro">{ui.viewportsIntro}</p>
+      <div className="playground-fuzz-settings">
+        <span className="toolbar-label">{ui.viewportsAdd}:</span>
+        {DEVICE_PRESETS.map((preset) => (
+          <button
+            key={preset.name}
+            type="button"
+            className="playground-button playground-button-secondary playground-button-icon"
+            onClick={() => addViewport(preset)}
+            disabled={viewports.length >= MAX_VIEWPORTS}
+            title={`${preset.width} × ${preset.height}`}
+          >
+            <Plus className="h-4 w-4" />
+            {preset.name}
+          </button>
+        ))}
+        <button
+          type="button"
+          className="playground-button playground-button-secondary playground-button-icon"
+          onClick={resetViewports}
+        >
+          <RotateCcw className="h-4 w-4" />
+          {ui.viewportsReset}
+        </button>
+        <span className="playground-viewports-status">
+          {computing
+            ? ui.viewportsComputing
+            : time !== null &&
+              ui.viewportsTime
+                .replace("{{count}}", String(viewports.length))
+                .replace("{{time}}", time.toFixed(1))
+                .replace("{{scale}}", String(Math.round(scale * 100)))}
+        </span>
+      </div>
+
+      {error && <div className="playground-error">⚠️ {error}</div>}
+
+      {viewports.length === 0 ? (
+        <p className="playground-viewports-intro">{ui.viewportsEmpty}</p>
+      ) : (
+        <div className="playground-viewports-list">
+          {viewports.map((viewport) => {
+            const layout = layouts.get(viewport.id);
+            const shapes = layout
+              ? [...layout.shapes].filter(([key]) => changedShapes.has(key))
+              : [];
+            return (
+              <figure key={viewport.id} className="playground-viewport">
+                <figcaption className="playground-viewport-header">
+                  <input
+                    className="playground-input playground-viewport-name"
+                    value={viewport.name}
+                    onChange={(event) =>
+                      updateViewport(viewport.id, { name: event.target.value })
+                    }
+                    aria-label={ui.viewportsName}
+                    name={`viewport-${viewport.id}-name`}
+                    autoComplete="off"
+                  />
+                  {renderSize(viewport, "width", ui.viewportsWidth)}×
+                  {renderSize(viewport, "height", ui.viewportsHeight)}
+                  <button
+                    type="button"
+                    className="playground-icon-button"
+                    onClick={() => removeViewport(viewport.id)}
+                    aria-label={ui.viewportsRemove}
+                    title={ui.viewportsRemove}
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </button>
+                </figcaption>
+                <div
+                  className="playground-viewport-frame"
+                  style={{
+                    width: viewport.width * scale,
+                    height: viewport.height * scale,
+                  }}
+                  onClick={() => setSelectedPath(null)}
+                >
+                  {layout && (
+                    <div
+                      className="playground-viewport-canvas"
+                      style={{
+                        width: layout.size.width,
+                        height: layout.size.height,
+                        transform: `scale(${scale})`,
+                      }}
+                    >
+                      {layout.nodes.map(renderNode)}
+                    </div>
+                  )}
+                </div>
+                {shapes.length > 0 && (
+                  <ul className="playground-viewport-shapes">
+                    {shapes.map(([key, shape]) => (
+                      <li
+                        key={key}
+                        className={`playground-viewport-shape ${shape.kind}`}
+                      >
+                        {describeShape(shape)}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </figure>
+            );
+          })}
+        </div>
+      )}
+      {layouts.size > 1 && changedShapes.size === 0 && (
+        <p className="playground-viewports-intro">{ui.viewportsSameShape}</p>
+      )}
+    </div>
+  );
+}
@@ -4,24 +4,75 @@
  * Orchestrates configuration, layout computation, and child components.
  */
 
-import { useCallback, useState } from "react";
-import { PRESETS, type DemoItem } from "./PlaygroundConfig";
+import { useCallback, useState, type SetStateAction } from "react";
+import {
+  ChartSpline,
+  Check,
+  FileCode,
+  GitCompare,
+  Link,
+  MonitorSmartphone,
+  ScanSearch,
+} from "lucide-react";
+import PlaygroundCodePanel from "./PlaygroundCodePanel";
+import PlaygroundComparePanel from "./PlaygroundComparePanel";
+import {
+  DEFAULT_ROOT_SIZING,
+  PRESETS,
+  type DemoConfig,
+  type RootSizing,
+} from "./PlaygroundConfig";
 import PlaygroundControls from "./PlaygroundControls";
+import PlaygroundFuzzPanel from "./PlaygroundFuzzPanel";
+import PlaygroundHistory from "./PlaygroundHistory";
+import PlaygroundImportPanel from "./PlaygroundImportPanel";
+import PlaygroundInspector from "./PlaygroundInspector";
+import PlaygroundPresetsPanel from "./PlaygroundPresetsPanel";
 import PlaygroundPreview from "./PlaygroundPreview";
+import PlaygroundSweepPanel from "./PlaygroundSweepPanel";
+import PlaygroundViewports from "./PlaygroundViewports";
 
 import { getCurrentLocale, getUi } from "@/lib/locales";
+import { useClipboard } from "@/features/code/hooks/useClipboard";
+import { reportError } from "@/features/code/lib/errors";
+import { useCustomPresets } from "@/features/playground/hooks/useCustomPresets";
+import { useLayoutSweep } from "@/features/playground/hooks/useLayoutSweep";
 import { usePlaygroundConfig } from "@/features/playground/hooks/usePlaygroundConfig";
+import { usePlaygroundUrlState } from "@/features/playground/hooks/usePlaygroundUrlState";
+import { useLayoutFuzzer } from "@/features/playground/hooks/useLayoutFuzzer";
+import { useReferenceLayouts } from "@/features/playground/hooks/useReferenceLayouts";
+import { useUndoShortcuts } from "@/features/playground/hooks/useUndoShortcuts";
 import { useTaffyLayout } from "@/features/playground/hooks/useTaffyLayout";
+import { useViewports } from "@/features/playground/hooks/useViewports";
+import {
+  customPresetKey,
+  findCustomPreset,
+  isCustomPresetKey,
+  type CustomPreset,
+} from "@/features/playground/lib/customPresets";
+import { downloadTextFile } from "@/features/playground/lib/download";
+import { type FuzzCase } from "@/features/playground/lib/fuzz";
+import { exportHtml } from "@/features/playground/lib/htmlExport";
+import { type HtmlImportResult } from "@/features/playground/lib/htmlImport";
+import { type SharedPlaygroundState } from "@/features/playground/lib/shareState";
 
 /**
  * Main Playground component that orchestrates the layout configuration, state management,
  * and rendering of the Taffy layout engine demo.
  *
  * Handles layout computation via useTaffyLayout and manages UI state for controls and preview.
+ * The full state is mirrored into the URL hash so any layout can be shared as a link.
+ * Compare mode lays out the same configuration with the browser and Yoga and
+ * shows where they differ from Taffy; the fuzz tab searches for such
+ * differences in random layouts. Viewport mode lays the configuration out at
+ * several device sizes side by side.
  */
 export default function Playground() {
   const locale = getCurrentLocale();
   const ui = getUi(locale);
+  const [activeTab, setActiveTab] = useState<
+    "preview" | "code" | "import" | "fuzz" | "presets"
+  >("preview");
 
   // Playground State
   const {
@@ -32,40 +83,158 @@ export default function Playground() {
     updateFlex,
     updateGrid,
     updateItemCount,
+    selectedPath,
+    setSelectedPath,
+    updateItem,
+    addItem,
+    removeItem,
+    moveItem,
+    restoreConfig,
+    commitEdit,
     handlePresetChange,
+    history,
+    canUndo,
+    canRedo,
+    undo,
+    redo,
+    jumpToHistory,
   } = usePlaygroundConfig();
+  useUndoShortcuts(undo, redo);
 
-  const [selectedItemIndex, setSelectedItemIndex] = useState<number | null>(
-    null,
-  );
   const [availableSize, setAvailableSize] = useState({ width: 0, height: 0 });
   const [previewScale, setPreviewScale] = useState({ width: 100, height: 100 });
+  // Exact canvas size of an opened fuzz case or imported fixture, used
+  // instead of the scale
+  const [canvasSize, setCanvasSize] = useState<{
+    width: number;
+    height: number;
+  } | null>(null);
+  const [rootSizing, setRootSizing] = useState<RootSizing>(DEFAULT_ROOT_SIZING);
+  // In-progress preview drag, laid out live but not yet in the history
+  const [draftConfig, setDraftConfig] = useState<DemoConfig | null>(null);
+  const [compareMode, setCompareMode] = useState(false);
+  const [showGridLines, setShowGridLines] = useState(false);
+  const [inspectorOpen, setInspectorOpen] = useState(false);
+  const [sweepOpen, setSweepOpen] = useState(false);
+  const [viewportsOpen, setViewportsOpen] = useState(false);
+
+  // Shareable URL State
+  const handleRestore = useCallback(
+    (shared: SharedPlaygroundState) => {
+      restoreConfig(shared.config, shared.presetKey);
+      setPreviewScale(shared.previewScale);
+      setCanvasSize(null);
+      setRootSizing(shared.rootSizing);
+    },
+    [restoreConfig],
+  );
+  const { shareError, dismissShareError, getShareUrl } = usePlaygroundUrlState(
+    { config, previewScale, rootSizing, presetKey: String(presetKey) },
+    handleRestore,
+  );
+  const { copied: linkCopied, copy } = useClipboard();
+
+  // Fixtures that size their root are shown at that size; like Taffy's
+  // gentests, an axis the root leaves unset gets max-content space. Other
+  // fixtures drop the size left by an earlier import or fuzz case
+  const handleImport = useCallback(
+    ({ config: imported, rootSize }: HtmlImportResult) => {
+      restoreConfig(imported, presetKey, "Import HTML");
+      if (rootSize.width === null && rootSize.height === null) {
+        setCanvasSize(null);
+        setRootSizing(DEFAULT_ROOT_SIZING);
+        return;
+      }
+      setCanvasSize({
+        width: rootSize.width ?? availableSize.width,
+        height: rootSize.height ?? availableSize.height,
+      });
+      setRootSizing({
+        width: rootSize.width === null ? "maxContent" : "definite",
+        height: rootSize.height === null ? "maxContent" : "definite",
+      });
+    },
+    [restoreConfig, presetKey, availableSize],
+  );
+
+  // Editing the scale drops an exact canvas size
+  const updatePreviewScale = useCallback(
+    (scale: SetStateAction<{ width: number; height: number }>) => {
+      setCanvasSize(null);
+      setPreviewScale(scale);
+    },
+    [],
+  );
+
+  // Cases are shown as they were checked: at their root size, filling it
+  const handleOpenFuzzCase = useCallback(
+    (fuzzCase: FuzzCase) => {
+      restoreConfig(fuzzCase.config, presetKey, "Open fuzz case");
+      setCanvasSize(fuzzCase.rootSize);
+      setRootSizing(DEFAULT_ROOT_SIZING);
+      setCompareMode(true);
+      setActiveTab("preview");
+    },
+    [restoreConfig, presetKey],
+  );
+
+  const customPresets = useCustomPresets();
+
+  const handleLoadCustomPreset = useCallback(
+    (preset: CustomPreset) =>
+      restoreConfig(
+        preset.config,
+        customPresetKey(preset.id),
+        `Preset · ${preset.name}`,
+      ),
+    [restoreConfig],
+  );
+
+  const handleSelectPreset = (key: string) => {
+    if (!isCustomPresetKey(key)) {
+      handlePresetChange(key as keyof typeof PRESETS);
+      return;
+    }
+    const preset = findCustomPreset(customPresets.presets, key);
+    if (preset) handleLoadCustomPreset(preset);
+  };
+
+  const handleCopyLink = () => {
+    getShareUrl()
+      .then(copy)
+      .catch((err) => reportError(err, "Playground"));
+  };
 
   // Taffy Layout Computation
-  const { layoutNodes, error, previewSize } = useTaffyLayout(
-    config,
+  const { layoutNodes, error, previewSize, computeTime } = useTaffyLayout(
+    draftConfig ?? config,
     availableSize,
     previewScale,
+    rootSizing,
+    canvasSize,
   );
-
-  // Safely manage selectedItemIndex when items change (derive state during render)
-  if (selectedItemIndex !== null && selectedItemIndex >= config.items.length) {
-    setSelectedItemIndex(Math.max(0, config.items.length - 1));
-  }
-
-  // Item Update Handler
-  const updateItem = useCallback(
-    (patch: Partial<DemoItem>) => {
-      if (selectedItemIndex === null) return;
-      setConfig((prev) => ({
-        ...prev,
-        items: prev.items.map((item, index) =>
-          index === selectedItemIndex ? { ...item, ...patch } : item,
-        ),
-      }));
-    },
-    [selectedItemIndex, setConfig],
+  const references = useReferenceLayouts(
+    draftConfig ?? config,
+    previewSize,
+    rootSizing,
+    compareMode,
   );
+  const fuzzer = useLayoutFuzzer(previewSize);
+  const sweep = useLayoutSweep(
+    draftConfig ?? config,
+    previewSize,
+    rootSizing,
+    selectedPath,
+    sweepOpen,
+  );
+  const viewports = useViewports(
+    draftConfig ?? config,
+    rootSizing,
+    viewportsOpen,
+  );
+  // While sweeping, the preview shows the scrubbed frame
+  const shownNodes = sweep.frame?.nodes ?? layoutNodes;
+  const shownSize = sweep.frame?.size ?? previewSize;
 
   // Map preset keys to translation keys
   const presetNameKeys: Record<string, keyof typeof ui> = {
@@ -73,8 +242,15 @@ export default function Playground() {
     flexCenter: "presetFlexCenter",
     flexGrow: "presetFlexGrow",
     flexWrap: "presetFlexWrap",
+    flexAutoMargins: "presetFlexAutoMargins",
     gridBasic: "presetGridBasic",
     gridSpans: "presetGridSpans",
+    gridAutoFill: "presetGridAutoFill",
+    gridAreas: "presetGridAreas",
+    nestedSidebar: "presetNestedSidebar",
+    absoluteOverlays: "presetAbsoluteOverlays",
+    textWrapping: "presetTextWrapping",
+    blockDocument: "presetBlockDocument",
   };
 
   const presetDescKeys: Record<string, keyof typeof ui> = {
@@ -82,20 +258,44 @@ export default function Playground() {
     flexCenter: "presetFlexCenterDesc",
     flexGrow: "presetFlexGrowDesc",
     flexWrap: "presetFlexWrapDesc",
+    flexAutoMargins: "presetFlexAutoMarginsDesc",
     gridBasic: "presetGridBasicDesc",
     gridSpans: "presetGridSpansDesc",
+    gridAutoFill: "presetGridAutoFillDesc",
+    gridAreas: "presetGridAreasDesc",
+    nestedSidebar: "presetNestedSidebarDesc",
+    absoluteOverlays: "presetAbsoluteOverlaysDesc",
+    textWrapping: "presetTextWrappingDesc",
+    blockDocument: "presetBlockDocumentDesc",
   };
 
   const getPresetName = (key: string) => {
+    if (isCustomPresetKey(key)) {
+      return findCustomPreset(customPresets.presets, key)?.name ?? key;
+    }
     const nameKey = presetNameKeys[key];
     return nameKey ? String(ui[nameKey]) : key;
   };
 
   const getPresetDesc = (key: string) => {
+    if (isCustomPresetKey(key)) return ui.presetsCustomDesc;
     const descKey = presetDescKeys[key];
     return descKey ? String(ui[descKey]) : "";
   };
 
+  const handleExportHtml = () => {
+    downloadTextFile(
+      "taffy-layout.html",
+      exportHtml(
+        config,
+        previewSize,
+        getPresetName(String(presetKey)),
+        rootSizing,
+      ),
+      "text/html",
+    );
+  };
+
   return (
     <main className="playground-shell mx-auto w-full max-w-7xl px-4 py-12 sm:px-6 lg:px-8">
       <header className="playground-header">
@@ -108,12 +308,18 @@ export default function Playground() {
           </p>
         </div>
         <div className="playground-header-actions">
+          <PlaygroundHistory
+            history={history}
+            canUndo={canUndo}
+            canRedo={canRedo}
+            undo={undo}
+            redo={redo}
+            jumpToHistory={jumpToHistory}
+          />
           <select
             className="playground-select"
             value={presetKey}
-            onChange={(event) =>
-              handlePresetChange(event.target.value as keyof typeof PRESETS)
-            }
+            onChange={(event) => handleSelectPreset(event.target.value)}
             aria-label="Select preset"
             name="playground-preset"
             autoComplete="off"
@@ -123,37 +329,261 @@ export default function Playground() {
                 {getPresetName(key)}
               </option>
             ))}
+            {customPresets.presets.length > 0 && (
+              <optgroup label={ui.presetsCustom}>
+                {customPresets.presets.map((preset) => (
+                  <option key={preset.id} value={customPresetKey(preset.id)}>
+                    {preset.name}
+                  </option>
+                ))}
+              </optgroup>
+            )}
           </select>
+          <button
+            type="button"
+            className="playground-button playground-button-icon"
+            onClick={handleCopyLink}
+          >
+            {linkCopied ? (
+              <Check className="h-4 w-4" />
+            ) : (
+              <Link className="h-4 w-4" />
+            )}
+            {linkCopied ? ui.linkCopied : ui.copyLink}
+          </button>
+          <button
+            type="button"
+            className="playground-button playground-button-icon"
+            onClick={handleExportHtml}
+          >
+            <FileCode className="h-4 w-4" />
+            {ui.exportHtml}
+          </button>
+          <button
+            type="button"
+            className={`playground-button playground-button-icon ${compareMode ? "" : "playground-button-secondary"}`}
+            onClick={() => setCompareMode((enabled) => !enabled)}
+            aria-pressed={compareMode}
+          >
+            <GitCompare className="h-4 w-4" />
+            {ui.compareEngines}
+          </button>
+          <button
+            type="button"
+            className={`playground-button playground-button-icon ${inspectorOpen ? "" : "playground-button-secondary"}`}
+            onClick={() => setInspectorOpen((open) => !open)}
+            aria-pressed={inspectorOpen}
+          >
+            <ScanSearch className="h-4 w-4" />
+            {ui.inspector}
+          </button>
+          <button
+            type="button"
+            className={`playground-button playground-button-icon ${sweepOpen ? "" : "playground-button-secondary"}`}
+            onClick={() => setSweepOpen((open) => !open)}
+            aria-pressed={sweepOpen}
+          >
+            <ChartSpline className="h-4 w-4" />
+            {ui.sweep}
+          </button>
+          <button
+            type="button"
+            className={`playground-button playground-button-icon ${viewportsOpen ? "" : "playground-button-secondary"}`}
+            onClick={() => setViewportsOpen((open) => !open)}
+            aria-pressed={viewportsOpen}
+          >
+            <MonitorSmartphone className="h-4 w-4" />
+            {ui.viewports}
+          </button>
         </div>
       </header>
 
+      {shareError && (
+        <div className="playground-error playground-error-dismissible">
+          <span>⚠️ {shareError}</span>
+          <button
+            type="button"
+            className="playground-tooltip-close"
+            onClick={dismissShareError}
+            aria-label="Dismiss"
+          >
+            ×
+          </button>
+        </div>
+      )}
       {error && <div className="playground-error">⚠️ {error}</div>}
 
       <div className="playground-body">
         <section className="playground-panel">
           <div className="playground-panel-header">
+            <div className="playground-tabs" role="tablist">
+              <button
+                type="button"
+                role="tab"
+                aria-selected={activeTab === "preview"}
+                className={`playground-tab ${activeTab === "preview" ? "active" : ""}`}
+                onClick={() => setActiveTab("preview")}
+              >
+                {ui.tabPreview}
+              </button>
+              <button
+                type="button"
+                role="tab"
+                aria-selected={activeTab === "code"}
+                className={`playground-tab ${activeTab === "code" ? "active" : ""}`}
+                onClick={() => setActiveTab("code")}
+              >
+                {ui.tabCode}
+              </button>
+              <button
+                type="button"
+                role="tab"
+                aria-selected={activeTab === "import"}
+                className={`playground-tab ${activeTab === "import" ? "active" : ""}`}
+                onClick={() => setActiveTab("import")}
+              >
+                {ui.tabImport}
+              </button>
+              <button
+                type="button"
+                role="tab"
+                aria-selected={activeTab === "fuzz"}
+                className={`playground-tab ${activeTab === "fuzz" ? "active" : ""}`}
+                onClick={() => setActiveTab("fuzz")}
+              >
+                {ui.tabFuzz}
+              </button>
+              <button
+                type="button"
+                role="tab"
+                aria-selected={activeTab === "presets"}
+                className={`playground-tab ${activeTab === "presets" ? "active" : ""}`}
+                onClick={() => setActiveTab("presets")}
+              >
+                {ui.tabPresets}
+              </button>
+            </div>
             <PlaygroundControls
               config={config}
               setConfig={setConfig}
               previewScale={previewScale}
-              setPreviewScale={setPreviewScale}
+              setPreviewScale={updatePreviewScale}
+              canvasSize={canvasSize}
+              clearCanvasSize={() => setCanvasSize(null)}
+              rootSizing={rootSizing}
+              setRootSizing={setRootSizing}
               updateContainer={updateContainer}
               updateFlex={updateFlex}
               updateGrid={updateGrid}
               updateItemCount={updateItemCount}
+              selectedPath={selectedPath}
+              setSelectedPath={setSelectedPath}
+              addItem={addItem}
+              removeItem={removeItem}
+              moveItem={moveItem}
+              showGridLines={showGridLines}
+              setShowGridLines={setShowGridLines}
             />
           </div>
 
           <div className="playground-panel-body">
-            <PlaygroundPreview
-              layoutNodes={layoutNodes}
-              previewSize={previewSize}
-              setAvailableSize={setAvailableSize}
-              selectedItemIndex={selectedItemIndex}
-              setSelectedItemIndex={setSelectedItemIndex}
-              config={config}
-              updateItem={updateItem}
-            />
+            {activeTab === "preview" && (
+              <PlaygroundPreview
+                layoutNodes={shownNodes}
+                previewSize={shownSize}
+                rootSizing={rootSizing}
+                setAvailableSize={setAvailableSize}
+                selectedPath={selectedPath}
+                setSelectedPath={setSelectedPath}
+                config={config}
+                updateItem={updateItem}
+                onDraftChange={setDraftConfig}
+                commitEdit={commitEdit}
+                references={references}
+                showGridLines={showGridLines}
+                computeTime={computeTime}
+              />
+            )}
+            {activeTab === "preview" && compareMode && (
+              <PlaygroundComparePanel
+                layoutNodes={layoutNodes}
+                references={references}
+                setSelectedPath={setSelectedPath}
+              />
+            )}
+            {activeTab === "preview" && inspectorOpen && (
+              <PlaygroundInspector
+                layoutNodes={shownNodes}
+                selectedPath={selectedPath}
+              />
+            )}
+            {activeTab === "preview" && sweepOpen && (
+              <PlaygroundSweepPanel
+                settings={sweep.settings}
+                setSettings={sweep.setSettings}
+                result={sweep.result}
+                error={sweep.error}
+                computing={sweep.computing}
+                frameIndex={sweep.frameIndex}
+                setFrameIndex={sweep.setFrameIndex}
+                playing={sweep.playing}
+                togglePlay={sweep.togglePlay}
+              />
+            )}
+            {activeTab === "preview" && viewportsOpen && (
+              <PlaygroundViewports
+                viewports={viewports.viewports}
+                addViewport={viewports.addViewport}
+                updateViewport={viewports.updateViewport}
+                removeViewport={viewports.removeViewport}
+                resetViewports={viewports.resetViewports}
+                layouts={viewports.layouts}
+                changedShapes={viewports.changedShapes}
+                error={viewports.error}
+                computing={viewports.computing}
+                time={viewports.time}
+                selectedPath={selectedPath}
+                setSelectedPath={setSelectedPath}
+              />
+            )}
+            {activeTab === "code" && (
+              <PlaygroundCodePanel
+                config={config}
+                previewSize={previewSize}
+                rootSizing={rootSizing}
+              />
+            )}
+            {activeTab === "import" && (
+              <PlaygroundImportPanel onImport={handleImport} />
+            )}
+            {activeTab === "fuzz" && (
+              <PlaygroundFuzzPanel
+                previewSize={previewSize}
+                options={fuzzer.options}
+                setOptions={fuzzer.setOptions}
+                running={fuzzer.running}
+                checked={fuzzer.checked}
+                failures={fuzzer.failures}
+                error={fuzzer.error}
+                start={fuzzer.start}
+                stop={fuzzer.stop}
+                onOpen={handleOpenFuzzCase}
+              />
+            )}
+            {activeTab === "presets" && (
+              <PlaygroundPresetsPanel
+                config={config}
+                presetKey={String(presetKey)}
+                presets={customPresets.presets}
+                savePreset={customPresets.savePreset}
+                updatePreset={customPresets.updatePreset}
+                renamePreset={customPresets.renamePreset}
+                deletePreset={customPresets.deletePreset}
+                importPresets={customPresets.importPresets}
+                exportPresets={customPresets.exportPresets}
+                onLoad={handleLoadCustomPreset}
+              />
+            )}
           </div>
         </section>
       </div>
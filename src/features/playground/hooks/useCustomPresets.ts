@@ -0,0 +1,128 @@
+/**
+ * @module features/playground/hooks/useCustomPresets
+ * @description Hook managing the user's preset library persisted in
+ * localStorage.
+ */
+
+import { useCallback } from "react";
+import {
+  cloneConfig,
+  type DemoConfig,
+} from "@/features/playground/components/PlaygroundConfig";
+import { useStoredState } from "@/features/playground/hooks/useStoredState";
+import {
+  loadCustomPresets,
+  parsePresets,
+  saveCustomPresets,
+  serializePresets,
+  type CustomPreset,
+} from "@/features/playground/lib/customPresets";
+import { createStoredId } from "@/features/playground/lib/storage";
+
+/**
+ * Hook to save, rename, delete, import and export custom presets.
+ *
+ * The library is loaded from localStorage on mount and written back after
+ * every change. Imported presets get new ids and are appended, so importing
+ * the same file twice keeps both copies rather than overwriting edits.
+ *
+ * @returns The presets and callbacks to change them.
+ *
+ * @example
+ * const { presets, savePreset, renamePreset, deletePreset } =
+ *   useCustomPresets();
+ */
+export function useCustomPresets() {
+  const [presets, setPresets] = useStoredState<CustomPreset[]>(
+    loadCustomPresets,
+    saveCustomPresets,
+    [],
+  );
+
+  /**
+   * Saves a configuration as a new preset.
+   *
+   * @param name - Preset name.
+   * @param config - Configuration to save.
+   * @returns The new preset.
+   */
+  const savePreset = useCallback((name: string, config: DemoConfig) => {
+    const preset: CustomPreset = {
+      id: createStoredId(),
+      name,
+      config: cloneConfig(config),
+    };
+    setPresets((current) => [...current, preset]);
+    return preset;
+  }, []);
+
+  /**
+   * Replaces the configuration of a preset.
+   *
+   * @param id - Preset id.
+   * @param config - Configuration to save.
+   */
+  const updatePreset = useCallback((id: string, config: DemoConfig) => {
+    setPresets((current) =>
+      current.map((preset) =>
+        preset.id === id ? { ...preset, config: cloneConfig(config) } : preset,
+      ),
+    );
+  }, []);
+
+  /**
+   * Renames a preset.
+   *
+   * @param id - Preset id.
+   * @param name - New name.
+   */
+  const renamePreset = useCallback((id: string, name: string) => {
+    setPresets((current) =>
+      current.map((preset) =>
+        preset.id === id ? { ...preset, name } : preset,
+      ),
+    );
+  }, []);
+
+  /**
+   * Removes a preset from the library.
+   *
+   * @param id - Preset id.
+   */
+  const deletePreset = useCallback((id: string) => {
+    setPresets((current) => current.filter((preset) => preset.id !== id));
+  }, []);
+
+  /**
+   * Appends the presets of a collection file.
+   *
+   * @param json - Collection JSON.
+   * @returns Number of imported presets.
+   * @throws PresetImportError when the file is not a valid collection.
+   */
+  const importPresets = useCallback((json: string) => {
+    const imported = parsePresets(json).map((preset) => ({
+      ...preset,
+      id: createStoredId(),
+    }));
+    setPresets((current) => [...current, ...imported]);
+    return imported.length;
+  }, []);
+
+  /**
+   * Serializes the library as a collection file.
+   *
+   * @returns Collection JSON.
+   */
+  const exportPresets = useCallback(() => serializePresets(presets), [presets]);
+
+  return {
+    presets,
+    savePreset,
+    updatePreset,
+    renamePreset,
+    deletePreset,
+    importPresets,
+    exportPresets,
+  };
+}
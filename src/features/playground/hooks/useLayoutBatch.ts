@@ -0,0 +1,155 @@
+/**
+ * @module features/playground/hooks/useLayoutBatch
+ * @description Hook laying out a batch of frames in a dedicated layout
+ * worker, shared by sweeps and viewport comparisons.
+ */
+
+import { useEffect, useRef, useState } from "react";
+import {
+  type LayoutNode,
+  type RootSizing,
+} from "@/features/playground/components/PlaygroundConfig";
+import {
+  unflattenLayouts,
+  type BatchRequest,
+  type LayoutFrame,
+  type LayoutWorkerMessage,
+} from "@/features/playground/lib/layoutEngine";
+import { createLayoutWorker } from "@/features/playground/lib/layoutWorkerClient";
+
+/**
+ * Delay in milliseconds before a changed batch is laid out again, so drags
+ * and typing do not queue a batch per event.
+ */
+const BATCH_DELAY = 200;
+
+/**
+ * Frames to lay out, with data describing them that is handed back with the
+ * result.
+ */
+export interface LayoutBatch<T> {
+  /** Configuration and canvas size of each frame. */
+  frames: LayoutFrame[];
+  /** Data of the batch, such as the swept values. */
+  data: T;
+}
+
+/**
+ * Laid out batch.
+ */
+export interface LayoutBatchResult<T> {
+  /** Frames that were laid out. */
+  frames: LayoutFrame[];
+  /** Root layout nodes of each frame. */
+  layouts: LayoutNode[][];
+  /** Data the batch was sent with. */
+  data: T;
+  /** Time the worker took for all frames, in milliseconds. */
+  time: number;
+}
+
+/**
+ * Hook to lay out a batch of frames off the main thread.
+ *
+ * While enabled, a worker is kept running and the batch is laid out shortly
+ * after it or the sizing changes; answers to superseded batches are
+ * dropped. A null batch clears the result. Pass a memoized batch, since a
+ * new object queues a new layout.
+ *
+ * @param batch - Frames to lay out, or null for none.
+ * @param sizing - Sizing mode of each root axis.
+ * @param enabled - Whether the worker should run.
+ * @returns The latest result, error, and whether a batch is in flight.
+ *
+ * @example
+ * const { result, error, computing } = useLayoutBatch(batch, rootSizing, open);
+ */
+export function useLayoutBatch<T>(
+  batch: LayoutBatch<T> | null,
+  sizing: RootSizing,
+  enabled: boolean,
+) {
+  const [result, setResult] = useState<LayoutBatchResult<T> | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [computing, setComputing] = useState(false);
+  const workerRef = useRef<Worker | null>(null);
+  // Id of the latest request; older answers are ignored
+  const latestRef = useRef(0);
+  // Batches of pending requests, whose frames and data the worker does not echo
+  const pendingRef = useRef(new Map<number, LayoutBatch<T>>());
+
+  useEffect(() => {
+    if (!enabled) return undefined;
+    const pending = pendingRef.current;
+    const worker = createLayoutWorker();
+    workerRef.current = worker;
+
+    worker.addEventListener(
+      "message",
+      (event: MessageEvent<LayoutWorkerMessage>) => {
+        const message = event.data;
+        if (message.type === "ready") return;
+        const { id } = message;
+        if (id === null) {
+          // Only startup errors are not tied to a request
+          if (message.type === "error") setError(message.message);
+          setComputing(false);
+          return;
+        }
+        const request = pending.get(id);
+        pending.delete(id);
+        if (id !== latestRef.current) return;
+
+        setComputing(false);
+        if (message.type === "batch" && request) {
+          setResult({
+            frames: request.frames,
+            layouts: message.frames.map(unflattenLayouts),
+            data: request.data,
+            time: message.time,
+          });
+          setError(null);
+        } else if (message.type === "error") {
+          setError(message.message);
+        }
+      },
+    );
+    worker.addEventListener("error", (event) => {
+      setError(event.message || "The layout worker failed to start.");
+    });
+
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+      pending.clear();
+      setComputing(false);
+    };
+  }, [enabled]);
+
+  useEffect(() => {
+    const worker = workerRef.current;
+    if (!enabled || !worker) return undefined;
+    if (!batch) {
+      latestRef.current += 1;
+      setResult(null);
+      setComputing(false);
+      return undefined;
+    }
+
+    const timer = setTimeout(() => {
+      const request: BatchRequest = {
+        type: "batch",
+        id: ++latestRef.current,
+        frames: batch.frames,
+        sizing,
+      };
+      pendingRef.current.set(request.id, batch);
+      worker.postMessage(request);
+      setComputing(true);
+    }, BATCH_DELAY);
+
+    return () => clearTimeout(timer);
+  }, [enabled, batch, sizing]);
+
+  return { result, error, computing };
+}
@@ -0,0 +1,130 @@
+/**
+ * @module features/playground/hooks/useLayoutFuzzer
+ * @description Hook running fuzzing sessions that compare Taffy with the
+ * browser's CSS engine on random configurations.
+ */
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { loadTaffy } from "taffy-layout";
+import { type DemoConfig } from "@/features/playground/components/PlaygroundConfig";
+import { reportError } from "@/features/code/lib/errors";
+import {
+  DEFAULT_FUZZ_OPTIONS,
+  findDifferences,
+  randomConfig,
+  reduceConfig,
+  type FuzzCase,
+  type FuzzOptions,
+} from "@/features/playground/lib/fuzz";
+
+/**
+ * Yields to the browser so the page stays responsive between cases and
+ * during reductions.
+ *
+ * @returns Promise resolved on the next macrotask.
+ */
+const nextTask = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+/**
+ * Hook to run a fuzzing session in the background.
+ *
+ * Cases are generated from consecutive seeds and laid out at the given root
+ * size, one per task. Every divergence is reduced before it is reported,
+ * yielding every few layouts, and reductions that end in an already
+ * reported configuration are skipped.
+ * Starting a new run or unmounting cancels the current one, so the hook
+ * lives in the playground root and keeps running while other tabs are open.
+ *
+ * @param rootSize - Size of the root container, usually the preview size.
+ * @returns Run options and state with start and stop callbacks.
+ *
+ * @example
+ * const { options, setOptions, running, checked, failures, start, stop } =
+ *   useLayoutFuzzer(previewSize);
+ */
+export function useLayoutFuzzer(rootSize: { width: number; height: number }) {
+  const [options, setOptions] = useState<FuzzOptions>(DEFAULT_FUZZ_OPTIONS);
+  const [running, setRunning] = useState(false);
+  const [checked, setChecked] = useState(0);
+  const [failures, setFailures] = useState<FuzzCase[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  // Id of the current run; bumping it cancels the run at the next yield
+  const runRef = useRef(0);
+
+  useEffect(() => {
+    const runs = runRef;
+    return () => {
+      runs.current += 1;
+    };
+  }, []);
+
+  const start = useCallback(() => {
+    const run = ++runRef.current;
+    const size = { ...rootSize };
+    const seen = new Set<string>();
+    setRunning(true);
+    setChecked(0);
+    setFailures([]);
+    setError(null);
+
+    const fails = (config: DemoConfig) =>
+      findDifferences(config, size, options.tolerance).length > 0;
+
+    const execute = async () => {
+      await loadTaffy();
+      for (let index = 0; index < options.cases; index += 1) {
+        await nextTask();
+        if (runRef.current !== run) return;
+
+        const seed = options.seed + index;
+        const config = randomConfig(seed, options.bounds);
+        if (fails(config)) {
+          const reduced = await reduceConfig(config, fails, async () => {
+            await nextTask();
+            return runRef.current === run;
+          });
+          if (!reduced) return;
+          const key = JSON.stringify(reduced);
+          if (!seen.has(key)) {
+            seen.add(key);
+            const failure: FuzzCase = {
+              seed,
+              config: reduced,
+              rootSize: size,
+              differences: findDifferences(reduced, size, options.tolerance),
+            };
+            setFailures((current) => [...current, failure]);
+          }
+        }
+        setChecked(index + 1);
+      }
+    };
+
+    execute()
+      .catch((err) => {
+        reportError(err, "Playground");
+        if (runRef.current === run) {
+          setError(err instanceof Error ? err.message : String(err));
+        }
+      })
+      .finally(() => {
+        if (runRef.current === run) setRunning(false);
+      });
+  }, [options, rootSize]);
+
+  const stop = useCallback(() => {
+    runRef.current += 1;
+    setRunning(false);
+  }, []);
+
+  return {
+    options,
+    setOptions,
+    running,
+    checked,
+    failures,
+    error,
+    start,
+    stop,
+  };
+}
@@ -0,0 +1,168 @@
+/**
+ * @module features/playground/hooks/useLayoutSweep
+ * @description Hook laying out the playground configuration across a sweep
+ * of one setting and playing the frames back.
+ */
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import {
+  type DemoConfig,
+  type ItemPath,
+  type LayoutNode,
+  type RootSizing,
+} from "@/features/playground/components/PlaygroundConfig";
+import { useLayoutBatch } from "@/features/playground/hooks/useLayoutBatch";
+import {
+  DEFAULT_SWEEP_SETTINGS,
+  buildSweepFrames,
+  collectSweepSeries,
+  findSweepBreakpoints,
+  type SweepBreakpoint,
+  type SweepSeries,
+  type SweepSettings,
+} from "@/features/playground/lib/sweep";
+
+/**
+ * Time in milliseconds each frame is shown during playback.
+ */
+const SWEEP_FRAME_INTERVAL = 80;
+
+/**
+ * Laid out sweep.
+ */
+export interface SweepResult {
+  /** Swept value of each frame. */
+  values: number[];
+  /** Canvas size of each frame. */
+  sizes: { width: number; height: number }[];
+  /** Root layout nodes of each frame. */
+  frames: LayoutNode[][];
+  /** Boxes of every item across the frames. */
+  series: SweepSeries[];
+  /** Frames at which a container wraps or changes its tracks. */
+  breakpoints: SweepBreakpoint[];
+  /** Time the worker took for all frames, in milliseconds. */
+  time: number;
+}
+
+/**
+ * Hook to sweep a setting of the configuration.
+ *
+ * While enabled, the configuration is laid out once per swept value with
+ * {@link useLayoutBatch} and swept again shortly after any input changes.
+ * The frame shown can be scrubbed or played back, which stops on the last
+ * frame.
+ *
+ * @param config - The playground configuration to sweep.
+ * @param previewSize - Canvas size of the preview.
+ * @param rootSizing - Sizing mode of each root axis.
+ * @param selectedPath - Path of the selected item, for item settings.
+ * @param enabled - Whether sweep mode is on.
+ * @returns Sweep settings, the laid out frames, and playback state.
+ *
+ * @example
+ * const sweep = useLayoutSweep(
+ *   config,
+ *   previewSize,
+ *   rootSizing,
+ *   selectedPath,
+ *   sweepOpen,
+ * );
+ */
+export function useLayoutSweep(
+  config: DemoConfig,
+  previewSize: { width: number; height: number },
+  rootSizing: RootSizing,
+  selectedPath: ItemPath | null,
+  enabled: boolean,
+) {
+  const [settings, setSettings] = useState<SweepSettings>(
+    DEFAULT_SWEEP_SETTINGS,
+  );
+  const [frameIndex, setFrameIndex] = useState(0);
+  const [playing, setPlaying] = useState(false);
+
+  const built = useMemo(
+    () =>
+      enabled
+        ? buildSweepFrames(config, previewSize, settings, selectedPath)
+        : null,
+    [enabled, config, previewSize, settings, selectedPath],
+  );
+  const batch = useMemo(
+    () =>
+      built?.value
+        ? { frames: built.value.frames, data: built.value.values }
+        : null,
+    [built],
+  );
+  const laidOut = useLayoutBatch(batch, rootSizing, enabled);
+
+  const result = useMemo<SweepResult | null>(() => {
+    if (!laidOut.result) return null;
+    const { frames, layouts, data, time } = laidOut.result;
+    return {
+      values: data,
+      sizes: frames.map((frame) => frame.size),
+      frames: layouts,
+      series: collectSweepSeries(layouts),
+      breakpoints: findSweepBreakpoints(layouts),
+      time,
+    };
+  }, [laidOut.result]);
+  const error = built?.error ?? laidOut.error;
+
+  useEffect(() => {
+    if (!enabled) setPlaying(false);
+  }, [enabled]);
+
+  const frameCount = result?.frames.length ?? 0;
+  const index = Math.min(frameIndex, Math.max(0, frameCount - 1));
+
+  useEffect(() => {
+    if (!playing) return undefined;
+    if (index >= frameCount - 1) {
+      setPlaying(false);
+      return undefined;
+    }
+    const timer = setTimeout(
+      () => setFrameIndex(index + 1),
+      SWEEP_FRAME_INTERVAL,
+    );
+    return () => clearTimeout(timer);
+  }, [playing, index, frameCount]);
+
+  /**
+   * Starts or pauses playback; playing from the last frame starts over.
+   */
+  const togglePlay = useCallback(() => {
+    if (playing) {
+      setPlaying(false);
+      return;
+    }
+    if (index >= frameCount - 1) setFrameIndex(0);
+    setPlaying(true);
+  }, [playing, index, frameCount]);
+
+  const frame =
+    enabled && result && frameCount > 0
+      ? {
+          nodes: result.frames[index],
+          size: result.sizes[index],
+          value: result.values[index],
+        }
+      : null;
+
+  return {
+    settings,
+    setSettings,
+    result,
+    error,
+    computing: laidOut.computing,
+    frameIndex: index,
+    setFrameIndex,
+    frame,
+    playing,
+    togglePlay,
+  };
+}
@@ -3,20 +3,42 @@
  * @description Hook for managing the playground's configuration state (container, items, etc.).
  */
 
-import { useState, useCallback } from "react";
+import { useState, useCallback, type SetStateAction } from "react";
 import {
   DemoConfig,
+  DemoItem,
+  ItemPath,
   PRESETS,
   cloneConfig,
   defaultItem,
 } from "@/features/playground/components/PlaygroundConfig";
+import {
+  addItemAtPath,
+  getItemAtPath,
+  formatPath,
+  moveItemAtPath,
+  removeItemAtPath,
+  updateItemAtPath,
+  type MoveDirection,
+} from "@/features/playground/lib/tree";
+import {
+  createHistory,
+  describeConfigChange,
+  jumpHistory,
+  pushHistory,
+} from "@/features/playground/lib/history";
+import { isCustomPresetKey } from "@/features/playground/lib/customPresets";
 
 /**
  * Hook to manage playground configuration state and updates.
  *
  * Provides state for the current configuration, the active preset key,
- * and callback functions to update various parts of the configuration
- * including container, flex, grid, and item count.
+ * the selected item path, and callback functions to update various parts of
+ * the configuration including container, flex, grid, item count, and the
+ * nested item tree.
+ *
+ * Every change is recorded in a bounded undo/redo history. Rapid edits of the
+ * same fields (e.g. dragging a slider) are coalesced into a single step.
  *
  * @example
  * const {
@@ -27,16 +49,80 @@ import {
  *   updateFlex,
  *   updateGrid,
  *   updateItemCount,
+ *   selectedPath,
+ *   setSelectedPath,
+ *   updateItem,
+ *   addItem,
+ *   removeItem,
+ *   moveItem,
+ *   restoreConfig,
+ *   commitEdit,
  *   handlePresetChange,
+ *   history,
+ *   canUndo,
+ *   canRedo,
+ *   undo,
+ *   redo,
+ *   jumpToHistory,
  * } = usePlaygroundConfig();
  *
  * @returns An object containing the configuration state and update functions.
  */
 export function usePlaygroundConfig() {
-  const [presetKey, setPresetKey] =
-    useState<keyof typeof PRESETS>("flexBetween");
-  const [config, setConfig] = useState<DemoConfig>(
-    cloneConfig(PRESETS.flexBetween.config),
+  const [history, setHistory] = useState(() =>
+    createHistory(
+      cloneConfig(PRESETS.flexBetween.config),
+      "flexBetween",
+      `Preset · ${PRESETS.flexBetween.name}`,
+    ),
+  );
+  const { config, presetKey } = history.entries[history.index];
+  const [selectedPath, setSelectedPath] = useState<ItemPath | null>(null);
+
+  // Drop the selection when its item no longer exists (derive state during render)
+  if (selectedPath !== null && !getItemAtPath(config, selectedPath)) {
+    setSelectedPath(null);
+  }
+
+  /**
+   * Applies a configuration change and records it in the history.
+   *
+   * @param action - Next configuration or an updater function.
+   * @param label - Description for the history list. When omitted, the label
+   * is derived from the changed fields and the change may coalesce with the
+   * previous one.
+   * @param nextKey - Preset key to record; defaults to the current one.
+   */
+  const commitConfig = useCallback(
+    (action: SetStateAction<DemoConfig>, label?: string, nextKey?: string) => {
+      const time = Date.now();
+      setHistory((prev) => {
+        const present = prev.entries[prev.index];
+        const next =
+          typeof action === "function" ? action(present.config) : action;
+        if (next === present.config) return prev;
+        const change = describeConfigChange(present.config, next);
+        if (label === undefined && change.coalesceKey === null) return prev;
+        return pushHistory(prev, {
+          config: next,
+          presetKey: nextKey ?? present.presetKey,
+          label: label ?? change.label,
+          coalesceKey: label === undefined ? change.coalesceKey : null,
+          time,
+        });
+      });
+    },
+    [],
+  );
+
+  /**
+   * Sets the configuration directly, recording the change in the history.
+   *
+   * @param action - Next configuration or an updater function.
+   */
+  const setConfig = useCallback(
+    (action: SetStateAction<DemoConfig>) => commitConfig(action),
+    [commitConfig],
   );
 
   /**
@@ -46,12 +132,12 @@ export function usePlaygroundConfig() {
    */
   const updateContainer = useCallback(
     (patch: Partial<DemoConfig["container"]>) => {
-      setConfig((prev) => ({
+      commitConfig((prev) => ({
         ...prev,
         container: { ...prev.container, ...patch },
       }));
     },
-    [],
+    [commitConfig],
   );
 
   /**
@@ -61,7 +147,7 @@ export function usePlaygroundConfig() {
    */
   const updateFlex = useCallback(
     (patch: Partial<DemoConfig["container"]["flex"]>) => {
-      setConfig((prev) => ({
+      commitConfig((prev) => ({
         ...prev,
         container: {
           ...prev.container,
@@ -69,7 +155,7 @@ export function usePlaygroundConfig() {
         },
       }));
     },
-    [],
+    [commitConfig],
   );
 
   /**
@@ -79,7 +165,7 @@ export function usePlaygroundConfig() {
    */
   const updateGrid = useCallback(
     (patch: Partial<DemoConfig["container"]["grid"]>) => {
-      setConfig((prev) => ({
+      commitConfig((prev) => ({
         ...prev,
         container: {
           ...prev.container,
@@ -87,7 +173,7 @@ export function usePlaygroundConfig() {
         },
       }));
     },
-    [],
+    [commitConfig],
   );
 
   /**
@@ -97,29 +183,163 @@ export function usePlaygroundConfig() {
    *
    * @param count - The desired number of items (minimum 1).
    */
-  const updateItemCount = useCallback((count: number) => {
-    setConfig((prev) => {
-      const nextCount = Math.max(1, count);
-      const items = [...prev.items];
-      if (nextCount > items.length) {
-        for (let i = items.length; i < nextCount; i += 1) {
-          items.push({ ...defaultItem });
+  const updateItemCount = useCallback(
+    (count: number) => {
+      commitConfig((prev) => {
+        const nextCount = Math.max(1, count);
+        const items = [...prev.items];
+        if (nextCount > items.length) {
+          for (let i = items.length; i < nextCount; i += 1) {
+            items.push({ ...defaultItem });
+          }
+        } else if (nextCount < items.length) {
+          items.splice(nextCount);
         }
-      } else if (nextCount < items.length) {
-        items.splice(nextCount);
-      }
-      return { ...prev, items };
-    });
-  }, []);
+        return { ...prev, items };
+      });
+    },
+    [commitConfig],
+  );
+
+  /**
+   * Updates properties of the selected item with a partial patch.
+   *
+   * @param patch - Partial item properties to merge.
+   */
+  const updateItem = useCallback(
+    (patch: Partial<DemoItem>) => {
+      if (selectedPath === null) return;
+      commitConfig((prev) =>
+        updateItemAtPath(prev, selectedPath, (item) => ({ ...item, ...patch })),
+      );
+    },
+    [selectedPath, commitConfig],
+  );
+
+  /**
+   * Appends a new item to a container and selects it.
+   *
+   * A leaf item becomes a container when a child is added to it.
+   *
+   * @param parentPath - Path of the container, or `[]` for the root.
+   */
+  const addItem = useCallback(
+    (parentPath: ItemPath) => {
+      const result = addItemAtPath(config, parentPath);
+      commitConfig(result.config, `Add item ${formatPath(result.path)}`);
+      setSelectedPath(result.path);
+    },
+    [config, commitConfig],
+  );
+
+  /**
+   * Removes an item and its descendants.
+   *
+   * The root layout always keeps at least one item.
+   *
+   * @param path - Path of the item to remove.
+   */
+  const removeItem = useCallback(
+    (path: ItemPath) => {
+      if (path.length === 1 && config.items.length <= 1) return;
+      commitConfig(
+        removeItemAtPath(config, path),
+        `Remove item ${formatPath(path)}`,
+      );
+      setSelectedPath(null);
+    },
+    [config, commitConfig],
+  );
+
+  /**
+   * Reorders or reparents an item and keeps it selected.
+   *
+   * @param path - Path of the item to move.
+   * @param direction - Kind of move to perform.
+   */
+  const moveItem = useCallback(
+    (path: ItemPath, direction: MoveDirection) => {
+      const result = moveItemAtPath(config, path, direction);
+      if (!result) return;
+      commitConfig(result.config, `Move item ${formatPath(path)} ${direction}`);
+      setSelectedPath(result.path);
+    },
+    [config, commitConfig],
+  );
+
+  /**
+   * Replaces the configuration with externally loaded state, e.g. from a
+   * shared link.
+   *
+   * @param nextConfig - The configuration to load.
+   * @param nextKey - The built-in or custom preset key the configuration
+   * started from.
+   * @param label - Description for the history list.
+   */
+  const restoreConfig = useCallback(
+    (nextConfig: DemoConfig, nextKey: string, label = "Load shared link") => {
+      commitConfig(
+        cloneConfig(nextConfig),
+        label,
+        Object.hasOwn(PRESETS, nextKey) || isCustomPresetKey(nextKey)
+          ? nextKey
+          : "flexBetween",
+      );
+      setSelectedPath(null);
+    },
+    [commitConfig],
+  );
+
+  /**
+   * Records a finished edit, such as a drag in the preview, as a single
+   * history entry that never coalesces.
+   *
+   * @param nextConfig - Configuration after the edit.
+   * @param label - Description for the history list.
+   */
+  const commitEdit = useCallback(
+    (nextConfig: DemoConfig, label: string) => commitConfig(nextConfig, label),
+    [commitConfig],
+  );
 
   /**
    * Switches to a different preset configuration.
    *
    * @param nextKey - The preset key to load.
    */
-  const handlePresetChange = useCallback((nextKey: keyof typeof PRESETS) => {
-    setPresetKey(nextKey);
-    setConfig(cloneConfig(PRESETS[nextKey].config));
+  const handlePresetChange = useCallback(
+    (nextKey: keyof typeof PRESETS) => {
+      commitConfig(
+        cloneConfig(PRESETS[nextKey].config),
+        `Preset · ${PRESETS[nextKey].name}`,
+        nextKey,
+      );
+      setSelectedPath(null);
+    },
+    [commitConfig],
+  );
+
+  /**
+   * Steps back to the previous history entry.
+   */
+  const undo = useCallback(() => {
+    setHistory((prev) => jumpHistory(prev, prev.index - 1));
+  }, []);
+
+  /**
+   * Steps forward to the next history entry.
+   */
+  const redo = useCallback(() => {
+    setHistory((prev) => jumpHistory(prev, prev.index + 1));
+  }, []);
+
+  /**
+   * Jumps to an entry of the history list.
+   *
+   * @param index - Index of the history entry.
+   */
+  const jumpToHistory = useCallback((index: number) => {
+    setHistory((prev) => jumpHistory(prev, index));
   }, []);
 
   return {
@@ -130,6 +350,20 @@ export function usePlaygroundConfig() {
     updateFlex,
     updateGrid,
     updateItemCount,
+    selectedPath,
+    setSelectedPath,
+    updateItem,
+    addItem,
+    removeItem,
+    moveItem,
+    restoreConfig,
+    commitEdit,
     handlePresetChange,
+    history,
+    canUndo: history.index > 0,
+    canRedo: history.index < history.entries.length - 1,
+    undo,
+    redo,
+    jumpToHistory,
   };
 }
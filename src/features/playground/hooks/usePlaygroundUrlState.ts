@@ -0,0 +1,167 @@
+/**
+ * @module features/playground/hooks/usePlaygroundUrlState
+ * @description Hook for syncing the playground state with the URL hash so
+ * layouts can be shared as links.
+ */
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  buildShareHash,
+  decodeShareState,
+  encodeShareState,
+  readSharePayload,
+  type SharedPlaygroundState,
+} from "@/features/playground/lib/shareState";
+import { ShareStateError } from "@/features/playground/lib/errors";
+import { reportError } from "@/features/code/lib/errors";
+
+/**
+ * Delay before the URL hash is rewritten after a state change.
+ */
+const HASH_UPDATE_DELAY = 300;
+
+/**
+ * Hook to restore playground state from the URL hash and keep the hash in
+ * sync with later edits.
+ *
+ * On mount (and whenever the hash is changed by the user) the encoded state
+ * is decoded and handed to `onRestore`. Malformed or unsupported payloads
+ * leave the current state untouched and surface a readable `shareError`;
+ * the failing hash is kept in the address bar until the layout is edited, so
+ * it can still be copied or reported. Once restoration has settled, every
+ * state change rewrites the hash via `history.replaceState`, so the address
+ * bar always holds a shareable link.
+ *
+ * @param state - Current playground state to encode.
+ * @param onRestore - Called with the decoded state from the URL.
+ * @returns Object containing shareError, dismissShareError, and getShareUrl.
+ *
+ * @example
+ * const { shareError, getShareUrl } = usePlaygroundUrlState(
+ *   { config, previewScale, rootSizing, presetKey },
+ *   restoreState,
+ * );
+ */
+export function usePlaygroundUrlState(
+  state: SharedPlaygroundState,
+  onRestore: (state: SharedPlaygroundState) => void,
+) {
+  const [restored, setRestored] = useState(false);
+  const [shareError, setShareError] = useState<string | null>(null);
+  const onRestoreRef = useRef(onRestore);
+  const lastHashRef = useRef<string | null>(null);
+  const stateRef = useRef(state);
+  // State shown when a link failed to load; the hash is kept until it changes
+  const heldStateRef = useRef<SharedPlaygroundState | null>(null);
+
+  useEffect(() => {
+    onRestoreRef.current = onRestore;
+  }, [onRestore]);
+
+  useEffect(() => {
+    stateRef.current = state;
+  });
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const restoreFromHash = () => {
+      const payload = readSharePayload(window.location.hash);
+      if (!payload || window.location.hash === lastHashRef.current) {
+        setRestored(true);
+        return;
+      }
+
+      decodeShareState(payload)
+        .then((decoded) => {
+          if (cancelled) return;
+          heldStateRef.current = null;
+          setShareError(null);
+          onRestoreRef.current(decoded);
+        })
+        .catch((err) => {
+          if (cancelled) return;
+          if (!(err instanceof ShareStateError)) {
+            reportError(err, "PlaygroundUrlState");
+          }
+          heldStateRef.current = stateRef.current;
+          setShareError(
+            err instanceof ShareStateError
+              ? err.message
+              : "The shared link could not be loaded.",
+          );
+        })
+        .finally(() => {
+          if (!cancelled) setRestored(true);
+        });
+    };
+
+    restoreFromHash();
+    window.addEventListener("hashchange", restoreFromHash);
+
+    return () => {
+      cancelled = true;
+      window.removeEventListener("hashchange", restoreFromHash);
+    };
+  }, []);
+
+  const { config, previewScale, rootSizing, presetKey } = state;
+
+  useEffect(() => {
+    if (!restored) return undefined;
+    const held = heldStateRef.current;
+    if (held) {
+      if (
+        held.config === config &&
+        held.previewScale === previewScale &&
+        held.rootSizing === rootSizing &&
+        held.presetKey === presetKey
+      ) {
+        return undefined;
+      }
+      heldStateRef.current = null;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      encodeShareState({ config, previewScale, rootSizing, presetKey })
+        .then((payload) => {
+          if (cancelled) return;
+          const hash = buildShareHash(payload);
+          lastHashRef.current = hash;
+          window.history.replaceState(window.history.state, "", hash);
+        })
+        .catch((err) => reportError(err, "PlaygroundUrlState"));
+    }, HASH_UPDATE_DELAY);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [restored, config, previewScale, rootSizing, presetKey]);
+
+  /**
+   * Builds an absolute link to the current playground state.
+   *
+   * @returns Shareable URL including the encoded state hash.
+   */
+  const getShareUrl = useCallback(async () => {
+    const payload = await encodeShareState({
+      config,
+      previewScale,
+      rootSizing,
+      presetKey,
+    });
+    const url = new URL(window.location.href);
+    url.hash = buildShareHash(payload);
+    return url.toString();
+  }, [config, previewScale, rootSizing, presetKey]);
+
+  const dismissShareError = useCallback(() => setShareError(null), []);
+
+  return {
+    shareError,
+    dismissShareError,
+    getShareUrl,
+  };
+}
@@ -0,0 +1,336 @@
+/**
+ * @module features/playground/hooks/usePreviewDrag
+ * @description Hook for direct manipulation in the preview: dragging items to
+ * reorder them and dragging edge handles to resize them.
+ */
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import type React from "react";
+import {
+  type DemoConfig,
+  type DemoItem,
+  type ItemPath,
+  type LayoutNode,
+} from "@/features/playground/components/PlaygroundConfig";
+import {
+  formatPath,
+  getItemAtPath,
+  getLayoutAtPath,
+  reorderItemAtPath,
+  updateItemAtPath,
+} from "@/features/playground/lib/tree";
+
+/**
+ * Distance in pixels the pointer must travel before a press becomes a drag.
+ */
+const DRAG_THRESHOLD = 4;
+
+/**
+ * Edge handle of a selected item.
+ */
+export type ResizeEdge = "right" | "bottom" | "corner";
+
+/**
+ * Options for the usePreviewDrag hook.
+ */
+interface PreviewDragOptions {
+  /** Committed playground configuration. */
+  config: DemoConfig;
+  /** Called with the in-progress configuration, or null when a drag ends. */
+  onDraftChange: (config: DemoConfig | null) => void;
+  /** Records the finished drag as a single edit. */
+  commitEdit: (config: DemoConfig, label: string) => void;
+  /** Selects an item, used to follow the dragged item to its new path. */
+  setSelectedPath: (path: ItemPath | null) => void;
+}
+
+/**
+ * State of an active pointer interaction.
+ */
+interface DragSession {
+  /** Kind of interaction. */
+  kind: "move" | "resize";
+  /** Path of the dragged item. */
+  path: ItemPath;
+  /** Pointer position when the interaction started. */
+  startX: number;
+  /** Pointer position when the interaction started. */
+  startY: number;
+  /** Whether the pointer passed the drag threshold. */
+  active: boolean;
+  /** Resize edge, for resize interactions. */
+  edge?: ResizeEdge;
+  /** Computed size of the item when the resize started. */
+  startSize?: { width: number; height: number };
+  /**
+   * Client-space centers of the item and its shown siblings, with their item
+   * index; hidden items have no element and no slot.
+   */
+  slots?: { index: number; x: number; y: number }[];
+  /** Latest draft configuration and item path. */
+  draft?: { config: DemoConfig; path: ItemPath };
+}
+
+/**
+ * Builds the item patch for a resize drag. In a flex container the main
+ * axis edits `flexBasis` when the item has an explicit basis; every other
+ * axis edits `width` or `height`.
+ *
+ * @param config - Committed configuration.
+ * @param path - Path of the resized item.
+ * @param axis - Axis being resized.
+ * @param size - New size in pixels.
+ * @returns Item patch.
+ */
+const resizePatch = (
+  config: DemoConfig,
+  path: ItemPath,
+  axis: "width" | "height",
+  size: number,
+): Partial<DemoItem> => {
+  const item = getItemAtPath(config, path);
+  const parent = getLayoutAtPath(config, path.slice(0, -1));
+  const direction = parent?.container.flex.direction;
+  const mainAxis =
+    direction === "column" || direction === "columnReverse"
+      ? "height"
+      : "width";
+
+  if (
+    parent?.displayMode === "flex" &&
+    axis === mainAxis &&
+    item &&
+    item.flexBasis !== "auto"
+  ) {
+    return { flexBasis: size };
+  }
+  return { [axis]: size };
+};
+
+/**
+ * Hook that turns pointer drags in the preview into configuration edits.
+ *
+ * While a drag is in progress the updated configuration is reported through
+ * `onDraftChange` so the layout can be recomputed live; releasing the
+ * pointer commits the result once through `commitEdit`. Pressing Escape or
+ * a cancelled pointer discards the draft.
+ *
+ * @param options - Configuration and callbacks.
+ * @returns Handlers for starting drags, the dragging flag, and a helper that
+ * swallows the click fired at the end of a drag.
+ *
+ * @example
+ * const { dragging, startMove, startResize, consumeDragClick } = usePreviewDrag({
+ *   config,
+ *   onDraftChange: setDraftConfig,
+ *   commitEdit,
+ *   setSelectedPath,
+ * });
+ */
+export function usePreviewDrag({
+  config,
+  onDraftChange,
+  commitEdit,
+  setSelectedPath,
+}: PreviewDragOptions) {
+  const [dragging, setDragging] = useState(false);
+  const sessionRef = useRef<DragSession | null>(null);
+  const suppressClickRef = useRef(false);
+  const optionsRef = useRef({
+    config,
+    onDraftChange,
+    commitEdit,
+    setSelectedPath,
+  });
+
+  useEffect(() => {
+    optionsRef.current = {
+      config,
+      onDraftChange,
+      commitEdit,
+      setSelectedPath,
+    };
+  }, [config, onDraftChange, commitEdit, setSelectedPath]);
+
+  const updateDraft = useCallback((event: PointerEvent) => {
+    const session = sessionRef.current;
+    if (!session) return;
+    const { config: current, onDraftChange: report } = optionsRef.current;
+    const dx = event.clientX - session.startX;
+    const dy = event.clientY - session.startY;
+
+    if (!session.active) {
+      if (Math.hypot(dx, dy) < DRAG_THRESHOLD) return;
+      session.active = true;
+      setDragging(true);
+    }
+
+    if (session.kind === "resize" && session.startSize) {
+      const { edge = "corner", startSize } = session;
+      let next = current;
+      if (edge !== "bottom") {
+        const width = Math.max(0, Math.round(startSize.width + dx));
+        const patch = resizePatch(current, session.path, "width", width);
+        next = updateItemAtPath(next, session.path, (item) => ({
+          ...item,
+          ...patch,
+        }));
+      }
+      if (edge !== "right") {
+        const height = Math.max(0, Math.round(startSize.height + dy));
+        const patch = resizePatch(current, session.path, "height", height);
+        next = updateItemAtPath(next, session.path, (item) => ({
+          ...item,
+          ...patch,
+        }));
+      }
+      session.draft = { config: next, path: session.path };
+      report(next);
+      return;
+    }
+
+    const slots = session.slots ?? [];
+    let target = session.path[session.path.length - 1];
+    let best = Infinity;
+    slots.forEach((slot) => {
+      const distance = Math.hypot(
+        event.clientX - slot.x,
+        event.clientY - slot.y,
+      );
+      if (distance < best) {
+        best = distance;
+        target = slot.index;
+      }
+    });
+    session.draft = reorderItemAtPath(current, session.path, target);
+    report(session.draft.config);
+  }, []);
+
+  const finish = useCallback((commit: boolean) => {
+    const session = sessionRef.current;
+    sessionRef.current = null;
+    if (!session?.active) return;
+
+    const {
+      config: current,
+      onDraftChange: report,
+      commitEdit: commitChange,
+      setSelectedPath: select,
+    } = optionsRef.current;
+    suppressClickRef.current = true;
+    setDragging(false);
+    report(null);
+
+    if (!commit || !session.draft || session.draft.config === current) return;
+    const label =
+      session.kind === "resize"
+        ? `Resize item ${formatPath(session.path)}`
+        : `Move item ${formatPath(session.path)} to ${formatPath(session.draft.path)}`;
+    commitChange(session.draft.config, label);
+    select(session.draft.path);
+  }, []);
+
+  useEffect(() => {
+    const handlePointerUp = () => finish(true);
+    const handlePointerCancel = () => finish(false);
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape" && sessionRef.current) finish(false);
+    };
+
+    window.addEventListener("pointermove", updateDraft);
+    window.addEventListener("pointerup", handlePointerUp);
+    window.addEventListener("pointercancel", handlePointerCancel);
+    window.addEventListener("keydown", handleKeyDown);
+    return () => {
+      window.removeEventListener("pointermove", updateDraft);
+      window.removeEventListener("pointerup", handlePointerUp);
+      window.removeEventListener("pointercancel", handlePointerCancel);
+      window.removeEventListener("keydown", handleKeyDown);
+    };
+  }, [updateDraft, finish]);
+
+  /**
+   * Starts a potential reorder drag on an item element. Sibling positions
+   * are captured up front so the drop slots stay stable while the layout
+   * updates underneath the pointer.
+   *
+   * @param event - Pointer event on the item element.
+   * @param path - Path of the item.
+   */
+  const startMove = useCallback(
+    (event: React.PointerEvent<HTMLElement>, path: ItemPath) => {
+      suppressClickRef.current = false;
+      // Nested items bubble the same event; the innermost one wins
+      if (event.button !== 0 || sessionRef.current) return;
+      const siblings = Array.from(
+        event.currentTarget.parentElement?.children ?? [],
+      ).filter((element) => element.hasAttribute("data-item-index"));
+      sessionRef.current = {
+        kind: "move",
+        path,
+        startX: event.clientX,
+        startY: event.clientY,
+        active: false,
+        slots: siblings.map((element) => {
+          const rect = element.getBoundingClientRect();
+          return {
+            index: Number(element.getAttribute("data-item-index")),
+            x: rect.left + rect.width / 2,
+            y: rect.top + rect.height / 2,
+          };
+        }),
+      };
+    },
+    [],
+  );
+
+  /**
+   * Starts a resize drag from an edge handle. The handle sits inside the
+   * item, so the item's own move handler sees the session and stays idle.
+   *
+   * @param event - Pointer event on the handle.
+   * @param path - Path of the item.
+   * @param node - Computed layout of the item.
+   * @param edge - Handle being dragged.
+   */
+  const startResize = useCallback(
+    (
+      event: React.PointerEvent<HTMLElement>,
+      path: ItemPath,
+      node: LayoutNode,
+      edge: ResizeEdge,
+    ) => {
+      suppressClickRef.current = false;
+      if (event.button !== 0) return;
+      sessionRef.current = {
+        kind: "resize",
+        path,
+        edge,
+        startX: event.clientX,
+        startY: event.clientY,
+        active: false,
+        startSize: { width: node.width, height: node.height },
+      };
+    },
+    [],
+  );
+
+  /**
+   * Reports whether a click should be ignored because it ended a drag, and
+   * resets the flag.
+   *
+   * @returns True for the click that follows a drag.
+   */
+  const consumeDragClick = useCallback(() => {
+    const suppress = suppressClickRef.current;
+    suppressClickRef.current = false;
+    return suppress;
+  }, []);
+
+  return {
+    dragging,
+    startMove,
+    startResize,
+    consumeDragClick,
+  };
+}
@@ -0,0 +1,79 @@
+/**
+ * @module features/playground/hooks/useReferenceLayouts
+ * @description Hook laying out the playground configuration with the
+ * reference engines of compare mode.
+ */
+
+import { useEffect, useState } from "react";
+import {
+  type DemoConfig,
+  type RootSizing,
+} from "@/features/playground/components/PlaygroundConfig";
+import { reportError } from "@/features/code/lib/errors";
+import type { ReferenceLayout } from "@/features/playground/lib/referenceLayout";
+
+/**
+ * Reason shown for the reference engines when the root is not sized to the
+ * canvas, since they are laid out at the canvas size.
+ */
+const INTRINSIC_ROOT_REASON =
+  "Reference layouts need a definite root; set both root axes to Definite.";
+
+/**
+ * Hook to compute the browser and Yoga layouts of a configuration.
+ *
+ * The reference engines are only loaded once compare mode is first turned
+ * on, so Yoga stays out of the playground's initial bundle. Layouts are
+ * recomputed whenever the configuration or preview size changes. The
+ * references always lay the root out at the canvas size, so they are
+ * skipped while a root axis uses another sizing mode.
+ *
+ * @param config - The playground configuration to lay out.
+ * @param previewSize - Size of the root container.
+ * @param rootSizing - Sizing mode of each root axis.
+ * @param enabled - Whether compare mode is on.
+ * @returns Reference layouts, or an empty list while disabled or loading.
+ *
+ * @example
+ * const references = useReferenceLayouts(
+ *   config,
+ *   previewSize,
+ *   rootSizing,
+ *   compareMode,
+ * );
+ */
+export function useReferenceLayouts(
+  config: DemoConfig,
+  previewSize: { width: number; height: number },
+  rootSizing: RootSizing,
+  enabled: boolean,
+) {
+  const [references, setReferences] = useState<ReferenceLayout[]>([]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    if (rootSizing.width !== "definite" || rootSizing.height !== "definite") {
+      setReferences([
+        { engine: "browser", root: null, error: INTRINSIC_ROOT_REASON },
+        { engine: "yoga", root: null, error: INTRINSIC_ROOT_REASON },
+      ]);
+      return;
+    }
+    let cancelled = false;
+    import("@/features/playground/lib/referenceLayout")
+      .then(({ layoutWithBrowser, layoutWithYoga }) => {
+        if (cancelled) return;
+        setReferences([
+          layoutWithBrowser(config, previewSize),
+          layoutWithYoga(config, previewSize),
+        ]);
+      })
+      .catch((err) => reportError(err, "Playground"));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [config, previewSize, rootSizing, enabled]);
+
+  return enabled ? references : [];
+}
@@ -0,0 +1,56 @@
+/**
+ * @module features/playground/hooks/useStoredState
+ * @description Hook for state loaded from and written back to localStorage.
+ */
+
+import { useEffect, useRef, useState } from "react";
+import { reportError } from "@/features/code/lib/errors";
+
+/**
+ * Hook to keep a value in localStorage.
+ *
+ * The value is loaded once on mount, falling back when storage is
+ * unavailable or damaged, and written back after every change. A loaded
+ * value is not written straight back, so a damaged entry is kept until the
+ * user changes the value.
+ *
+ * @param load - Loads the stored value; may throw.
+ * @param save - Stores a value; may throw.
+ * @param fallback - Value used when loading fails.
+ * @returns The value and its setter, as from `useState`.
+ *
+ * @example
+ * const [viewports, setViewports] = useStoredState(
+ *   loadViewports,
+ *   saveViewports,
+ *   DEFAULT_VIEWPORTS,
+ * );
+ */
+export function useStoredState<T>(
+  load: () => T,
+  save: (value: T) => void,
+  fallback: T,
+) {
+  const [value, setValue] = useState<T>(() => {
+    try {
+      return load();
+    } catch (err) {
+      reportError(err, "Playground");
+      return fallback;
+    }
+  });
+  // Last value written or loaded
+  const storedRef = useRef(value);
+
+  useEffect(() => {
+    if (value === storedRef.current) return;
+    storedRef.current = value;
+    try {
+      save(value);
+    } catch (err) {
+      reportError(err, "Playground");
+    }
+  }, [value, save]);
+
+  return [value, setValue] as const;
+}
@@ -0,0 +1,66 @@
+/**
+ * @module features/playground/hooks/useUndoShortcuts
+ * @description Hook for binding the undo/redo keyboard shortcuts.
+ */
+
+import { useEffect } from "react";
+
+/**
+ * Input types that keep their own native undo behaviour.
+ */
+const TEXT_INPUT_TYPES = new Set([
+  "text",
+  "number",
+  "search",
+  "email",
+  "url",
+  "tel",
+  "password",
+]);
+
+/**
+ * Checks whether a keyboard event target edits text, in which case the
+ * browser's own undo should win.
+ *
+ * @param target - Event target.
+ * @returns True for text fields, textareas, and editable content.
+ */
+const isTextTarget = (target: EventTarget | null) => {
+  if (!(target instanceof HTMLElement)) return false;
+  if (target.isContentEditable || target instanceof HTMLTextAreaElement) {
+    return true;
+  }
+  return (
+    target instanceof HTMLInputElement && TEXT_INPUT_TYPES.has(target.type)
+  );
+};
+
+/**
+ * Hook to call `undo` on Ctrl/Cmd+Z and `redo` on Ctrl/Cmd+Shift+Z or
+ * Ctrl/Cmd+Y, except while a text field has focus.
+ *
+ * @param undo - Called for the undo shortcut.
+ * @param redo - Called for the redo shortcut.
+ *
+ * @example
+ * useUndoShortcuts(undo, redo);
+ */
+export function useUndoShortcuts(undo: () => void, redo: () => void) {
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey) return;
+      const key = event.key.toLowerCase();
+      if ((key !== "z" && key !== "y") || isTextTarget(event.target)) return;
+
+      event.preventDefault();
+      if (key === "y" || event.shiftKey) {
+        redo();
+      } else {
+        undo();
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [undo, redo]);
+}
@@ -0,0 +1,177 @@
+/**
+ * @module features/playground/hooks/useViewports
+ * @description Hook laying out the playground configuration at several
+ * viewport sizes, with the viewport list persisted in localStorage.
+ */
+
+import { useCallback, useMemo } from "react";
+import {
+  type DemoConfig,
+  type LayoutNode,
+  type RootSizing,
+} from "@/features/playground/components/PlaygroundConfig";
+import { useLayoutBatch } from "@/features/playground/hooks/useLayoutBatch";
+import { useStoredState } from "@/features/playground/hooks/useStoredState";
+import {
+  collectLayoutShapes,
+  isSameShape,
+  type LayoutShape,
+} from "@/features/playground/lib/sweep";
+import {
+  DEFAULT_VIEWPORTS,
+  MAX_VIEWPORTS,
+  clampViewportSize,
+  loadViewports,
+  saveViewports,
+  type Viewport,
+} from "@/features/playground/lib/viewports";
+import { createStoredId } from "@/features/playground/lib/storage";
+
+/**
+ * Layout of one viewport.
+ */
+export interface ViewportLayout {
+  /** Root layout nodes. */
+  nodes: LayoutNode[];
+  /** Canvas size the nodes were laid out at. */
+  size: { width: number; height: number };
+  /** Shapes of the grid and wrapping flex containers, by container path. */
+  shapes: Map<string, LayoutShape>;
+}
+
+/**
+ * Hook to compare the configuration across viewport sizes.
+ *
+ * While enabled, the configuration is laid out once per viewport with
+ * {@link useLayoutBatch}, and again shortly after the configuration or a
+ * viewport size changes. The containers whose shape differs between the
+ * viewports are collected so the breakpoints stand out.
+ *
+ * @param config - The playground configuration to lay out.
+ * @param rootSizing - Sizing mode of each root axis.
+ * @param enabled - Whether viewport mode is on.
+ * @returns The viewports, callbacks to change them, and their layouts.
+ *
+ * @example
+ * const viewports = useViewports(config, rootSizing, viewportsOpen);
+ */
+export function useViewports(
+  config: DemoConfig,
+  rootSizing: RootSizing,
+  enabled: boolean,
+) {
+  const [viewports, setViewports] = useStoredState(
+    loadViewports,
+    saveViewports,
+    DEFAULT_VIEWPORTS,
+  );
+
+  /**
+   * Adds a viewport at the end of the list, unless the list is full.
+   *
+   * @param viewport - Name and size of the new viewport.
+   */
+  const addViewport = useCallback((viewport: Omit<Viewport, "id">) => {
+    setViewports((current) =>
+      current.length >= MAX_VIEWPORTS
+        ? current
+        : [...current, { ...viewport, id: createStoredId() }],
+    );
+  }, []);
+
+  /**
+   * Changes the name or size of a viewport. Sizes are clamped to the
+   * supported range.
+   *
+   * @param id - Viewport id.
+   * @param patch - Fields to replace.
+   */
+  const updateViewport = useCallback(
+    (id: string, patch: Partial<Omit<Viewport, "id">>) => {
+      setViewports((current) =>
+        current.map((viewport) => {
+          if (viewport.id !== id) return viewport;
+          const next = { ...viewport, ...patch };
+          return {
+            ...next,
+            width: clampViewportSize(next.width),
+            height: clampViewportSize(next.height),
+          };
+        }),
+      );
+    },
+    [],
+  );
+
+  /**
+   * Removes a viewport.
+   *
+   * @param id - Viewport id.
+   */
+  const removeViewport = useCallback((id: string) => {
+    setViewports((current) => current.filter((viewport) => viewport.id !== id));
+  }, []);
+
+  /**
+   * Restores the phone, tablet and desktop viewports.
+   */
+  const resetViewports = useCallback(() => {
+    setViewports(DEFAULT_VIEWPORTS);
+  }, []);
+
+  const batch = useMemo(
+    () =>
+      enabled && viewports.length > 0
+        ? {
+            frames: viewports.map(({ width, height }) => ({
+              config,
+              size: { width, height },
+            })),
+            data: viewports.map((viewport) => viewport.id),
+          }
+        : null,
+    [enabled, config, viewports],
+  );
+  const laidOut = useLayoutBatch(batch, rootSizing, enabled);
+
+  const layouts = useMemo(() => {
+    const byId = new Map<string, ViewportLayout>();
+    if (!laidOut.result) return byId;
+    const { frames, layouts: nodes, data } = laidOut.result;
+    data.forEach((id, index) => {
+      byId.set(id, {
+        nodes: nodes[index],
+        size: frames[index].size,
+        shapes: collectLayoutShapes(nodes[index]),
+      });
+    });
+    return byId;
+  }, [laidOut.result]);
+
+  // Containers that wrap or place their tracks differently in some viewport
+  const changedShapes = useMemo(() => {
+    const changed = new Set<string>();
+    const first = new Map<string, LayoutShape>();
+    layouts.forEach(({ shapes }) => {
+      shapes.forEach((shape, key) => {
+        const seen = first.get(key);
+        if (!seen) first.set(key, shape);
+        else if (!isSameShape(seen, shape)) changed.add(key);
+      });
+    });
+    return changed;
+  }, [layouts]);
+
+  return {
+    viewports,
+    addViewport,
+    updateViewport,
+    removeViewport,
+    resetViewports,
+    layouts,
+    changedShapes,
+    error: laidOut.error,
+    computing: laidOut.computing,
+    time: laidOut.result?.time ?? null,
+  };
+}
@@ -0,0 +1,578 @@
+/**
+ * @module features/playground/lib/codegen
+ * @description Generates runnable `taffy-layout` TypeScript and Rust `taffy`
+ * programs that rebuild the current playground layout.
+ *
+ * Both generators walk the same style tree the preview sends to the engine
+ * (see {@link describeConfig}), so the emitted code reproduces the preview
+ * exactly, except for text leaves: the emitted measure function estimates
+ * glyph widths instead of using the browser's font metrics. Properties equal
+ * to Taffy's defaults are left out to keep the output readable.
+ */
+
+import type {
+  AvailableSpace,
+  GridPlacement,
+  GridTemplateArea,
+  GridTemplateComponent,
+  Line,
+  Size,
+  StyleProperty,
+  StylePropertyValues,
+  TrackSizingFunction,
+} from "taffy-layout";
+import {
+  DEFAULT_ROOT_SIZING,
+  type DemoConfig,
+  type RootSizing,
+} from "@/features/playground/components/PlaygroundConfig";
+import {
+  STYLE_ENUMS,
+  describeConfig,
+  rootAvailableSpace,
+  significantStyleEntries,
+  type StyleNode,
+} from "./styles";
+import { TEXT_LINE_HEIGHT } from "./textMeasure";
+import { formatPath } from "./tree";
+
+/**
+ * Languages supported by the code generator.
+ */
+export type CodeLanguage = "typescript" | "rust";
+
+/**
+ * Enum properties that are `Option<T>` in the Rust crate.
+ */
+const RUST_OPTIONAL_ENUMS = new Set<StyleProperty>([
+  "justifyContent",
+  "alignItems",
+  "alignContent",
+  "alignSelf",
+]);
+
+/**
+ * TypeScript measure function for text leaves, emitted when the layout has
+ * text.
+ */
+const TS_MEASURE_TEXT = `// Estimates glyphs as 0.6em wide; use real font metrics in an app
+const measureText: MeasureFunction = (known, available, _node, context, style) => {
+  style.free();
+  const text = context as { content: string; fontSize: number } | undefined;
+  if (!text) return { width: known.width ?? 0, height: known.height ?? 0 };
+  const charWidth = text.fontSize * 0.6;
+  const maxWidth =
+    known.width ??
+    (available.width === "min-content"
+      ? 0
+      : available.width === "max-content"
+        ? Infinity
+        : available.width);
+  let [lines, line, widest] = [0, 0, 0];
+  for (const word of text.content.split(/\\s+/).filter(Boolean)) {
+    const next = line + (line > 0 ? word.length + 1 : word.length) * charWidth;
+    if (line > 0 && next > maxWidth) {
+      [lines, widest, line] = [lines + 1, Math.max(widest, line), word.length * charWidth];
+    } else {
+      line = next;
+    }
+  }
+  if (line > 0) [lines, widest] = [lines + 1, Math.max(widest, line)];
+  return {
+    width: known.width ?? widest,
+    height: known.height ?? lines * text.fontSize * ${TEXT_LINE_HEIGHT},
+  };
+};`;
+
+/**
+ * Rust context type and measure function for text leaves, emitted when the
+ * layout has text.
+ */
+const RUST_MEASURE_TEXT = `struct TextContext {
+    content: &'static str,
+    font_size: f32,
+}
+
+/// Estimates glyphs as 0.6em wide; use real font metrics in an app.
+fn measure_text(
+    known: Size<Option<f32>>,
+    available: Size<AvailableSpace>,
+    text: &TextContext,
+) -> Size<f32> {
+    let char_width = text.font_size * 0.6;
+    let max_width = known.width.unwrap_or(match available.width {
+        AvailableSpace::Definite(width) => width,
+        AvailableSpace::MinContent => 0.0,
+        AvailableSpace::MaxContent => f32::INFINITY,
+    });
+    let (mut lines, mut line, mut widest) = (0, 0.0_f32, 0.0_f32);
+    for word in text.content.split_whitespace() {
+        let chars = word.chars().count() as f32;
+        let space = if line > 0.0 { 1.0 } else { 0.0 };
+        let next = line + (chars + space) * char_width;
+        if line > 0.0 && next > max_width {
+            lines += 1;
+            widest = widest.max(line);
+            line = chars * char_width;
+        } else {
+            line = next;
+        }
+    }
+    if line > 0.0 {
+        lines += 1;
+        widest = widest.max(line);
+    }
+    Size {
+        width: known.width.unwrap_or(widest),
+        height: known
+            .height
+            .unwrap_or(lines as f32 * text.font_size * ${TEXT_LINE_HEIGHT}),
+    }
+}`;
+
+/**
+ * Checks whether a style tree contains text leaves.
+ *
+ * @param node - Root style node.
+ * @returns True when any node has text.
+ */
+const hasText = (node: StyleNode): boolean =>
+  Boolean(node.text) || (node.children ?? []).some(hasText);
+
+/**
+ * A node of the style tree paired with its generated variable name.
+ */
+interface NamedNode {
+  /** Style node being emitted. */
+  node: StyleNode;
+  /** Generated variable name. */
+  name: string;
+  /** Variable names of the node's children. */
+  childNames: string[];
+}
+
+/**
+ * Flattens the style tree in post-order so children are declared before
+ * their parents.
+ *
+ * @param root - Root style node.
+ * @param nameFor - Builds a variable name from an item path.
+ * @returns Nodes in declaration order, ending with the root.
+ */
+const flattenPostOrder = (
+  root: StyleNode,
+  nameFor: (node: StyleNode) => string,
+): NamedNode[] => {
+  const result: NamedNode[] = [];
+  const visit = (node: StyleNode): string => {
+    const childNames = (node.children ?? []).map(visit);
+    const name = nameFor(node);
+    result.push({ node, name, childNames });
+    return name;
+  };
+  visit(root);
+  return result;
+};
+
+/**
+ * Orders nodes as they appear in the tree: the root first, then items in
+ * depth-first order.
+ *
+ * @param nodes - Named nodes in any order.
+ * @returns Named nodes in document order.
+ */
+const inDocumentOrder = (nodes: NamedNode[]) =>
+  [...nodes].sort((a, b) => {
+    const length = Math.min(a.node.path.length, b.node.path.length);
+    for (let i = 0; i < length; i += 1) {
+      if (a.node.path[i] !== b.node.path[i]) {
+        return a.node.path[i] - b.node.path[i];
+      }
+    }
+    return a.node.path.length - b.node.path.length;
+  });
+
+/**
+ * Indents every line after the first.
+ *
+ * @param text - Multi-line text.
+ * @param indent - Indentation to add.
+ * @returns Indented text.
+ */
+const indentTail = (text: string, indent: string) =>
+  text.split("\n").join(`\n${indent}`);
+
+/**
+ * Formats a plain value as a TypeScript literal.
+ *
+ * @param value - Value to format.
+ * @returns TypeScript source for the value.
+ */
+const formatTsLiteral = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    const parts = value.map(formatTsLiteral);
+    const inline = `[${parts.join(", ")}]`;
+    return inline.length <= 72
+      ? inline
+      : `[\n${parts.map((part) => `  ${indentTail(part, "  ")},`).join("\n")}\n]`;
+  }
+  if (typeof value === "object" && value !== null) {
+    const parts = Object.entries(value).map(
+      ([key, entry]) => `${key}: ${formatTsLiteral(entry)}`,
+    );
+    const inline = `{ ${parts.join(", ")} }`;
+    return inline.length <= 72
+      ? inline
+      : `{\n${parts.map((part) => `  ${indentTail(part, "  ")},`).join("\n")}\n}`;
+  }
+  return JSON.stringify(value);
+};
+
+/**
+ * Formats the style properties of a node as a `new Style({...})` expression.
+ *
+ * @param style - Style properties of the node.
+ * @param enums - Collects the enum names that need importing.
+ * @returns TypeScript source for the style.
+ */
+const formatTsStyle = (style: StylePropertyValues, enums: Set<string>) => {
+  const entries = significantStyleEntries(style);
+  if (entries.length === 0) return "new Style()";
+
+  const lines = entries.map(([key, value]) => {
+    const enumInfo = STYLE_ENUMS[key];
+    if (enumInfo && typeof value === "number") {
+      enums.add(enumInfo.name);
+      return `  ${key}: ${enumInfo.name}.${enumInfo.values[value]},`;
+    }
+    return `  ${key}: ${indentTail(formatTsLiteral(value), "  ")},`;
+  });
+  return `new Style({\n${lines.join("\n")}\n})`;
+};
+
+/**
+ * Generates a TypeScript program using the `taffy-layout` package.
+ *
+ * @param config - Playground configuration.
+ * @param rootSize - Size of the canvas.
+ * @param rootSizing - Sizing mode of each root axis.
+ * @returns TypeScript source code.
+ */
+export const generateTypeScript = (
+  config: DemoConfig,
+  rootSize: Size<number>,
+  rootSizing: RootSizing = DEFAULT_ROOT_SIZING,
+): string => {
+  const enums = new Set<string>();
+  const root = describeConfig(config, rootSize, rootSizing);
+  const measured = hasText(root);
+  const nodes = flattenPostOrder(root, (node) =>
+    node.path.length === 0
+      ? "root"
+      : `item${node.path.map((i) => i + 1).join("_")}`,
+  );
+
+  const declarations = nodes.map(({ node, name, childNames }) => {
+    const style = indentTail(formatTsStyle(node.style, enums), "  ");
+    const comment =
+      node.path.length === 0
+        ? "// Root container"
+        : `// Item ${formatPath(node.path)}`;
+    const call = node.children
+      ? `tree.newWithChildren(\n  ${style},\n  ${formatTsLiteral(childNames).replace(/"/g, "")},\n)`
+      : node.text
+        ? `tree.newLeafWithContext(\n  ${style},\n  ${indentTail(formatTsLiteral(node.text), "  ")},\n)`
+        : `tree.newLeaf(${style.includes("\n") ? `\n  ${style},\n` : style})`;
+    return `${comment}\nconst ${name} = ${call};`;
+  });
+
+  const imports = [
+    "loadTaffy",
+    "TaffyTree",
+    "Style",
+    ...[...enums].sort(),
+    ...(measured ? ["type MeasureFunction"] : []),
+  ];
+  const space = rootAvailableSpace(rootSize, rootSizing);
+  const available = `{ width: ${formatTsLiteral(space.width)}, height: ${formatTsLiteral(space.height)} }`;
+  const names = inDocumentOrder(nodes).map(({ name }) => name);
+
+  return [
+    `import {\n${imports.map((name) => `  ${name},`).join("\n")}\n} from "taffy-layout";`,
+    "await loadTaffy();",
+    ...(measured ? [TS_MEASURE_TEXT] : []),
+    "const tree = new TaffyTree();",
+    ...declarations,
+    measured
+      ? `tree.computeLayoutWithMeasure(root, ${available}, measureText);`
+      : `tree.computeLayout(root, ${available});`,
+    [
+      `for (const [name, node] of Object.entries({ ${names.join(", ")} })) {`,
+      "  const { x, y, width, height } = tree.getLayout(node);",
+      "  console.log(name, { x, y, width, height });",
+      "}",
+    ].join("\n"),
+    "tree.free();",
+  ]
+    .join("\n\n")
+    .concat("\n");
+};
+
+/**
+ * Formats a number as a Rust `f32` literal.
+ *
+ * @param value - Number to format.
+ * @returns Rust float literal.
+ */
+const rustFloat = (value: number) =>
+  Number.isInteger(value) ? `${value}.0` : String(value);
+
+/**
+ * Formats an available space as a Rust `AvailableSpace` value.
+ *
+ * @param value - Available space.
+ * @returns Rust source for the value.
+ */
+const rustAvailableSpace = (value: AvailableSpace) =>
+  value === "min-content"
+    ? "AvailableSpace::MinContent"
+    : value === "max-content"
+      ? "AvailableSpace::MaxContent"
+      : `AvailableSpace::Definite(${rustFloat(value)})`;
+
+/**
+ * Formats a length, percentage, or auto value using the prelude helpers.
+ *
+ * @param value - Dimension-like value.
+ * @returns Rust source for the value.
+ */
+const rustDimension = (value: unknown): string => {
+  if (typeof value === "number") return `length(${rustFloat(value)})`;
+  if (value === "auto") return "auto()";
+  if (typeof value === "string" && value.endsWith("%")) {
+    return `percent(${rustFloat(parseFloat(value) / 100)})`;
+  }
+  if (value === "min-content") return "min_content()";
+  if (value === "max-content") return "max_content()";
+  if (value === "fit-content") return "fit_content(length(0.0))";
+  if (typeof value === "string" && value.endsWith("fr")) {
+    return `fr(${rustFloat(parseFloat(value))})`;
+  }
+  return "auto()";
+};
+
+/**
+ * Formats a single grid track sizing function.
+ *
+ * @param track - Track sizing function.
+ * @returns Rust source for the track.
+ */
+const rustTrack = (track: TrackSizingFunction): string => {
+  if (track.min === track.max && typeof track.min === "number") {
+    return rustDimension(track.min);
+  }
+  if (track.min === "auto" && track.max === "fit-content") {
+    return rustDimension(track.max);
+  }
+  if (
+    track.min === "auto" &&
+    typeof track.max === "string" &&
+    track.max.endsWith("fr")
+  ) {
+    return rustDimension(track.max);
+  }
+  return `minmax(${rustDimension(track.min)}, ${rustDimension(track.max)})`;
+};
+
+/**
+ * Formats a grid template component, expanding repetitions.
+ *
+ * @param component - Track or repetition.
+ * @returns Rust source for the component.
+ */
+const rustTemplateComponent = (component: GridTemplateComponent): string => {
+  if ("count" in component) {
+    const count =
+      component.count === "auto-fill"
+        ? "RepetitionCount::AutoFill"
+        : component.count === "auto-fit"
+          ? "RepetitionCount::AutoFit"
+          : String(component.count);
+    return `repeat(${count}, vec![${component.tracks.map(rustTrack).join(", ")}])`;
+  }
+  return rustTrack(component);
+};
+
+/**
+ * Formats a grid placement.
+ *
+ * @param placement - Grid placement value.
+ * @returns Rust source for the placement.
+ */
+const rustPlacement = (placement: GridPlacement): string => {
+  if (placement === "auto") return "auto()";
+  if (typeof placement === "number") return `line(${placement})`;
+  if ("span" in placement) {
+    return placement.ident === undefined
+      ? `span(${placement.span})`
+      : `GridPlacement::NamedSpan(${JSON.stringify(placement.ident)}.into(), ${placement.span})`;
+  }
+  return `GridPlacement::NamedLine(${JSON.stringify(placement.ident)}.into(), ${placement.line})`;
+};
+
+/**
+ * Formats a named grid area.
+ *
+ * @param area - Area with 1-based, end-exclusive lines.
+ * @returns Rust source for the area.
+ */
+const rustTemplateArea = (area: GridTemplateArea) =>
+  `taffy::GridTemplateArea { name: ${JSON.stringify(area.name)}.into(), row_start: ${area.rowStart}, row_end: ${area.rowEnd}, column_start: ${area.columnStart}, column_end: ${area.columnEnd} }`;
+
+/**
+ * Formats a style property value as Rust source.
+ *
+ * @param key - Style property name.
+ * @param value - Property value.
+ * @returns Rust source for the value.
+ */
+const rustValue = (key: StyleProperty, value: unknown): string => {
+  const enumInfo = STYLE_ENUMS[key];
+  if (enumInfo && typeof value === "number") {
+    const member = `${enumInfo.name}::${enumInfo.values[value]}`;
+    if (!RUST_OPTIONAL_ENUMS.has(key)) return member;
+    return enumInfo.values[value] === "Auto" ? "None" : `Some(${member})`;
+  }
+  if (typeof value === "number") return rustFloat(value);
+  if (key === "gridRow" || key === "gridColumn") {
+    const line = value as Line<GridPlacement>;
+    return `Line { start: ${rustPlacement(line.start)}, end: ${rustPlacement(line.end)} }`;
+  }
+  if (key === "gridTemplateAreas") {
+    return `vec![${(value as GridTemplateArea[]).map(rustTemplateArea).join(", ")}]`;
+  }
+  if (Array.isArray(value)) {
+    return `vec![${(value as GridTemplateComponent[]).map(rustTemplateComponent).join(", ")}]`;
+  }
+  if (typeof value === "object" && value !== null) {
+    const fields = Object.entries(value)
+      .map(([field, entry]) => `${field}: ${rustDimension(entry)}`)
+      .join(", ");
+    return "left" in value ? `Rect { ${fields} }` : `Size { ${fields} }`;
+  }
+  return rustDimension(value);
+};
+
+/**
+ * Converts a camelCase property name to the crate's snake_case field name.
+ *
+ * @param key - Style property name.
+ * @returns Rust field name.
+ */
+const toSnakeCase = (key: string) =>
+  key.replace(/[A-Z]/g, (char) => `_${char.toLowerCase()}`);
+
+/**
+ * Generates a Rust program using the `taffy` crate.
+ *
+ * @param config - Playground configuration.
+ * @param rootSize - Size of the canvas.
+ * @param rootSizing - Sizing mode of each root axis.
+ * @returns Rust source code.
+ */
+export const generateRust = (
+  config: DemoConfig,
+  rootSize: Size<number>,
+  rootSizing: RootSizing = DEFAULT_ROOT_SIZING,
+): string => {
+  const root = describeConfig(config, rootSize, rootSizing);
+  const measured = hasText(root);
+  const nodes = flattenPostOrder(root, (node) =>
+    node.path.length === 0
+      ? "root"
+      : `item_${node.path.map((i) => i + 1).join("_")}`,
+  );
+
+  const declarations = nodes.map(({ node, name, childNames }) => {
+    const fields = significantStyleEntries(node.style).map(
+      ([key, value]) =>
+        `            ${toSnakeCase(key)}: ${rustValue(key, value)},`,
+    );
+    const style =
+      fields.length === 0
+        ? "Style::default()"
+        : `Style {\n${[...fields, "            ..Default::default()"].join("\n")}\n        }`;
+    const comment =
+      node.path.length === 0
+        ? "    // Root container"
+        : `    // Item ${formatPath(node.path)}`;
+    const call = node.children
+      ? `tree.new_with_children(\n        ${style},\n        &[${childNames.join(", ")}],\n    )?`
+      : node.text
+        ? `tree.new_leaf_with_context(\n        ${style},\n        TextContext { content: ${JSON.stringify(node.text.content)}, font_size: ${rustFloat(node.text.fontSize)} },\n    )?`
+        : fields.length === 0
+          ? `tree.new_leaf(${style})?`
+          : `tree.new_leaf(\n        ${style},\n    )?`;
+    return `${comment}\n    let ${name} = ${call};`;
+  });
+
+  const names = inDocumentOrder(nodes).map(
+    ({ name }) => `("${name}", ${name})`,
+  );
+
+  const space = rootAvailableSpace(rootSize, rootSizing);
+  const available = `Size {
+            width: ${rustAvailableSpace(space.width)},
+            height: ${rustAvailableSpace(space.height)},
+        }`;
+  const compute = measured
+    ? `tree.compute_layout_with_measure(
+        root,
+        ${available},
+        |known, available, _node, context, _style| match context {
+            Some(text) => measure_text(known, available, text),
+            None => Size::ZERO,
+        },
+    )?;`
+    : `tree.compute_layout(
+        root,
+        ${available},
+    )?;`;
+
+  return `use taffy::prelude::*;
+${measured ? `\n${RUST_MEASURE_TEXT}\n` : ""}
+fn main() -> Result<(), taffy::TaffyError> {
+    let mut tree: TaffyTree<${measured ? "TextContext" : "()"}> = TaffyTree::new();
+
+${declarations.join("\n\n")}
+
+    ${compute}
+
+    for (name, node) in [${names.join(", ")}] {
+        let layout = tree.layout(node)?;
+        println!("{name}: {:?} {:?}", layout.location, layout.size);
+    }
+
+    Ok(())
+}
+`;
+};
+
+/**
+ * Generates source code for the given language.
+ *
+ * @param language - Target language.
+ * @param config - Playground configuration.
+ * @param rootSize - Size of the canvas.
+ * @param rootSizing - Sizing mode of each root axis.
+ * @returns Generated source code.
+ */
+export const generateCode = (
+  language: CodeLanguage,
+  config: DemoConfig,
+  rootSize: Size<number>,
+  rootSizing: RootSizing = DEFAULT_ROOT_SIZING,
+) =>
+  language === "rust"
+    ? generateRust(config, rootSize, rootSizing)
+    : generateTypeScript(config, rootSize, rootSizing);
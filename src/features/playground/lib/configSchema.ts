@@ -0,0 +1,620 @@
+/**
+ * @module features/playground/lib/configSchema
+ * @description Versioned format of playground configurations. Every place
+ * that loads a configuration from outside the running playground (shared
+ * links, saved presets, preset files, HTML import) goes through
+ * {@link loadConfig}, which upgrades older versions and validates the result.
+ *
+ * Versions:
+ * - 1: everything saved before configurations carried a version. Fields
+ *   added over time may be missing, and a few have older shapes (grid track
+ *   counts, uniform container padding, `auto` flags).
+ * - 2: the current {@link DemoConfig} shape, with every field present.
+ *
+ * To change the shape of `DemoConfig`, bump {@link CONFIG_VERSION}, add a
+ * migration from the previous version to {@link MIGRATIONS}, and update the
+ * validator below.
+ */
+
+import {
+  ALIGN_CONTENT_MAP,
+  ALIGN_ITEMS_MAP,
+  ALIGN_SELF_MAP,
+  DISPLAY_MODE_MAP,
+  FLEX_DIRECTION_MAP,
+  FLEX_WRAP_MAP,
+  GRID_AUTOFLOW_MAP,
+  JUSTIFY_CONTENT_MAP,
+  POSITION_MAP,
+  defaultContainer,
+  defaultItem,
+  uniformSides,
+  type CalcExpression,
+  type DemoConfig,
+  type DemoContainer,
+  type DemoDimension,
+  type DemoItem,
+  type DemoLayout,
+  type DemoLength,
+  type DemoSides,
+  type DemoSize,
+  type DemoText,
+  type DemoTrack,
+} from "@/features/playground/components/PlaygroundConfig";
+import { ConfigValidationError } from "./errors";
+
+/**
+ * Current version of the configuration format.
+ */
+export const CONFIG_VERSION = 2;
+
+/**
+ * Pattern of percentage strings such as `50%` or `-12.5%`.
+ */
+const PERCENTAGE = /^-?(?:\d+\.?\d*|\.\d+)%$/;
+
+/**
+ * Checks whether a value is a plain object.
+ *
+ * @param value - Value to check.
+ * @returns True for non-null, non-array objects.
+ */
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Reports an invalid field.
+ *
+ * @param path - Location of the field, e.g. `items[0].width`.
+ * @param expected - Description of the valid values.
+ * @throws ConfigValidationError always.
+ */
+const fail = (path: string, expected: string): never => {
+  throw new ConfigValidationError(`${path} must be ${expected}.`, path);
+};
+
+/**
+ * Validates an object.
+ *
+ * @param value - Candidate value.
+ * @param path - Location of the value.
+ * @returns The object.
+ */
+const readRecord = (value: unknown, path: string) =>
+  isRecord(value) ? value : fail(path, "an object");
+
+/**
+ * Validates one of the keys of a playground option map.
+ *
+ * @param value - Candidate value.
+ * @param path - Location of the value.
+ * @param options - Map whose keys are the valid values.
+ * @returns The key.
+ */
+const readKey = <T extends string>(
+  value: unknown,
+  path: string,
+  options: Record<T, unknown>,
+): T => {
+  const keys = Object.keys(options);
+  return typeof value === "string" && keys.includes(value)
+    ? (value as T)
+    : fail(path, `one of ${keys.map((key) => `"${key}"`).join(", ")}`);
+};
+
+/**
+ * Validates a finite number.
+ *
+ * @param value - Candidate value.
+ * @param path - Location of the value.
+ * @param min - Smallest valid value.
+ * @param integer - Whether only whole numbers are valid.
+ * @returns The number.
+ */
+const readNumber = (
+  value: unknown,
+  path: string,
+  min = -Infinity,
+  integer = false,
+) => {
+  if (
+    typeof value !== "number" ||
+    !Number.isFinite(value) ||
+    value < min ||
+    (integer && !Number.isInteger(value))
+  ) {
+    const kind = integer ? "a whole number" : "a number";
+    return fail(path, Number.isFinite(min) ? `${kind} ≥ ${min}` : kind);
+  }
+  return value;
+};
+
+/**
+ * Validates a string.
+ *
+ * @param value - Candidate value.
+ * @param path - Location of the value.
+ * @returns The string.
+ */
+const readString = (value: unknown, path: string) =>
+  typeof value === "string" ? value : fail(path, "a string");
+
+/**
+ * Validates a length: pixels, a percentage, or a `calc()` expression.
+ *
+ * @param value - Candidate value.
+ * @param path - Location of the value.
+ * @returns The length.
+ */
+const readLength = (value: unknown, path: string): DemoLength => {
+  if (typeof value === "number" && Number.isFinite(value)) return value;
+  if (typeof value === "string" && PERCENTAGE.test(value)) {
+    return value as `${number}%`;
+  }
+  if (
+    typeof value === "string" &&
+    value.startsWith("calc(") &&
+    value.endsWith(")")
+  ) {
+    return value as CalcExpression;
+  }
+  return fail(
+    path,
+    'a number of pixels, a percentage such as "50%", or calc()',
+  );
+};
+
+/**
+ * Validates a dimension: a length or `auto`.
+ *
+ * @param value - Candidate value.
+ * @param path - Location of the value.
+ * @returns The dimension.
+ */
+const readDimension = (value: unknown, path: string): DemoDimension => {
+  if (value === "auto") return value;
+  try {
+    return readLength(value, path);
+  } catch {
+    return fail(
+      path,
+      'a number of pixels, a percentage such as "50%", calc(), or "auto"',
+    );
+  }
+};
+
+/**
+ * Validates per-side values.
+ *
+ * @param value - Candidate value.
+ * @param path - Location of the value.
+ * @param read - Validator of a single side.
+ * @returns The sides.
+ */
+const readSides = <T>(
+  value: unknown,
+  path: string,
+  read: (side: unknown, path: string) => T,
+): DemoSides<T> => {
+  const sides = readRecord(value, path);
+  return {
+    top: read(sides.top, `${path}.top`),
+    right: read(sides.right, `${path}.right`),
+    bottom: read(sides.bottom, `${path}.bottom`),
+    left: read(sides.left, `${path}.left`),
+  };
+};
+
+/**
+ * Validates a size limit.
+ *
+ * @param value - Candidate value.
+ * @param path - Location of the value.
+ * @returns The size.
+ */
+const readSize = (value: unknown, path: string): DemoSize => {
+  const size = readRecord(value, path);
+  return {
+    width: readDimension(size.width, `${path}.width`),
+    height: readDimension(size.height, `${path}.height`),
+  };
+};
+
+/**
+ * Validates a grid track list. Track sizes are CSS text and are checked
+ * when they are parsed for layout, like sizes typed into the editor.
+ *
+ * @param value - Candidate value.
+ * @param path - Location of the value.
+ * @returns The track list.
+ */
+const readTracks = (value: unknown, path: string): DemoTrack[] => {
+  if (!Array.isArray(value)) return fail(path, "a list of tracks");
+  return value.map((entry: unknown, index) => {
+    const track = readRecord(entry, `${path}[${index}]`);
+    const repeatPath = `${path}[${index}].repeat`;
+    return {
+      size: readString(track.size, `${path}[${index}].size`),
+      repeat:
+        track.repeat === "auto-fill" || track.repeat === "auto-fit"
+          ? track.repeat
+          : typeof track.repeat === "number"
+            ? readNumber(track.repeat, repeatPath, 1, true)
+            : fail(
+                repeatPath,
+                'a whole number ≥ 1, "auto-fill", or "auto-fit"',
+              ),
+    };
+  });
+};
+
+/**
+ * Validates the text of a text leaf.
+ *
+ * @param value - Candidate value.
+ * @param path - Location of the value.
+ * @returns The text.
+ */
+const readText = (value: unknown, path: string): DemoText => {
+  const text = readRecord(value, path);
+  const fontSize = readNumber(text.fontSize, `${path}.fontSize`);
+  return {
+    content: readString(text.content, `${path}.content`),
+    fontSize: fontSize > 0 ? fontSize : fail(`${path}.fontSize`, "positive"),
+  };
+};
+
+/**
+ * Validates container settings.
+ *
+ * @param value - Candidate value.
+ * @param path - Location of the value.
+ * @returns The container settings.
+ */
+const readContainer = (value: unknown, path: string): DemoContainer => {
+  const container = readRecord(value, path);
+  const flex = readRecord(container.flex, `${path}.flex`);
+  const grid = readRecord(container.grid, `${path}.grid`);
+  if (
+    !Array.isArray(grid.areas) ||
+    grid.areas.some((row) => typeof row !== "string")
+  ) {
+    fail(`${path}.grid.areas`, "a list of strings");
+  }
+  return {
+    gapX: readLength(container.gapX, `${path}.gapX`),
+    gapY: readLength(container.gapY, `${path}.gapY`),
+    flex: {
+      direction: readKey(
+        flex.direction,
+        `${path}.flex.direction`,
+        FLEX_DIRECTION_MAP,
+      ),
+      justifyContent: readKey(
+        flex.justifyContent,
+        `${path}.flex.justifyContent`,
+        JUSTIFY_CONTENT_MAP,
+      ),
+      alignItems: readKey(
+        flex.alignItems,
+        `${path}.flex.alignItems`,
+        ALIGN_ITEMS_MAP,
+      ),
+      alignContent: readKey(
+        flex.alignContent,
+        `${path}.flex.alignContent`,
+        ALIGN_CONTENT_MAP,
+      ),
+      wrap: readKey(flex.wrap, `${path}.flex.wrap`, FLEX_WRAP_MAP),
+    },
+    grid: {
+      columns: readTracks(grid.columns, `${path}.grid.columns`),
+      rows: readTracks(grid.rows, `${path}.grid.rows`),
+      autoColumns: readString(grid.autoColumns, `${path}.grid.autoColumns`),
+      autoRows: readString(grid.autoRows, `${path}.grid.autoRows`),
+      autoFlow: readKey(
+        grid.autoFlow,
+        `${path}.grid.autoFlow`,
+        GRID_AUTOFLOW_MAP,
+      ),
+      areas: [...(grid.areas as string[])],
+    },
+  };
+};
+
+/**
+ * Validates an item, including its nested layout.
+ *
+ * @param value - Candidate value.
+ * @param path - Location of the value.
+ * @returns The item.
+ */
+const readItem = (value: unknown, path: string): DemoItem => {
+  const item = readRecord(value, path);
+  if (typeof item.hidden !== "boolean") fail(`${path}.hidden`, "a boolean");
+  return {
+    width: readDimension(item.width, `${path}.width`),
+    height: readDimension(item.height, `${path}.height`),
+    flexGrow: readNumber(item.flexGrow, `${path}.flexGrow`, 0),
+    flexShrink: readNumber(item.flexShrink, `${path}.flexShrink`, 0),
+    flexBasis: readDimension(item.flexBasis, `${path}.flexBasis`),
+    alignSelf: readKey(item.alignSelf, `${path}.alignSelf`, ALIGN_SELF_MAP),
+    rowSpan: readNumber(item.rowSpan, `${path}.rowSpan`, 1, true),
+    columnSpan: readNumber(item.columnSpan, `${path}.columnSpan`, 1, true),
+    rowStart: readNumber(item.rowStart, `${path}.rowStart`, -Infinity, true),
+    rowEnd: readNumber(item.rowEnd, `${path}.rowEnd`, -Infinity, true),
+    columnStart: readNumber(
+      item.columnStart,
+      `${path}.columnStart`,
+      -Infinity,
+      true,
+    ),
+    columnEnd: readNumber(item.columnEnd, `${path}.columnEnd`, -Infinity, true),
+    gridArea: readString(item.gridArea, `${path}.gridArea`),
+    margin: readSides(item.margin, `${path}.margin`, readDimension),
+    padding: readSides(item.padding, `${path}.padding`, readLength),
+    border: readSides(item.border, `${path}.border`, readLength),
+    minSize: readSize(item.minSize, `${path}.minSize`),
+    maxSize: readSize(item.maxSize, `${path}.maxSize`),
+    position: readKey(item.position, `${path}.position`, POSITION_MAP),
+    inset: readSides(item.inset, `${path}.inset`, readDimension),
+    hidden: item.hidden as boolean,
+    ...(item.text === undefined
+      ? {}
+      : { text: readText(item.text, `${path}.text`) }),
+    ...(item.layout === undefined
+      ? {}
+      : { layout: readLayout(item.layout, `${path}.layout`) }),
+  };
+};
+
+/**
+ * Validates a layout and its items.
+ *
+ * @param value - Candidate value.
+ * @param path - Location of the value.
+ * @returns The layout.
+ */
+const readLayout = (value: unknown, path: string): DemoLayout => {
+  const layout = readRecord(value, path);
+  const displayMode = readKey(
+    layout.displayMode,
+    `${path}.displayMode`,
+    DISPLAY_MODE_MAP,
+  );
+  const container = readContainer(layout.container, `${path}.container`);
+  if (!Array.isArray(layout.items)) fail(`${path}.items`, "a list of items");
+  return {
+    displayMode,
+    container,
+    items: (layout.items as unknown[]).map((item, index) =>
+      readItem(item, `${path}.items[${index}]`),
+    ),
+  };
+};
+
+/**
+ * Validates a configuration in the current format. Fields the format does
+ * not define are dropped.
+ *
+ * @param value - Candidate configuration.
+ * @returns The configuration.
+ * @throws ConfigValidationError naming the first invalid field.
+ *
+ * @example
+ * validateConfig({ ...config, items: [{ width: "wide" }] });
+ * // throws: config.items[0].width must be a number of pixels, ...
+ */
+export const validateConfig = (value: unknown): DemoConfig => {
+  const config = readRecord(value, "config");
+  return {
+    ...readLayout(config, "config"),
+    padding: readSides(config.padding, "config.padding", readLength),
+    border: readSides(config.border, "config.border", readLength),
+  };
+};
+
+/**
+ * Converts one axis of a grid from the old count/mode/size settings, used
+ * before per-track editing, into a track list.
+ *
+ * @param count - Legacy track count.
+ * @param mode - Legacy sizing mode, `fixed` or `fr`.
+ * @param size - Legacy track size.
+ * @returns Track list entries.
+ */
+const legacyTracks = (
+  count: unknown,
+  mode: unknown,
+  size: unknown,
+): DemoTrack[] => [
+  {
+    size: `${Number(size) || 1}${mode === "fixed" ? "px" : "fr"}`,
+    repeat: Math.max(1, Number(count) || 1),
+  },
+];
+
+/**
+ * Upgrades grid settings from the legacy track format and fills missing
+ * fields.
+ *
+ * @param value - Version 1 grid settings.
+ * @returns Grid settings.
+ */
+const migrateGrid = (value: unknown) => {
+  const {
+    columnMode,
+    columnSize,
+    rowMode,
+    rowSize,
+    ...fields
+  }: Record<string, unknown> = isRecord(value) ? value : {};
+  const grid: Record<string, unknown> = { ...defaultContainer.grid, ...fields };
+  if (typeof fields.columns === "number") {
+    grid.columns = legacyTracks(fields.columns, columnMode, columnSize);
+  }
+  if (typeof fields.rows === "number") {
+    grid.rows = legacyTracks(fields.rows, rowMode, rowSize);
+  }
+  return grid;
+};
+
+/**
+ * Reads the uniform padding containers had before padding moved to the
+ * node and became per-side.
+ *
+ * @param container - Version 1 container settings.
+ * @returns Padding on every side, or undefined when there is none.
+ */
+const legacyPadding = (container: unknown) =>
+  isRecord(container) && typeof container.padding === "number"
+    ? uniformSides(container.padding)
+    : undefined;
+
+/**
+ * Fills missing sides from a fallback.
+ *
+ * @param value - Version 1 sides.
+ * @param fallback - Sides used when the value or a side is missing.
+ * @returns Sides.
+ */
+const migrateSides = (value: unknown, fallback: DemoSides<unknown>) =>
+  isRecord(value) ? { ...fallback, ...value } : fallback;
+
+/**
+ * Upgrades the sizes of an item from before dimensions had units, when
+ * `auto` was a separate flag and unset size limits were null.
+ *
+ * @param item - Version 1 item fields.
+ * @returns Item fields with dimension values.
+ */
+const legacySizes = (item: Record<string, unknown>) => {
+  const { widthAuto, heightAuto, flexBasisAuto, ...fields } = item;
+  if (widthAuto === true) fields.width = "auto";
+  if (heightAuto === true) fields.height = "auto";
+  if (flexBasisAuto === true) fields.flexBasis = "auto";
+  for (const limit of ["minSize", "maxSize"]) {
+    const size = fields[limit];
+    if (isRecord(size)) {
+      fields[limit] = {
+        width: size.width ?? "auto",
+        height: size.height ?? "auto",
+      };
+    }
+  }
+  return fields;
+};
+
+/**
+ * Keeps the text of a text leaf, dropping malformed values as version 1
+ * loaders did.
+ *
+ * @param value - Version 1 text.
+ * @returns Text, or undefined when it is malformed.
+ */
+const migrateText = (value: unknown) =>
+  isRecord(value) &&
+  typeof value.content === "string" &&
+  typeof value.fontSize === "number" &&
+  value.fontSize > 0
+    ? { content: value.content, fontSize: value.fontSize }
+    : undefined;
+
+/**
+ * Upgrades a version 1 layout, filling fields added since with their
+ * defaults. Values that are not layouts are passed on for the validator to
+ * report.
+ *
+ * @param value - Version 1 layout.
+ * @returns Layout in version 2 shape.
+ */
+const migrateLayout = (value: unknown): unknown => {
+  if (!isRecord(value) || !isRecord(value.container)) return value;
+  // Containers lost their padding to the node; see legacyPadding
+  const container = { ...value.container };
+  delete container.padding;
+  return {
+    ...value,
+    container: {
+      ...defaultContainer,
+      ...container,
+      flex: {
+        ...defaultContainer.flex,
+        ...(isRecord(container.flex) ? container.flex : {}),
+      },
+      grid: migrateGrid(container.grid),
+    },
+    items: Array.isArray(value.items)
+      ? value.items.map((item: unknown) => {
+          if (!isRecord(item)) return item;
+          const { layout, text, ...fields } = legacySizes(item);
+          const textValue = migrateText(text);
+          return {
+            ...defaultItem,
+            padding:
+              legacyPadding(isRecord(layout) ? layout.container : undefined) ??
+              defaultItem.padding,
+            ...fields,
+            ...(textValue === undefined ? {} : { text: textValue }),
+            ...(layout === undefined ? {} : { layout: migrateLayout(layout) }),
+          };
+        })
+      : value.items,
+  };
+};
+
+/**
+ * Migrations from each version to the next, keyed by the version they
+ * upgrade from.
+ */
+const MIGRATIONS: Record<number, (value: unknown) => unknown> = {
+  1: (value) => {
+    if (!isRecord(value)) return value;
+    return {
+      ...(migrateLayout(value) as Record<string, unknown>),
+      padding: migrateSides(
+        value.padding,
+        legacyPadding(value.container) ?? uniformSides(0),
+      ),
+      border: migrateSides(value.border, uniformSides(0)),
+    };
+  },
+};
+
+/**
+ * Loads a configuration saved in any version of the format: upgrades it to
+ * the current version and validates it.
+ *
+ * @param value - Saved configuration.
+ * @param version - Version it was saved in; data without one is version 1.
+ * @returns The configuration.
+ * @throws ConfigValidationError when the version is unknown or the
+ * configuration is invalid.
+ *
+ * @example
+ * const config = loadConfig(parsed.config, parsed.configVersion);
+ */
+export const loadConfig = (value: unknown, version: unknown = 1) => {
+  if (
+    typeof version !== "number" ||
+    !Number.isInteger(version) ||
+    version < 1
+  ) {
+    throw new ConfigValidationError(
+      "The configuration has an invalid format version.",
+      "configVersion",
+    );
+  }
+  if (version > CONFIG_VERSION) {
+    throw new ConfigValidationError(
+      `The configuration uses format v${version}, which this version of the playground cannot read.`,
+      "configVersion",
+    );
+  }
+
+  let migrated = value;
+  for (let current = version; current < CONFIG_VERSION; current += 1) {
+    migrated = MIGRATIONS[current](migrated);
+  }
+  return validateConfig(migrated);
+};
@@ -0,0 +1,177 @@
+/**
+ * @module features/playground/lib/customPresets
+ * @description Reads and writes user-defined presets, both in localStorage
+ * and as JSON preset collections that can be shared as files.
+ *
+ * A collection is
+ * `{ format, version, presets: [{ id, name, configVersion, config }] }`,
+ * where `configVersion` is the version of the configuration format.
+ * The same shape is used for storage and for exported files, so a stored
+ * library can be exported without conversion.
+ */
+
+import { type DemoConfig } from "@/features/playground/components/PlaygroundConfig";
+import { CONFIG_VERSION, loadConfig } from "./configSchema";
+import { ConfigValidationError, PresetImportError } from "./errors";
+import { createStoredId, loadStored, saveStored } from "./storage";
+
+/**
+ * localStorage key the custom presets are stored under.
+ */
+export const CUSTOM_PRESETS_STORAGE_KEY = "taffy-playground-presets";
+
+/**
+ * Prefix that tells custom preset keys apart from built-in preset keys.
+ */
+export const CUSTOM_PRESET_PREFIX = "custom:";
+
+/**
+ * Identifier written into preset collections.
+ */
+export const PRESET_COLLECTION_FORMAT = "taffy-playground-presets";
+
+/**
+ * Current version of the preset collection format.
+ */
+export const PRESET_COLLECTION_VERSION = 1;
+
+/**
+ * Preset saved by the user.
+ */
+export interface CustomPreset {
+  /** Stable identifier, unique within the library. */
+  id: string;
+  /** Name shown in the preset menu. */
+  name: string;
+  /** Saved configuration. */
+  config: DemoConfig;
+}
+
+/**
+ * Checks whether a preset key refers to a custom preset.
+ *
+ * @param key - Preset key.
+ * @returns True for keys created by {@link customPresetKey}.
+ */
+export const isCustomPresetKey = (key: string) =>
+  key.startsWith(CUSTOM_PRESET_PREFIX);
+
+/**
+ * Builds the preset key of a custom preset.
+ *
+ * @param id - Custom preset id.
+ * @returns Preset key recorded in the history.
+ */
+export const customPresetKey = (id: string) => `${CUSTOM_PRESET_PREFIX}${id}`;
+
+/**
+ * Finds the custom preset a preset key refers to.
+ *
+ * @param presets - Custom presets.
+ * @param key - Preset key.
+ * @returns Matching preset, or undefined.
+ */
+export const findCustomPreset = (presets: CustomPreset[], key: string) =>
+  presets.find((preset) => customPresetKey(preset.id) === key);
+
+/**
+ * Serializes presets into a preset collection.
+ *
+ * @param presets - Presets to write.
+ * @returns Formatted JSON.
+ */
+export const serializePresets = (presets: CustomPreset[]) =>
+  JSON.stringify(
+    {
+      format: PRESET_COLLECTION_FORMAT,
+      version: PRESET_COLLECTION_VERSION,
+      presets: presets.map(({ id, name, config }) => ({
+        id,
+        name,
+        configVersion: CONFIG_VERSION,
+        config,
+      })),
+    },
+    null,
+    2,
+  );
+
+/**
+ * Reads a preset collection. Configurations saved in older versions of the
+ * configuration format are upgraded, and every configuration is validated.
+ *
+ * @param json - Collection JSON.
+ * @returns Presets in file order.
+ * @throws PresetImportError when the JSON is not a supported collection.
+ */
+export const parsePresets = (json: string): CustomPreset[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch (err) {
+    throw new PresetImportError("The file is not valid JSON.", err);
+  }
+
+  if (
+    typeof parsed !== "object" ||
+    parsed === null ||
+    !("format" in parsed) ||
+    parsed.format !== PRESET_COLLECTION_FORMAT ||
+    !("presets" in parsed) ||
+    !Array.isArray(parsed.presets)
+  ) {
+    throw new PresetImportError("The file is not a preset collection.");
+  }
+  const version = "version" in parsed ? parsed.version : undefined;
+  if (typeof version === "number" && version > PRESET_COLLECTION_VERSION) {
+    throw new PresetImportError(
+      "The preset collection was created by a newer version of the playground.",
+    );
+  }
+  if (version !== PRESET_COLLECTION_VERSION) {
+    throw new PresetImportError(
+      "The preset collection has an unsupported or invalid version.",
+    );
+  }
+
+  return parsed.presets.map((entry: unknown, index): CustomPreset => {
+    const preset = (
+      typeof entry === "object" && entry !== null ? entry : {}
+    ) as Partial<Record<keyof CustomPreset | "configVersion", unknown>>;
+    const name =
+      typeof preset.name === "string" && preset.name.trim()
+        ? preset.name.trim()
+        : `Preset ${index + 1}`;
+    try {
+      return {
+        id: typeof preset.id === "string" ? preset.id : createStoredId(),
+        name,
+        config: loadConfig(preset.config, preset.configVersion),
+      };
+    } catch (err) {
+      if (!(err instanceof ConfigValidationError)) throw err;
+      throw new PresetImportError(
+        `The preset "${name}" does not contain a valid layout: ${err.message}`,
+        err,
+      );
+    }
+  });
+};
+
+/**
+ * Loads the custom presets from localStorage.
+ *
+ * @returns Stored presets, or an empty list when there are none.
+ * @throws PresetImportError when the stored library is damaged.
+ */
+export const loadCustomPresets = (): CustomPreset[] =>
+  loadStored(CUSTOM_PRESETS_STORAGE_KEY, parsePresets, []);
+
+/**
+ * Writes the custom presets to localStorage.
+ *
+ * @param presets - Presets to store.
+ */
+export const saveCustomPresets = (presets: CustomPreset[]) => {
+  saveStored(CUSTOM_PRESETS_STORAGE_KEY, serializePresets(presets));
+};
@@ -0,0 +1,295 @@
+/**
+ * @module features/playground/lib/dimensions
+ * @description Parsing, formatting, and resolution of the playground's
+ * dimension values: pixels, percentages, `auto`, and `calc()`.
+ *
+ * taffy-layout accepts pixels, percentages, and `auto` only, and silently
+ * treats any other string as `auto`. `calc()` expressions are therefore
+ * folded to a single value before layout; expressions that mix pixels and
+ * percentages are reported as unsupported instead of being laid out
+ * differently from the browser.
+ */
+
+import type { Dimension, LengthPercentage } from "taffy-layout";
+import type {
+  CalcExpression,
+  DemoDimension,
+  DemoLength,
+} from "@/features/playground/components/PlaygroundConfig";
+
+/**
+ * Units offered by the dimension inputs.
+ */
+export type DimensionUnit = "px" | "%" | "auto" | "calc";
+
+/**
+ * Options for parsing dimension text.
+ */
+export interface DimensionParseOptions {
+  /** Whether `auto` is accepted. */
+  auto?: boolean;
+  /** Whether negative values are accepted, as for margins. */
+  negative?: boolean;
+  /**
+   * Whether to follow CSS syntax strictly, where lengths other than 0 need a
+   * unit. Inputs accept plain numbers as pixels otherwise.
+   */
+  css?: boolean;
+}
+
+/**
+ * Result of evaluating a `calc()` expression.
+ */
+export interface CalcResult {
+  /** Folded value, or null when the expression cannot be represented. */
+  value: LengthPercentage | null;
+  /** Description of the problem, or null. */
+  error: string | null;
+}
+
+/**
+ * Operand of a `calc()` expression.
+ */
+interface Quantity {
+  /** Numeric value. */
+  value: number;
+  /** Unit; empty for plain numbers such as multipliers. */
+  unit: "px" | "%" | "";
+}
+
+/**
+ * Matches a number with an optional pixel or percentage unit.
+ */
+const NUMBER = /^(-?\d*\.?\d+)(px|%)?$/;
+
+/**
+ * Splits a `calc()` body into numbers, operators, and parentheses.
+ *
+ * @param body - Expression inside `calc()`.
+ * @returns Tokens, or null when the text contains anything else.
+ */
+const tokenize = (body: string) => {
+  const tokens = body.match(/\d*\.?\d+(?:px|%)?|calc\(|[-+*/()]|\S+/g) ?? [];
+  return tokens.every((token) =>
+    /^(\d*\.?\d+(px|%)?|calc\(|[-+*/()])$/.test(token),
+  )
+    ? tokens
+    : null;
+};
+
+/**
+ * Evaluates a `calc()` expression to a single pixel or percentage value.
+ *
+ * @param expression - Expression such as `calc(100% / 3)`.
+ * @returns The folded value, or the reason it cannot be represented.
+ *
+ * @example
+ * evaluateCalc("calc(100% / 4)"); // => { value: "25%", error: null }
+ * evaluateCalc("calc(100% - 20px)"); // => { value: null, error: "…" }
+ */
+export const evaluateCalc = (expression: string): CalcResult => {
+  const invalid = (error: string) => ({ value: null, error });
+  const body = /^calc\((.*)\)$/.exec(expression.trim().toLowerCase());
+  const tokens = body ? tokenize(body[1]) : null;
+  if (!tokens) {
+    return invalid(`"${expression}" is not a valid calc() expression.`);
+  }
+
+  let position = 0;
+  let error: string | null = null;
+  const fail = (message: string): Quantity => {
+    error ??= message;
+    return { value: 0, unit: "" };
+  };
+
+  const parseFactor = (): Quantity => {
+    const token = tokens[position++];
+    if (token === "-") {
+      const operand = parseFactor();
+      return { ...operand, value: -operand.value };
+    }
+    if (token === "(" || token === "calc(") {
+      const inner = parseSum();
+      if (tokens[position++] !== ")") return fail("Unbalanced parentheses.");
+      return inner;
+    }
+    const match = token === undefined ? null : NUMBER.exec(token);
+    if (!match) return fail("calc() is missing an operand.");
+    return {
+      value: Number(match[1]),
+      unit: (match[2] ?? "") as Quantity["unit"],
+    };
+  };
+
+  const parseProduct = (): Quantity => {
+    let left = parseFactor();
+    while (tokens[position] === "*" || tokens[position] === "/") {
+      const operator = tokens[position++];
+      const right = parseFactor();
+      if (operator === "*") {
+        if (left.unit && right.unit)
+          return fail("calc() can only multiply by a number.");
+        left = {
+          value: left.value * right.value,
+          unit: left.unit || right.unit,
+        };
+      } else {
+        if (right.unit || right.value === 0) {
+          return fail("calc() can only divide by a non-zero number.");
+        }
+        left = { value: left.value / right.value, unit: left.unit };
+      }
+    }
+    return left;
+  };
+
+  const parseSum = (): Quantity => {
+    let left = parseProduct();
+    while (tokens[position] === "+" || tokens[position] === "-") {
+      const sign = tokens[position++] === "+" ? 1 : -1;
+      const right = parseProduct();
+      if (left.unit !== right.unit) {
+        return fail(
+          left.unit && right.unit
+            ? "calc() mixing px and % is not supported by taffy-layout."
+            : "calc() cannot add numbers and lengths.",
+        );
+      }
+      left = { value: left.value + sign * right.value, unit: left.unit };
+    }
+    return left;
+  };
+
+  const result = parseSum();
+  if (error) return invalid(error);
+  if (position !== tokens.length) {
+    return invalid(`"${expression}" is not a valid calc() expression.`);
+  }
+  // Round away floating point noise such as 33.333333333333336
+  const value = Math.round(result.value * 1e4) / 1e4;
+  if (result.unit === "%") return { value: `${value}%`, error: null };
+  if (result.unit === "px" || value === 0) return { value, error: null };
+  return invalid("calc() must result in a length or percentage.");
+};
+
+/**
+ * Checks whether a value is a `calc()` expression.
+ *
+ * @param value - Dimension value.
+ * @returns True for calc expressions.
+ */
+export const isCalc = (value: DemoDimension): value is CalcExpression =>
+  typeof value === "string" && value.startsWith("calc(");
+
+/**
+ * Describes why a value cannot be laid out as written.
+ *
+ * @param value - Dimension value.
+ * @returns Reason, or null when the value is valid.
+ */
+export const dimensionError = (value: DemoDimension) =>
+  isCalc(value) ? evaluateCalc(value).error : null;
+
+/**
+ * Resolves a length into a value taffy-layout accepts. Invalid `calc()`
+ * expressions resolve to 0.
+ *
+ * @param value - Length value.
+ * @returns Pixels or percentage.
+ */
+export const resolveLength = (value: DemoLength): LengthPercentage => {
+  return isCalc(value) ? (evaluateCalc(value).value ?? 0) : value;
+};
+
+/**
+ * Resolves a dimension into a value taffy-layout accepts.
+ *
+ * @param value - Dimension value.
+ * @returns Pixels, percentage, or `auto`.
+ */
+export const resolveDimension = (value: DemoDimension): Dimension =>
+  value === "auto" ? "auto" : resolveLength(value);
+
+/**
+ * Parses dimension text typed by the user or found in CSS.
+ *
+ * @param text - Text such as `12px`, `50%`, `auto`, or `calc(100% / 3)`.
+ * @param options - Accepted forms.
+ * @returns Parsed value, or null when the text is invalid or not allowed.
+ *
+ * @example
+ * parseDimension("50%"); // => "50%"
+ * parseDimension("12"); // => 12
+ * parseDimension("12", { css: true }); // => null
+ */
+export const parseDimension = (
+  text: string,
+  options: DimensionParseOptions = {},
+): DemoDimension | null => {
+  const value = text.trim().toLowerCase();
+  if (value === "auto") return options.auto ? "auto" : null;
+
+  if (value.startsWith("calc(")) {
+    const result = evaluateCalc(value).value;
+    if (result === null) return null;
+    const negative = parseFloat(String(result)) < 0;
+    return negative && !options.negative ? null : (value as CalcExpression);
+  }
+
+  const match = NUMBER.exec(value);
+  if (!match) return null;
+  const number = Number(match[1]);
+  if (number < 0 && !options.negative) return null;
+  if (match[2] === "%") return `${number}%`;
+  if (!match[2] && options.css && number !== 0) return null;
+  return number;
+};
+
+/**
+ * Formats a dimension in CSS syntax.
+ *
+ * @param value - Dimension value.
+ * @returns CSS text, e.g. `12px`.
+ */
+export const formatDimension = (value: DemoDimension) =>
+  typeof value === "number" ? `${value}px` : value;
+
+/**
+ * Returns the unit a dimension is written in.
+ *
+ * @param value - Dimension value.
+ * @returns Unit of the value.
+ */
+export const dimensionUnit = (value: DemoDimension): DimensionUnit => {
+  if (value === "auto") return "auto";
+  if (typeof value === "number") return "px";
+  return isCalc(value) ? "calc" : "%";
+};
+
+/**
+ * Converts a dimension to another unit, keeping the number where possible,
+ * e.g. `120` becomes `120%` and then `calc(120%)`.
+ *
+ * @param value - Current value.
+ * @param unit - Target unit.
+ * @returns Converted value.
+ */
+export const withUnit = (
+  value: DemoDimension,
+  unit: DimensionUnit,
+): DemoDimension => {
+  const resolved = resolveDimension(value);
+  const amount = resolved === "auto" ? 0 : parseFloat(String(resolved));
+  switch (unit) {
+    case "auto":
+      return "auto";
+    case "px":
+      return amount;
+    case "%":
+      return `${amount}%`;
+    case "calc":
+      return isCalc(value)
+        ? value
+        : `calc(${formatDimension(resolved === "auto" ? 0 : resolved)})`;
+  }
+};
@@ -0,0 +1,31 @@
+/**
+ * @module features/playground/lib/download
+ * @description Helper for saving generated playground files from the browser.
+ */
+
+/**
+ * Triggers a browser download of a text file.
+ *
+ * @param filename - Suggested file name.
+ * @param content - File contents.
+ * @param mimeType - MIME type of the file.
+ *
+ * @example
+ * downloadTextFile("layout.ts", source, "text/typescript");
+ */
+export const downloadTextFile = (
+  filename: string,
+  content: string,
+  mimeType = "text/plain",
+) => {
+  const url = URL.createObjectURL(
+    new Blob([content], { type: `${mimeType};charset=utf-8` }),
+  );
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
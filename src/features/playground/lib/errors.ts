@@ -0,0 +1,119 @@
+/**
+ * @module features/playground/lib/errors
+ * @description Error classes for loading playground state from external
+ * sources such as shared URLs, saved presets, and imported HTML.
+ *
+ * @example
+ * ```ts
+ * import { ShareStateError } from './errors';
+ *
+ * throw new ShareStateError('The link is not a valid playground link.');
+ * ```
+ */
+
+/**
+ * Error thrown when a shared playground payload cannot be decoded.
+ * The message is written for display to the user.
+ *
+ * @example
+ * ```ts
+ * throw new ShareStateError(
+ *   'This link was created by a newer version of the playground.',
+ *   originalError
+ * );
+ * ```
+ */
+export class ShareStateError extends Error {
+  /**
+   * Creates a new ShareStateError instance.
+   *
+   * @param message - Human-readable error description
+   * @param cause - Optional underlying error that caused this error
+   */
+  constructor(
+    message: string,
+    public readonly cause?: unknown,
+  ) {
+    super(message);
+    this.name = "ShareStateError";
+  }
+}
+
+/**
+ * Error thrown when pasted HTML cannot be turned into a playground layout.
+ * The message is written for display to the user.
+ *
+ * @example
+ * ```ts
+ * throw new LayoutImportError('The pasted HTML does not contain any element.');
+ * ```
+ */
+export class LayoutImportError extends Error {
+  /**
+   * Creates a new LayoutImportError instance.
+   *
+   * @param message - Human-readable error description
+   * @param cause - Optional underlying error that caused this error
+   */
+  constructor(
+    message: string,
+    public readonly cause?: unknown,
+  ) {
+    super(message);
+    this.name = "LayoutImportError";
+  }
+}
+
+/**
+ * Error thrown when an imported preset collection cannot be read.
+ * The message is written for display to the user.
+ *
+ * @example
+ * ```ts
+ * throw new PresetImportError('The file is not a preset collection.');
+ * ```
+ */
+export class PresetImportError extends Error {
+  /**
+   * Creates a new PresetImportError instance.
+   *
+   * @param message - Human-readable error description
+   * @param cause - Optional underlying error that caused this error
+   */
+  constructor(
+    message: string,
+    public readonly cause?: unknown,
+  ) {
+    super(message);
+    this.name = "PresetImportError";
+  }
+}
+
+/**
+ * Error thrown when a saved playground configuration does not match the
+ * configuration format. The message is written for display to the user and
+ * names the offending field.
+ *
+ * @example
+ * ```ts
+ * throw new ConfigValidationError(
+ *   'config.items[0].width must be a number.',
+ *   'config.items[0].width'
+ * );
+ * ```
+ */
+export class ConfigValidationError extends Error {
+  /**
+   * Creates a new ConfigValidationError instance.
+   *
+   * @param message - Human-readable error description
+   * @param path - Location of the invalid field, e.g. `config.items[0].width`
+   */
+  constructor(
+    message: string,
+    public readonly path: string,
+  ) {
+    super(message);
+    this.name = "ConfigValidationError";
+  }
+}
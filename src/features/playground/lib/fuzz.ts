@@ -0,0 +1,545 @@
+/**
+ * @module features/playground/lib/fuzz
+ * @description Generates random playground configurations and reduces the
+ * ones Taffy and the browser lay out differently to minimal reproductions.
+ *
+ * Generation is seeded, so a case can be regenerated from its seed and
+ * bounds. Reduction is greedy: it keeps applying the first simplification,
+ * such as removing an item or resetting a property to its default, that
+ * still makes the engines disagree.
+ */
+
+import {
+  ALIGN_CONTENT_OPTIONS,
+  ALIGN_ITEMS_OPTIONS,
+  ALIGN_SELF_OPTIONS,
+  FLEX_DIRECTION_OPTIONS,
+  FLEX_WRAP_OPTIONS,
+  GRID_AUTOFLOW_OPTIONS,
+  JUSTIFY_CONTENT_OPTIONS,
+  defaultContainer,
+  defaultItem,
+  uniformSides,
+  type DemoConfig,
+  type DemoDimension,
+  type DemoItem,
+  type DemoLayout,
+  type DemoLength,
+  type DemoSides,
+  type DemoTrack,
+  type DisplayMode,
+  type ItemPath,
+} from "@/features/playground/components/PlaygroundConfig";
+import {
+  compareLayouts,
+  layoutWithBrowser,
+  layoutWithTaffy,
+  type LayoutDifference,
+} from "./referenceLayout";
+import { removeItemAtPath, updateItemAtPath } from "./tree";
+
+/**
+ * Limits for generated configurations.
+ */
+export interface FuzzBounds {
+  /** Deepest nesting of containers below the root; 0 keeps trees flat. */
+  maxDepth: number;
+  /** Most items generated per container. */
+  maxItems: number;
+  /** Display modes containers are drawn from. */
+  displayModes: DisplayMode[];
+  /** Whether leaves may hold measured text. */
+  text: boolean;
+}
+
+/**
+ * Settings of a fuzzing run.
+ */
+export interface FuzzOptions {
+  /** Limits for generated configurations. */
+  bounds: FuzzBounds;
+  /** Number of configurations to generate. */
+  cases: number;
+  /** Seed of the first case; later cases use the following seeds. */
+  seed: number;
+  /** Largest difference in pixels that is not reported. */
+  tolerance: number;
+}
+
+/**
+ * A configuration Taffy and the browser lay out differently.
+ */
+export interface FuzzCase {
+  /** Seed the original configuration was generated from. */
+  seed: number;
+  /** Reduced configuration that still shows the divergence. */
+  config: DemoConfig;
+  /** Root size the case was laid out at. */
+  rootSize: { width: number; height: number };
+  /** Differences of the reduced configuration. */
+  differences: LayoutDifference[];
+}
+
+/**
+ * Default settings of the fuzz panel. Text is off because canvas metrics
+ * and the browser's text shaping rarely agree to the pixel.
+ */
+export const DEFAULT_FUZZ_OPTIONS: FuzzOptions = {
+  bounds: {
+    maxDepth: 1,
+    maxItems: 4,
+    displayModes: ["flex", "grid", "block"],
+    text: false,
+  },
+  cases: 200,
+  seed: 1,
+  tolerance: 1,
+};
+
+/**
+ * Most layouts computed while reducing one case.
+ */
+const MAX_REDUCTION_CHECKS = 500;
+
+/**
+ * Layouts computed while reducing a case before the caller may yield.
+ */
+const REDUCTION_CHECKS_PER_PAUSE = 10;
+
+/**
+ * Item sizes drawn from, mixing fixed, relative, and automatic sizes.
+ */
+const SIZES: DemoDimension[] = [
+  "auto",
+  "auto",
+  0,
+  20,
+  50,
+  80,
+  120,
+  "25%",
+  "50%",
+  "100%",
+];
+
+/**
+ * Margins drawn from; auto margins absorb free space.
+ */
+const MARGINS: DemoDimension[] = [0, 0, 5, 10, -5, "5%", "auto"];
+
+/**
+ * Padding and border widths drawn from.
+ */
+const LENGTHS: DemoLength[] = [0, 0, 2, 5, 10];
+
+/**
+ * Offsets of absolutely positioned items drawn from.
+ */
+const INSETS: DemoDimension[] = ["auto", "auto", 0, 10, "10%"];
+
+/**
+ * Grid track sizes drawn from.
+ */
+const TRACK_SIZES = [
+  "auto",
+  "1fr",
+  "2fr",
+  "40px",
+  "100px",
+  "20%",
+  "min-content",
+  "max-content",
+  "minmax(40px, 1fr)",
+];
+
+/**
+ * Text contents drawn from for text leaves.
+ */
+const TEXTS = [
+  "Hello",
+  "Hello world",
+  "The quick brown fox jumps over the lazy dog.",
+  "Supercalifragilistic",
+];
+
+/**
+ * Random number generator returning values in `[0, 1)`.
+ */
+type Random = () => number;
+
+/**
+ * Creates a seeded random number generator (mulberry32).
+ *
+ * @param seed - Seed; equal seeds produce equal sequences.
+ * @returns Random number generator.
+ */
+const createRandom = (seed: number): Random => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * Picks a random element.
+ *
+ * @param random - Random number generator.
+ * @param values - Values to pick from.
+ * @returns One of the values.
+ */
+const pick = <T>(random: Random, values: readonly T[]) =>
+  values[Math.floor(random() * values.length)];
+
+/**
+ * Picks a random integer.
+ *
+ * @param random - Random number generator.
+ * @param min - Smallest result.
+ * @param max - Largest result.
+ * @returns Integer between min and max, inclusive.
+ */
+const randomInt = (random: Random, min: number, max: number) =>
+  min + Math.floor(random() * (max - min + 1));
+
+/**
+ * Picks random values for the four sides of a box.
+ *
+ * @param random - Random number generator.
+ * @param values - Values to pick from.
+ * @returns Sides with independently picked values.
+ */
+const randomSides = <T>(
+  random: Random,
+  values: readonly T[],
+): DemoSides<T> => ({
+  top: pick(random, values),
+  right: pick(random, values),
+  bottom: pick(random, values),
+  left: pick(random, values),
+});
+
+/**
+ * Generates a random grid track list of one or two entries.
+ *
+ * @param random - Random number generator.
+ * @returns Track list; may be empty for an implicit grid.
+ */
+const randomTracks = (random: Random): DemoTrack[] =>
+  Array.from({ length: randomInt(random, 0, 2) }, () => ({
+    size: pick(random, TRACK_SIZES),
+    repeat: randomInt(random, 1, 3),
+  }));
+
+/**
+ * Generates a random item, possibly with a nested layout.
+ *
+ * @param random - Random number generator.
+ * @param depth - Nesting depth of the item's container.
+ * @param bounds - Generation limits.
+ * @returns Random item.
+ */
+const randomItem = (
+  random: Random,
+  depth: number,
+  bounds: FuzzBounds,
+): DemoItem => {
+  const absolute = random() < 0.1;
+  const item: DemoItem = {
+    ...defaultItem,
+    width: pick(random, SIZES),
+    height: pick(random, SIZES),
+    flexGrow: pick(random, [0, 0, 1, 2]),
+    flexShrink: pick(random, [0, 1, 1]),
+    flexBasis: random() < 0.3 ? pick(random, SIZES) : "auto",
+    alignSelf: random() < 0.3 ? pick(random, ALIGN_SELF_OPTIONS).value : "auto",
+    rowSpan: random() < 0.2 ? 2 : 1,
+    columnSpan: random() < 0.2 ? 2 : 1,
+    margin: random() < 0.3 ? randomSides(random, MARGINS) : uniformSides(0),
+    padding: random() < 0.3 ? randomSides(random, LENGTHS) : uniformSides(0),
+    border: random() < 0.2 ? randomSides(random, LENGTHS) : uniformSides(0),
+    minSize: {
+      width: random() < 0.15 ? pick(random, SIZES) : "auto",
+      height: random() < 0.15 ? pick(random, SIZES) : "auto",
+    },
+    maxSize: {
+      width: random() < 0.15 ? pick(random, SIZES) : "auto",
+      height: random() < 0.15 ? pick(random, SIZES) : "auto",
+    },
+    position: absolute ? "absolute" : "relative",
+    inset: absolute ? randomSides(random, INSETS) : uniformSides("auto"),
+    hidden: random() < 0.05,
+  };
+  if (depth < bounds.maxDepth && random() < 0.35) {
+    return { ...item, layout: randomLayout(random, depth + 1, bounds) };
+  }
+  if (bounds.text && random() < 0.3) {
+    return {
+      ...item,
+      text: { content: pick(random, TEXTS), fontSize: pick(random, [12, 16]) },
+    };
+  }
+  return item;
+};
+
+/**
+ * Generates a random container layout with its items.
+ *
+ * @param random - Random number generator.
+ * @param depth - Nesting depth of the layout; 0 for the root.
+ * @param bounds - Generation limits.
+ * @returns Random layout.
+ */
+const randomLayout = (
+  random: Random,
+  depth: number,
+  bounds: FuzzBounds,
+): DemoLayout => ({
+  displayMode: pick(
+    random,
+    bounds.displayModes.length > 0 ? bounds.displayModes : ["flex"],
+  ),
+  container: {
+    gapX: pick(random, LENGTHS),
+    gapY: pick(random, LENGTHS),
+    flex: {
+      direction: pick(random, FLEX_DIRECTION_OPTIONS).value,
+      justifyContent: pick(random, JUSTIFY_CONTENT_OPTIONS).value,
+      alignItems: pick(random, ALIGN_ITEMS_OPTIONS).value,
+      alignContent: pick(random, ALIGN_CONTENT_OPTIONS).value,
+      wrap: pick(random, FLEX_WRAP_OPTIONS).value,
+    },
+    grid: {
+      columns: randomTracks(random),
+      rows: randomTracks(random),
+      autoColumns: "",
+      autoRows: "",
+      autoFlow: pick(random, GRID_AUTOFLOW_OPTIONS).value,
+      areas: [],
+    },
+  },
+  // Nested containers keep an item; without one they would just be leaves
+  items: Array.from(
+    { length: randomInt(random, depth === 0 ? 0 : 1, bounds.maxItems) },
+    () => randomItem(random, depth, bounds),
+  ),
+});
+
+/**
+ * Generates a random configuration.
+ *
+ * @param seed - Seed of the case.
+ * @param bounds - Generation limits.
+ * @returns Configuration; the same seed and bounds always give the same one.
+ *
+ * @example
+ * randomConfig(42, DEFAULT_FUZZ_OPTIONS.bounds);
+ */
+export const randomConfig = (seed: number, bounds: FuzzBounds): DemoConfig => {
+  const random = createRandom(seed);
+  return {
+    ...randomLayout(random, 0, bounds),
+    padding: random() < 0.3 ? randomSides(random, LENGTHS) : uniformSides(0),
+    border: random() < 0.2 ? randomSides(random, LENGTHS) : uniformSides(0),
+  };
+};
+
+/**
+ * Lays out a configuration with Taffy and the browser and lists where they
+ * disagree. Taffy must already be loaded.
+ *
+ * @param config - Configuration to check.
+ * @param rootSize - Size of the root container.
+ * @param tolerance - Largest difference in pixels that is ignored.
+ * @returns Differences; empty when the engines agree or the browser failed.
+ */
+export const findDifferences = (
+  config: DemoConfig,
+  rootSize: { width: number; height: number },
+  tolerance: number,
+) =>
+  compareLayouts(
+    layoutWithTaffy(config, rootSize),
+    layoutWithBrowser(config, rootSize),
+    tolerance,
+  );
+
+/**
+ * Checks whether two values serialize identically.
+ *
+ * @param a - First value.
+ * @param b - Second value.
+ * @returns True when both are structurally equal.
+ */
+const isSame = (a: unknown, b: unknown) =>
+  JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Returns a copy of the configuration with one container's layout replaced.
+ *
+ * @param config - Configuration to update.
+ * @param parentPath - Path of the container item, or `[]` for the root.
+ * @param updater - Receives the layout and returns the next layout.
+ * @returns Updated configuration.
+ */
+const updateLayoutAt = (
+  config: DemoConfig,
+  parentPath: ItemPath,
+  updater: (layout: DemoLayout) => DemoLayout,
+): DemoConfig =>
+  parentPath.length === 0
+    ? { ...config, ...updater(config) }
+    : updateItemAtPath(config, parentPath, (item) =>
+        item.layout ? { ...item, layout: updater(item.layout) } : item,
+      );
+
+/**
+ * Simpler values container settings are reset to while reducing.
+ */
+const SIMPLE_CONTAINER: DemoLayout["container"] = {
+  ...defaultContainer,
+  gapX: 0,
+  gapY: 0,
+  grid: { ...defaultContainer.grid, columns: [], rows: [] },
+};
+
+/**
+ * Lists the one-step simplifications of a layout and its items, from the
+ * largest (removing whole items) to the smallest.
+ *
+ * @param config - Configuration being reduced.
+ * @param parentPath - Path of the container item, or `[]` for the root.
+ * @param layout - Layout at that path.
+ * @returns Simplified configurations.
+ */
+function* simplifyLayout(
+  config: DemoConfig,
+  parentPath: ItemPath,
+  layout: DemoLayout,
+): Generator<DemoConfig> {
+  for (let index = layout.items.length - 1; index >= 0; index -= 1) {
+    yield removeItemAtPath(config, [...parentPath, index]);
+  }
+
+  const { container } = layout;
+  const simpler: Partial<DemoLayout["container"]>[] = [
+    { gapX: SIMPLE_CONTAINER.gapX },
+    { gapY: SIMPLE_CONTAINER.gapY },
+    ...(Object.keys(container.flex) as (keyof typeof container.flex)[]).map(
+      (key) => ({
+        flex: { ...container.flex, [key]: SIMPLE_CONTAINER.flex[key] },
+      }),
+    ),
+    ...(Object.keys(container.grid) as (keyof typeof container.grid)[]).map(
+      (key) => ({
+        grid: { ...container.grid, [key]: SIMPLE_CONTAINER.grid[key] },
+      }),
+    ),
+  ];
+  for (const patch of simpler) {
+    const next = { ...container, ...patch };
+    if (!isSame(next, container)) {
+      yield updateLayoutAt(config, parentPath, (current) => ({
+        ...current,
+        container: next,
+      }));
+    }
+  }
+
+  for (const [index, item] of layout.items.entries()) {
+    const path = [...parentPath, index];
+    if (item.layout) {
+      const leaf = { ...item };
+      delete leaf.layout;
+      yield updateItemAtPath(config, path, () => leaf);
+    }
+    if (item.text) {
+      const empty = { ...item };
+      delete empty.text;
+      yield updateItemAtPath(config, path, () => empty);
+    }
+    for (const key of Object.keys(defaultItem) as (keyof DemoItem)[]) {
+      if (!isSame(item[key], defaultItem[key])) {
+        yield updateItemAtPath(config, path, (current) => ({
+          ...current,
+          [key]: defaultItem[key],
+        }));
+      }
+    }
+    if (item.layout) yield* simplifyLayout(config, path, item.layout);
+  }
+}
+
+/**
+ * Lists the one-step simplifications of a configuration.
+ *
+ * @param config - Configuration being reduced.
+ * @returns Simplified configurations.
+ */
+function* simplifyConfig(config: DemoConfig): Generator<DemoConfig> {
+  if (!isSame(config.padding, uniformSides(0))) {
+    yield { ...config, padding: uniformSides(0) };
+  }
+  if (!isSame(config.border, uniformSides(0))) {
+    yield { ...config, border: uniformSides(0) };
+  }
+  yield* simplifyLayout(config, [], config);
+}
+
+/**
+ * Reduces a failing configuration to a smaller one that still fails.
+ *
+ * The reduction calls `pause` every few checks, so the caller can yield to
+ * the browser between batches of layouts and cancel the reduction.
+ *
+ * @param config - Configuration that fails.
+ * @param fails - Whether a configuration still shows the problem.
+ * @param pause - Resolves to false to cancel the reduction.
+ * @returns Smallest failing configuration found within the check budget,
+ * or null when cancelled.
+ *
+ * @example
+ * const minimal = await reduceConfig(config, (candidate) =>
+ *   findDifferences(candidate, rootSize, 1).length > 0,
+ * );
+ */
+export const reduceConfig = async (
+  config: DemoConfig,
+  fails: (candidate: DemoConfig) => boolean,
+  pause: () => Promise<boolean> = async () => true,
+): Promise<DemoConfig | null> => {
+  let current = config;
+  let checks = 0;
+  let reduced = true;
+  while (reduced && checks < MAX_REDUCTION_CHECKS) {
+    reduced = false;
+    for (const candidate of simplifyConfig(current)) {
+      if (checks % REDUCTION_CHECKS_PER_PAUSE === 0 && !(await pause())) {
+        return null;
+      }
+      checks += 1;
+      if (fails(candidate)) {
+        current = candidate;
+        reduced = true;
+        break;
+      }
+      if (checks >= MAX_REDUCTION_CHECKS) break;
+    }
+  }
+  return current;
+};
+
+/**
+ * Counts the items of a layout, including nested ones.
+ *
+ * @param layout - Layout to count.
+ * @returns Number of items.
+ */
+export const countItems = (layout: DemoLayout): number =>
+  layout.items.reduce(
+    (count, item) => count + 1 + (item.layout ? countItems(item.layout) : 0),
+    0,
+  );
@@ -0,0 +1,144 @@
+/**
+ * @module features/playground/lib/gridAreas
+ * @description Conversion between `grid-template-areas` rows, as edited in
+ * the playground, and Taffy's list of named areas.
+ */
+
+import { type GridTemplateArea } from "taffy-layout";
+
+/**
+ * Result of parsing a template, with the first problem found if any.
+ */
+export interface TemplateAreasResult {
+  /** Named areas in order of first appearance. */
+  areas: GridTemplateArea[];
+  /** Description of why the template is invalid, or null. */
+  error: string | null;
+}
+
+/**
+ * Matches cells that leave a slot empty (`.`, `..`, ...).
+ */
+const NULL_CELL = /^\.+$/;
+
+/**
+ * Matches valid area names.
+ */
+const AREA_NAME = /^[A-Za-z_][\w-]*$/;
+
+/**
+ * Splits template rows into cells, ignoring blank rows.
+ *
+ * @param rows - Template rows such as `"header header"`.
+ * @returns Cell names per row.
+ */
+const toCells = (rows: string[]) =>
+  rows
+    .map((row) => row.trim())
+    .filter((row) => row.length > 0)
+    .map((row) => row.split(/\s+/));
+
+/**
+ * Parses `grid-template-areas` rows into named areas. Each name must cover a
+ * single filled rectangle and every row must have the same number of cells,
+ * as CSS requires.
+ *
+ * @param rows - Template rows, one string per grid row.
+ * @returns Areas with 1-based, end-exclusive lines, or an error message.
+ *
+ * @example
+ * parseTemplateAreas(["header header", "nav main"]).areas[0];
+ * // => { name: "header", rowStart: 1, rowEnd: 2, columnStart: 1, columnEnd: 3 }
+ */
+export const parseTemplateAreas = (rows: string[]): TemplateAreasResult => {
+  const cells = toCells(rows);
+  const columns = cells[0]?.length ?? 0;
+  const found = new Map<string, GridTemplateArea>();
+
+  for (const [row, names] of cells.entries()) {
+    if (names.length !== columns) {
+      return {
+        areas: [],
+        error: `Row ${row + 1} has ${names.length} cells; expected ${columns}.`,
+      };
+    }
+    for (const [column, name] of names.entries()) {
+      if (NULL_CELL.test(name)) continue;
+      if (!AREA_NAME.test(name)) {
+        return { areas: [], error: `"${name}" is not a valid area name.` };
+      }
+      const area = found.get(name);
+      if (!area) {
+        found.set(name, {
+          name,
+          rowStart: row + 1,
+          rowEnd: row + 2,
+          columnStart: column + 1,
+          columnEnd: column + 2,
+        });
+        continue;
+      }
+      area.rowEnd = Math.max(area.rowEnd, row + 2);
+      area.columnStart = Math.min(area.columnStart, column + 1);
+      area.columnEnd = Math.max(area.columnEnd, column + 2);
+    }
+  }
+
+  for (const area of found.values()) {
+    for (let row = area.rowStart - 1; row < area.rowEnd - 1; row++) {
+      for (
+        let column = area.columnStart - 1;
+        column < area.columnEnd - 1;
+        column++
+      ) {
+        if (cells[row][column] !== area.name) {
+          return {
+            areas: [],
+            error: `Area "${area.name}" is not a rectangle.`,
+          };
+        }
+      }
+    }
+  }
+
+  return { areas: [...found.values()], error: null };
+};
+
+/**
+ * Lists the area names of a template, ignoring invalid templates.
+ *
+ * @param rows - Template rows.
+ * @returns Area names in order of first appearance.
+ */
+export const listAreaNames = (rows: string[]) =>
+  parseTemplateAreas(rows).areas.map((area) => area.name);
+
+/**
+ * Rebuilds template rows from named areas, filling uncovered slots with `.`.
+ *
+ * @param areas - Named areas.
+ * @returns Template rows, one string per grid row.
+ *
+ * @example
+ * formatTemplateAreas([{ name: "main", rowStart: 1, rowEnd: 2, columnStart: 2, columnEnd: 3 }]);
+ * // => [". main"]
+ */
+export const formatTemplateAreas = (areas: GridTemplateArea[]) => {
+  const rows = Math.max(0, ...areas.map((area) => area.rowEnd - 1));
+  const columns = Math.max(0, ...areas.map((area) => area.columnEnd - 1));
+  const cells = Array.from({ length: rows }, () =>
+    Array.from({ length: columns }, () => "."),
+  );
+  for (const area of areas) {
+    for (let row = area.rowStart - 1; row < area.rowEnd - 1; row++) {
+      for (
+        let column = area.columnStart - 1;
+        column < area.columnEnd - 1;
+        column++
+      ) {
+        cells[row][column] = area.name;
+      }
+    }
+  }
+  return cells.map((row) => row.join(" "));
+};
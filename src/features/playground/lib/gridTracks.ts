@@ -0,0 +1,232 @@
+/**
+ * @module features/playground/lib/gridTracks
+ * @description Parses grid track sizes written in CSS syntax into Taffy's
+ * `TrackSizingFunction` and `GridTemplateComponent` values.
+ *
+ * Supported sizes are lengths (`100px`), percentages, `fr`, `auto`,
+ * `min-content`, `max-content`, `fit-content` and `minmax(min, max)`.
+ * taffy-layout's bindings only accept `fit-content` with a zero limit, so
+ * `fit-content(<length>)` with any other limit is reported as unsupported
+ * instead of being laid out differently from the browser.
+ */
+
+import type {
+  GridTemplateComponent,
+  MaxTrackSizingFunction,
+  MinTrackSizingFunction,
+  TrackSizingFunction,
+} from "taffy-layout";
+import {
+  type DemoTrack,
+  type TrackRepeat,
+} from "@/features/playground/components/PlaygroundConfig";
+
+/**
+ * Result of parsing track sizes, with the first problem found if any.
+ */
+export interface TrackParseResult<T> {
+  /** Parsed tracks; invalid entries are left out. */
+  tracks: T[];
+  /** Description of the first invalid size, or null. */
+  error: string | null;
+}
+
+/**
+ * Keywords valid as both the minimum and maximum of a track.
+ */
+const TRACK_KEYWORDS = new Set(["auto", "min-content", "max-content"]);
+
+/**
+ * Splits a value on separator characters outside parentheses.
+ *
+ * @param value - CSS value.
+ * @param separator - Pattern matching a single separator character.
+ * @returns Trimmed, non-empty parts.
+ */
+export const splitTopLevel = (value: string, separator: RegExp) => {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = "";
+  for (const char of value) {
+    if (char === "(") depth++;
+    if (char === ")") depth--;
+    if (depth === 0 && separator.test(char)) {
+      parts.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts.map((part) => part.trim()).filter((part) => part.length > 0);
+};
+
+/**
+ * Parses a length, percentage, or keyword usable as a track minimum.
+ *
+ * @param value - CSS value.
+ * @returns Minimum sizing function, or null when invalid.
+ */
+const parseMin = (value: string): MinTrackSizingFunction | null => {
+  if (TRACK_KEYWORDS.has(value)) return value as MinTrackSizingFunction;
+  const match = /^(\d*\.?\d+)(px|%)?$/.exec(value);
+  if (!match || (!match[2] && Number(match[1]) !== 0)) return null;
+  return match[2] === "%"
+    ? (`${Number(match[1])}%` as `${number}%`)
+    : Number(match[1]);
+};
+
+/**
+ * Parses a value usable as a track maximum.
+ *
+ * @param value - CSS value.
+ * @returns Maximum sizing function, or null when invalid.
+ */
+const parseMax = (value: string): MaxTrackSizingFunction | null => {
+  if (value === "fit-content") return value;
+  const fr = /^(\d*\.?\d+)fr$/.exec(value);
+  if (fr) return `${Number(fr[1])}fr`;
+  return parseMin(value);
+};
+
+/**
+ * Parses a single track size.
+ *
+ * @param value - CSS track size, e.g. `1fr` or `minmax(100px, 1fr)`.
+ * @returns The track, or a reason when the size is not supported.
+ *
+ * @example
+ * parseTrackSize("minmax(100px, 1fr)");
+ * // => { min: 100, max: "1fr" }
+ */
+export const parseTrackSize = (value: string): TrackSizingFunction | string => {
+  const size = value.trim().toLowerCase();
+  // A zero limit is what taffy-layout's fit-content means
+  if (/^fit-content\(\s*0(px)?\s*\)$/.test(size)) {
+    return { min: "auto", max: "fit-content" };
+  }
+  if (/^fit-content\(/.test(size)) {
+    return "fit-content() limits are not supported by taffy-layout; use fit-content.";
+  }
+
+  const minmax = /^minmax\((.*)\)$/.exec(size);
+  if (minmax) {
+    const args = splitTopLevel(minmax[1], /,/);
+    const min = args.length === 2 ? parseMin(args[0]) : null;
+    const max =
+      args.length === 2 && args[1] !== "fit-content" ? parseMax(args[1]) : null;
+    return min !== null && max !== null
+      ? { min, max }
+      : `"${value}" is not a valid minmax() size.`;
+  }
+
+  const max = parseMax(size);
+  if (max === null) return `"${value}" is not a supported track size.`;
+  // Flexible and fit-content tracks keep an automatic minimum, as in CSS
+  const min = parseMin(size) ?? "auto";
+  return { min, max };
+};
+
+/**
+ * Checks whether a track has a length or percentage bound, which CSS
+ * requires for tracks repeated with `auto-fill` or `auto-fit`.
+ *
+ * @param track - Track sizing function.
+ * @returns True when the minimum or maximum is fixed.
+ */
+const isFixedTrack = (track: TrackSizingFunction) =>
+  [track.min, track.max].some(
+    (bound) =>
+      typeof bound === "number" ||
+      (typeof bound === "string" && bound.endsWith("%")),
+  );
+
+/**
+ * Parses a space-separated list of track sizes, as used by
+ * `grid-auto-columns` and inside `repeat()`.
+ *
+ * @param value - CSS track sizes.
+ * @returns Parsed tracks and the first error.
+ */
+export const parseTrackSizes = (
+  value: string,
+): TrackParseResult<TrackSizingFunction> => {
+  const tracks: TrackSizingFunction[] = [];
+  let error: string | null = null;
+  for (const size of splitTopLevel(value, /\s/)) {
+    const track = parseTrackSize(size);
+    if (typeof track === "string") {
+      error ??= track;
+    } else {
+      tracks.push(track);
+    }
+  }
+  return { tracks, error };
+};
+
+/**
+ * Converts the playground's track list into Taffy template components.
+ *
+ * @param tracks - Track list entries.
+ * @returns Template components and the first error.
+ */
+export const buildTrackList = (
+  tracks: DemoTrack[],
+): TrackParseResult<GridTemplateComponent> => {
+  const components: GridTemplateComponent[] = [];
+  let error: string | null = null;
+  for (const track of tracks) {
+    const parsed = parseTrackSizes(track.size);
+    error ??= parsed.error;
+    if (parsed.tracks.length === 0) {
+      error ??= "A track needs a size.";
+      continue;
+    }
+    if (
+      typeof track.repeat === "string" &&
+      !parsed.tracks.every(isFixedTrack)
+    ) {
+      error ??= `repeat(${track.repeat}) needs tracks with a fixed minimum or maximum.`;
+      continue;
+    }
+    if (track.repeat === 1 && parsed.tracks.length === 1) {
+      components.push(parsed.tracks[0]);
+    } else {
+      components.push({ count: track.repeat, tracks: parsed.tracks });
+    }
+  }
+  return { tracks: components, error };
+};
+
+/**
+ * Parses a CSS `grid-template-columns`/`grid-template-rows` value into
+ * playground track list entries.
+ *
+ * @param value - CSS track list, e.g. `repeat(auto-fill, minmax(80px, 1fr))`.
+ * @returns Track list entries, or a reason when unsupported.
+ */
+export const parseTrackTemplate = (value: string): DemoTrack[] | string => {
+  if (value.trim() === "none") return [];
+  const entries: DemoTrack[] = [];
+  for (const part of splitTopLevel(value, /\s/)) {
+    const repeat = /^repeat\((.*)\)$/.exec(part);
+    const [count, size] = repeat
+      ? splitTopLevel(repeat[1], /,/)
+      : [undefined, part];
+    const times: TrackRepeat | null =
+      count === undefined
+        ? 1
+        : count === "auto-fill" || count === "auto-fit"
+          ? count
+          : /^\d+$/.test(count) && Number(count) > 0
+            ? Number(count)
+            : null;
+    if (times === null || size === undefined) {
+      return `"${part}" is not a supported repeat().`;
+    }
+    const { error } = parseTrackSizes(size);
+    if (error) return error;
+    entries.push({ size, repeat: times });
+  }
+  return entries;
+};
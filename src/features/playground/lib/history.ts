@@ -0,0 +1,231 @@
+/**
+ * @module features/playground/lib/history
+ * @description Bounded undo/redo history for playground configurations.
+ *
+ * The history is a list of snapshots with a cursor pointing at the present
+ * one. Committing drops any redo entries, and consecutive edits of the same
+ * fields within {@link COALESCE_WINDOW} milliseconds replace the latest
+ * snapshot instead of adding a new one, so dragging a slider produces a
+ * single undo step.
+ */
+
+import { type DemoConfig } from "@/features/playground/components/PlaygroundConfig";
+import { formatPath } from "./tree";
+
+/**
+ * Maximum number of snapshots kept, including the present one.
+ */
+export const HISTORY_LIMIT = 100;
+
+/**
+ * Time window in milliseconds in which edits of the same fields coalesce.
+ */
+export const COALESCE_WINDOW = 800;
+
+/**
+ * A snapshot in the history.
+ */
+export interface HistoryEntry {
+  /** Configuration after the change. */
+  config: DemoConfig;
+  /** Key of the preset the configuration started from. */
+  presetKey: string;
+  /** Short description of the change. */
+  label: string;
+  /** Fields touched by the change; null for changes that never coalesce. */
+  coalesceKey: string | null;
+  /** Time of the latest edit merged into this entry. */
+  time: number;
+}
+
+/**
+ * History state: snapshots plus the index of the present one.
+ */
+export interface HistoryState {
+  /** Snapshots from oldest to newest. */
+  entries: HistoryEntry[];
+  /** Index of the present snapshot. */
+  index: number;
+}
+
+/**
+ * Creates a history holding a single snapshot.
+ *
+ * @param config - Initial configuration.
+ * @param presetKey - Key of the preset the configuration comes from.
+ * @param label - Description of the initial state.
+ * @returns New history state.
+ */
+export const createHistory = (
+  config: DemoConfig,
+  presetKey: string,
+  label: string,
+): HistoryState => ({
+  entries: [{ config, presetKey, label, coalesceKey: null, time: 0 }],
+  index: 0,
+});
+
+/**
+ * Records a new configuration.
+ *
+ * @param history - Current history state.
+ * @param entry - Snapshot to record.
+ * @returns Updated history state.
+ */
+export const pushHistory = (
+  history: HistoryState,
+  entry: HistoryEntry,
+): HistoryState => {
+  const present = history.entries[history.index];
+  const kept = history.entries.slice(0, history.index + 1);
+
+  if (
+    entry.coalesceKey !== null &&
+    entry.coalesceKey === present.coalesceKey &&
+    history.index === history.entries.length - 1 &&
+    entry.time - present.time <= COALESCE_WINDOW
+  ) {
+    kept[kept.length - 1] = entry;
+    return { entries: kept, index: kept.length - 1 };
+  }
+
+  const entries = [...kept, entry].slice(-HISTORY_LIMIT);
+  return { entries, index: entries.length - 1 };
+};
+
+/**
+ * Moves the cursor to another snapshot.
+ *
+ * @param history - Current history state.
+ * @param index - Target snapshot index, clamped to the available range.
+ * @returns Updated history state.
+ */
+export const jumpHistory = (
+  history: HistoryState,
+  index: number,
+): HistoryState => {
+  const next = Math.min(history.entries.length - 1, Math.max(0, index));
+  return next === history.index ? history : { ...history, index: next };
+};
+
+/**
+ * Collects the paths of all values that differ between two objects.
+ *
+ * @param prev - Previous value.
+ * @param next - Next value.
+ * @param path - Path of the values being compared.
+ * @param changes - Collects changed paths.
+ */
+const collectChanges = (
+  prev: unknown,
+  next: unknown,
+  path: (string | number)[],
+  changes: (string | number)[][],
+) => {
+  if (prev === next) return;
+  if (
+    typeof prev !== "object" ||
+    typeof next !== "object" ||
+    prev === null ||
+    next === null ||
+    (Array.isArray(prev) && Array.isArray(next) && prev.length !== next.length)
+  ) {
+    changes.push(path);
+    return;
+  }
+  const keys = new Set([...Object.keys(prev), ...Object.keys(next)]);
+  for (const key of keys) {
+    collectChanges(
+      (prev as Record<string, unknown>)[key],
+      (next as Record<string, unknown>)[key],
+      [...path, Array.isArray(prev) ? Number(key) : key],
+      changes,
+    );
+  }
+};
+
+/**
+ * Field names that are only meaningful together with their parent, such as
+ * the sides of `margin` and the axes of `minSize`.
+ */
+const QUALIFIED_FIELDS = new Set([
+  "top",
+  "right",
+  "bottom",
+  "left",
+  "width",
+  "height",
+]);
+
+/**
+ * Splits a changed path into the item it belongs to and the field name.
+ *
+ * @param path - Path of a changed value inside a configuration.
+ * @returns Item path (`[]` for the root) and the innermost field name.
+ */
+const splitChange = (path: (string | number)[]) => {
+  const itemPath: number[] = [];
+  let rest = path;
+  while (rest[0] === "items" && typeof rest[1] === "number") {
+    itemPath.push(rest[1]);
+    rest = rest[2] === "layout" ? rest.slice(3) : rest.slice(2);
+  }
+  const names = rest.filter((part) => typeof part === "string");
+  const field =
+    names.length > 1 && QUALIFIED_FIELDS.has(names[names.length - 1])
+      ? names.slice(-2).join(".")
+      : (names.pop() ?? "");
+  return { itemPath, field };
+};
+
+/**
+ * Reads the value at a path.
+ *
+ * @param value - Root value.
+ * @param path - Path to read.
+ * @returns Value at the path.
+ */
+const readPath = (value: unknown, path: (string | number)[]) =>
+  path.reduce<unknown>(
+    (current, key) =>
+      typeof current === "object" && current !== null
+        ? (current as Record<string, unknown>)[key]
+        : undefined,
+    value,
+  );
+
+/**
+ * Describes the difference between two configurations for the history list
+ * and derives the coalescing key from the touched fields.
+ *
+ * @param prev - Configuration before the change.
+ * @param next - Configuration after the change.
+ * @returns Label and coalescing key of the change.
+ *
+ * @example
+ * describeConfigChange(prev, next);
+ * // => { label: "Item 1.2 · width: 140", coalesceKey: "items.0.layout.items.1.width" }
+ */
+export const describeConfigChange = (prev: DemoConfig, next: DemoConfig) => {
+  const changes: (string | number)[][] = [];
+  collectChanges(prev, next, [], changes);
+  if (changes.length === 0) {
+    return { label: "No change", coalesceKey: null };
+  }
+
+  const parts = changes.map(splitChange);
+  const { itemPath } = parts[0];
+  const scope =
+    itemPath.length === 0 ? "Container" : `Item ${formatPath(itemPath)}`;
+  const fields = [...new Set(parts.map((part) => part.field || "items"))];
+  const value = readPath(next, changes[0]);
+  const detail =
+    changes.length === 1 && typeof value !== "object"
+      ? `${fields[0]}: ${String(value)}`
+      : fields.join(", ");
+
+  return {
+    label: `${scope} · ${detail}`,
+    coalesceKey: changes.map((path) => path.join(".")).join("|"),
+  };
+};
@@ -0,0 +1,383 @@
+/**
+ * @module features/playground/lib/htmlExport
+ * @description Exports playground layouts as standalone HTML documents that
+ * use the equivalent flexbox/grid CSS, so Taffy's output can be compared
+ * with a browser's.
+ *
+ * The document follows the layout of Taffy's gentest fixtures: the root is
+ * `#test-root`, every node carries its style inline, and a base stylesheet
+ * aligns the browser defaults with Taffy's (`border-box` sizing, relatively
+ * positioned flex nodes). Text leaves keep their text, in the font and line
+ * height the playground measures them with.
+ */
+
+import type {
+  GridPlacement,
+  GridTemplateArea,
+  GridTemplateComponent,
+  Line,
+  Rect,
+  Size,
+  StyleProperty,
+  StylePropertyValues,
+  TrackSizingFunction,
+} from "taffy-layout";
+import {
+  DEFAULT_ROOT_SIZING,
+  type DemoConfig,
+  type RootSizing,
+  type RootSizingMode,
+} from "@/features/playground/components/PlaygroundConfig";
+import {
+  STYLE_ENUMS,
+  describeConfig,
+  significantStyleEntries,
+  type StyleNode,
+} from "./styles";
+import { formatTemplateAreas } from "./gridAreas";
+import { TEXT_FONT_FAMILY, TEXT_LINE_HEIGHT } from "./textMeasure";
+import { formatPath } from "./tree";
+
+/**
+ * Base stylesheet that makes browser defaults match Taffy's defaults.
+ */
+export const BASE_CSS = `body {
+  margin: 0;
+  padding: 24px;
+  font-family: ${TEXT_FONT_FAMILY};
+}
+
+div {
+  box-sizing: border-box;
+  position: relative;
+  display: flex;
+  line-height: ${TEXT_LINE_HEIGHT};
+  white-space: pre-line;
+  outline: 1px solid rgba(0, 122, 255, 0.6);
+  background-color: rgba(0, 122, 255, 0.06);
+}`;
+
+/**
+ * Enum members whose CSS keyword is not the kebab-cased member name.
+ */
+const CSS_KEYWORDS: Record<string, string> = {
+  NoWrap: "nowrap",
+  RowDense: "row dense",
+  ColumnDense: "column dense",
+};
+
+/**
+ * Converts a camelCase name to kebab-case.
+ *
+ * @param name - camelCase or PascalCase name.
+ * @returns kebab-case name.
+ */
+const toKebabCase = (name: string) =>
+  name.replace(/[A-Z]/g, (char, index) =>
+    index === 0 ? char.toLowerCase() : `-${char.toLowerCase()}`,
+  );
+
+/**
+ * Formats a length-like value: numbers become pixels, keywords and
+ * percentages are kept as is.
+ *
+ * @param value - Length, percentage, or keyword.
+ * @returns CSS value.
+ */
+const cssLength = (value: unknown) =>
+  typeof value === "number" ? `${value}px` : String(value);
+
+/**
+ * Formats a rect in CSS shorthand order (top, right, bottom, left), leaving
+ * out the values CSS repeats from the opposite side.
+ *
+ * @param rect - Rect of length-like values.
+ * @returns CSS shorthand value.
+ */
+const cssRect = (rect: Rect<unknown>) => {
+  const [top, right, bottom, left] = [
+    rect.top,
+    rect.right,
+    rect.bottom,
+    rect.left,
+  ].map(cssLength);
+  if (left !== right) return `${top} ${right} ${bottom} ${left}`;
+  if (top !== bottom) return `${top} ${right} ${bottom}`;
+  return top === right ? top : `${top} ${right}`;
+};
+
+/**
+ * Formats a single grid track sizing function.
+ *
+ * @param track - Track sizing function.
+ * @returns CSS track size.
+ */
+const cssTrack = (track: TrackSizingFunction) => {
+  if (track.min === track.max) return cssLength(track.min);
+  // Taffy's fit-content track has a zero limit
+  if (track.min === "auto" && track.max === "fit-content") {
+    return "fit-content(0px)";
+  }
+  if (
+    track.min === "auto" &&
+    typeof track.max === "string" &&
+    track.max.endsWith("fr")
+  ) {
+    return track.max;
+  }
+  return `minmax(${cssLength(track.min)}, ${cssLength(track.max)})`;
+};
+
+/**
+ * Formats a grid track list, including repetitions.
+ *
+ * @param components - Tracks or repetitions.
+ * @returns CSS track list.
+ */
+const cssTrackList = (components: GridTemplateComponent[]) =>
+  components
+    .map((component) =>
+      "count" in component
+        ? `repeat(${component.count}, ${component.tracks.map(cssTrack).join(" ")})`
+        : cssTrack(component),
+    )
+    .join(" ");
+
+/**
+ * Formats a grid placement.
+ *
+ * @param placement - Grid placement value.
+ * @returns CSS grid line value.
+ */
+const cssPlacement = (placement: GridPlacement) => {
+  if (typeof placement !== "object") return String(placement);
+  if ("span" in placement) {
+    return placement.ident === undefined
+      ? `span ${placement.span}`
+      : `span ${placement.span} ${placement.ident}`;
+  }
+  return placement.line === 1
+    ? placement.ident
+    : `${placement.line} ${placement.ident}`;
+};
+
+/**
+ * Converts one Taffy style property into CSS declarations.
+ *
+ * @param key - Style property name.
+ * @param value - Property value.
+ * @returns CSS property/value pairs.
+ */
+const cssDeclarations = (
+  key: StyleProperty,
+  value: unknown,
+): [string, string][] => {
+  const enumInfo = STYLE_ENUMS[key];
+  if (enumInfo && typeof value === "number") {
+    const member = enumInfo.values[value];
+    return [[toKebabCase(key), CSS_KEYWORDS[member] ?? toKebabCase(member)]];
+  }
+
+  switch (key) {
+    case "size":
+    case "minSize":
+    case "maxSize": {
+      const { width, height } = value as Size<unknown>;
+      const prefix = key === "size" ? "" : key === "minSize" ? "min-" : "max-";
+      // An unset maximum is `none` in CSS, not `auto`
+      const format = (length: unknown) =>
+        key === "maxSize" && length === "auto" ? "none" : cssLength(length);
+      return [
+        [`${prefix}width`, format(width)],
+        [`${prefix}height`, format(height)],
+      ];
+    }
+    case "padding":
+    case "margin":
+      return [[key, cssRect(value as Rect<unknown>)]];
+    case "border":
+      return [
+        ["border-width", cssRect(value as Rect<unknown>)],
+        ["border-style", "solid"],
+      ];
+    case "inset": {
+      const rect = value as Rect<unknown>;
+      // `auto` is the initial value of every side
+      return (["top", "right", "bottom", "left"] as const)
+        .filter((side) => rect[side] !== "auto")
+        .map((side) => [side, cssLength(rect[side])]);
+    }
+    case "gap": {
+      const { width, height } = value as Size<unknown>;
+      return [["gap", `${cssLength(height)} ${cssLength(width)}`]];
+    }
+    case "gridTemplateColumns":
+    case "gridTemplateRows":
+    case "gridAutoColumns":
+    case "gridAutoRows":
+      return [
+        [toKebabCase(key), cssTrackList(value as GridTemplateComponent[])],
+      ];
+    case "gridTemplateAreas":
+      // Single quotes keep the value readable inside the style attribute
+      return [
+        [
+          "grid-template-areas",
+          formatTemplateAreas(value as GridTemplateArea[])
+            .map((row) => `'${row}'`)
+            .join(" "),
+        ],
+      ];
+    case "gridRow":
+    case "gridColumn": {
+      const line = value as Line<GridPlacement>;
+      return [
+        [
+          toKebabCase(key),
+          `${cssPlacement(line.start)} / ${cssPlacement(line.end)}`,
+        ],
+      ];
+    }
+    case "flexGrow":
+    case "flexShrink":
+    case "aspectRatio":
+      return [[toKebabCase(key), String(value)]];
+    default:
+      return [[toKebabCase(key), cssLength(value)]];
+  }
+};
+
+/**
+ * Converts Taffy style properties into CSS declarations. Properties equal
+ * to Taffy's defaults are omitted.
+ *
+ * @param style - Style properties of a node.
+ * @returns CSS property/value pairs in declaration order.
+ */
+export const styleToCss = (style: StylePropertyValues): [string, string][] =>
+  significantStyleEntries(style).flatMap(([key, value]) =>
+    cssDeclarations(key, value),
+  );
+
+/**
+ * Escapes text for use inside an HTML attribute.
+ *
+ * @param value - Raw text.
+ * @returns Escaped text.
+ */
+const escapeAttribute = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/"/g, "&quot;").replace(/</g, "&lt;");
+
+/**
+ * Escapes text for use as element content.
+ *
+ * @param value - Raw text.
+ * @returns Escaped text.
+ */
+const escapeText = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+/**
+ * CSS size of the root on each axis per sizing mode: the canvas size, or
+ * the keyword that sizes the root by its content like Taffy does.
+ */
+const ROOT_CSS_SIZE: Record<RootSizingMode, (canvas: number) => string> = {
+  definite: (canvas) => `${canvas}px`,
+  auto: () => "auto",
+  minContent: () => "min-content",
+  maxContent: () => "max-content",
+};
+
+/**
+ * Renders a style node and its children as nested `div` elements.
+ *
+ * @param node - Style node to render.
+ * @param depth - Nesting depth, used for indentation.
+ * @param overrides - Declarations that replace or extend the node's own.
+ * @returns HTML markup.
+ */
+const renderNode = (
+  node: StyleNode,
+  depth: number,
+  overrides: Record<string, string> = {},
+): string => {
+  const indent = "  ".repeat(depth);
+  const declarations = styleToCss(node.style).map(
+    ([property, value]): [string, string] => [
+      property,
+      overrides[property] ?? value,
+    ],
+  );
+  Object.entries(overrides).forEach(([property, value]) => {
+    if (!declarations.some(([declared]) => declared === property)) {
+      declarations.push([property, value]);
+    }
+  });
+  if (node.text) {
+    declarations.push(["font-size", `${node.text.fontSize}px`]);
+  }
+  const style = declarations
+    .map(([property, value]) => `${property}: ${value};`)
+    .join(" ");
+  const id =
+    node.path.length === 0
+      ? ' id="test-root"'
+      : ` data-path="${formatPath(node.path)}"`;
+  const styleAttribute = style ? ` style="${escapeAttribute(style)}"` : "";
+  const open = `${indent}<div${id}${styleAttribute}>`;
+  if (node.text) return `${open}${escapeText(node.text.content)}</div>`;
+  if (!node.children?.length) return `${open}</div>`;
+  const children = node.children.map((child) => renderNode(child, depth + 1));
+  return `${open}\n${children.join("\n")}\n${indent}</div>`;
+};
+
+/**
+ * Renders the nodes of a playground configuration as nested `div`
+ * elements, without the surrounding document.
+ *
+ * @param config - Playground configuration.
+ * @param rootSize - Size of the root container.
+ * @param rootSizing - Sizing mode of each root axis.
+ * @returns Markup of the `#test-root` element; {@link BASE_CSS} applies.
+ */
+export const exportHtmlFragment = (
+  config: DemoConfig,
+  rootSize: Size<number>,
+  rootSizing: RootSizing = DEFAULT_ROOT_SIZING,
+) =>
+  renderNode(describeConfig(config, rootSize, rootSizing), 0, {
+    width: ROOT_CSS_SIZE[rootSizing.width](rootSize.width),
+    height: ROOT_CSS_SIZE[rootSizing.height](rootSize.height),
+  });
+
+/**
+ * Exports a playground configuration as a standalone HTML document.
+ *
+ * @param config - Playground configuration.
+ * @param rootSize - Size of the root container.
+ * @param title - Document title.
+ * @param rootSizing - Sizing mode of each root axis.
+ * @returns HTML source.
+ *
+ * @example
+ * downloadTextFile("layout.html", exportHtml(config, previewSize), "text/html");
+ */
+export const exportHtml = (
+  config: DemoConfig,
+  rootSize: Size<number>,
+  title = "Taffy playground layout",
+  rootSizing: RootSizing = DEFAULT_ROOT_SIZING,
+) => `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>${escapeAttribute(title)}</title>
+  <style>
+${BASE_CSS.replace(/^(?=.)/gm, "    ")}
+  </style>
+</head>
+<body>
+${exportHtmlFragment(config, rootSize, rootSizing)}
+</body>
+</html>
+`;
@@ -0,0 +1,929 @@
+/**
+ * @module features/playground/lib/htmlImport
+ * @description Parses HTML snippets with inline flexbox/grid styles, such as
+ * Taffy's gentest fixtures, into playground configurations.
+ *
+ * Each element becomes an item; elements with element children become
+ * containers. The root is `#test-root` when present, otherwise the first
+ * element of the document body. Containers without a `display` declaration
+ * are flex containers, as in the gentest base stylesheet. Text in elements
+ * without child elements becomes a text leaf. A pixel `width` or `height`
+ * on the root is returned as the root size, since gentest fixtures rely on
+ * it; an unset axis is laid out against max-content space, as in the
+ * gentests. CSS the playground
+ * cannot represent is dropped and listed in the import report instead of
+ * failing the import.
+ */
+
+import {
+  ALIGN_CONTENT_OPTIONS,
+  ALIGN_ITEMS_OPTIONS,
+  ALIGN_SELF_OPTIONS,
+  FLEX_DIRECTION_OPTIONS,
+  FLEX_WRAP_OPTIONS,
+  GRID_AUTOFLOW_OPTIONS,
+  JUSTIFY_CONTENT_OPTIONS,
+  POSITION_OPTIONS,
+  createLayout,
+  defaultContainer,
+  defaultItem,
+  defaultText,
+  uniformSides,
+  type DemoConfig,
+  type DemoItem,
+  type DemoLayout,
+  type DemoLength,
+  type DemoSides,
+  type DisplayMode,
+  type ItemPath,
+} from "@/features/playground/components/PlaygroundConfig";
+import { validateConfig } from "./configSchema";
+import { evaluateCalc, parseDimension, resolveLength } from "./dimensions";
+import { ConfigValidationError, LayoutImportError } from "./errors";
+import { parseTemplateAreas } from "./gridAreas";
+import {
+  parseTrackSizes,
+  parseTrackTemplate,
+  splitTopLevel,
+} from "./gridTracks";
+
+/**
+ * A CSS declaration that was not imported.
+ */
+export interface DroppedProperty {
+  /** Path of the item the declaration belonged to, or `[]` for the root. */
+  path: ItemPath;
+  /** CSS property name, or `#text` for text content. */
+  property: string;
+  /** Value as written in the source. */
+  value: string;
+  /** Why the declaration was dropped. */
+  reason: string;
+}
+
+/**
+ * Result of importing an HTML snippet.
+ */
+export interface HtmlImportResult {
+  /** Imported playground configuration. */
+  config: DemoConfig;
+  /** Declarations that could not be represented. */
+  dropped: DroppedProperty[];
+  /** Pixel size the root sets on each axis, or null where it sets none. */
+  rootSize: { width: number | null; height: number | null };
+}
+
+/**
+ * Handles one CSS property. Returns a reason when the value is not supported
+ * and leaves the target untouched in that case.
+ */
+type PropertyHandler<T> = (value: string, target: T) => string | undefined;
+
+const UNSUPPORTED_UNIT = "Only px, % and calc() values are supported.";
+const UNSUPPORTED_VALUE = "This value is not supported by the playground.";
+const UNSUPPORTED_DISPLAY =
+  "Only flex, grid, block and none display values are supported.";
+
+/**
+ * Checks whether a CSS display value is a playground display mode.
+ *
+ * @param value - CSS display value.
+ * @returns True for `flex`, `grid`, and `block`.
+ */
+const isDisplayMode = (value: string): value is DisplayMode =>
+  value === "flex" || value === "grid" || value === "block";
+
+/**
+ * Explains why a value with dimensions was not imported: a `calc()`
+ * expression that cannot be laid out, a unit other than px or %, or a
+ * dimension the property does not allow, such as a negative width.
+ *
+ * @param value - CSS value.
+ * @returns Reason for dropping the value.
+ */
+const dimensionReason = (value: string) => {
+  const parts = splitTopLevel(value, /\s/);
+  for (const part of parts) {
+    const error = part.startsWith("calc(") ? evaluateCalc(part).error : null;
+    if (error) return error;
+  }
+  const valid = parts.every(
+    (part) =>
+      parseDimension(part, { css: true, auto: true, negative: true }) !== null,
+  );
+  return valid ? UNSUPPORTED_VALUE : UNSUPPORTED_UNIT;
+};
+
+/**
+ * Parses a non-negative length: pixels, a percentage, or `calc()`.
+ *
+ * @param value - CSS length.
+ * @returns Length, or null when invalid or negative.
+ */
+const parseLength = (value: string) =>
+  parseDimension(value, { css: true }) as DemoLength | null;
+
+/**
+ * Parses a border width, which CSS does not allow as a percentage.
+ *
+ * @param value - CSS border width.
+ * @returns Length, or null when invalid.
+ */
+const parseBorderWidth = (value: string) => {
+  const length = parseLength(value);
+  return length === null || String(resolveLength(length)).endsWith("%")
+    ? null
+    : length;
+};
+
+/**
+ * Parses a non-negative size such as `width` or `flex-basis`.
+ *
+ * @param value - CSS size.
+ * @returns Dimension, or null when invalid.
+ */
+const parseSize = (value: string) =>
+  parseDimension(value, { css: true, auto: true });
+
+/**
+ * Parses a margin or inset, which may be negative or `auto`.
+ *
+ * @param value - CSS margin or inset value.
+ * @returns Margin or inset value, or null when invalid.
+ */
+const parseMargin = (value: string) =>
+  parseDimension(value, { css: true, auto: true, negative: true });
+
+/**
+ * Expands a box shorthand with one to four values, such as
+ * `padding: 4px 8px`, into sides.
+ *
+ * @param value - CSS shorthand value.
+ * @param parse - Parses a single side.
+ * @returns Sides, or null when any value is invalid.
+ */
+const parseSides = <T>(
+  value: string,
+  parse: (part: string) => T | null,
+): DemoSides<T> | null => {
+  const parts = splitTopLevel(value, /\s/).map(parse);
+  if (parts.length > 4 || parts.some((part) => part === null)) return null;
+  const [top, right = top, bottom = top, left = right] = parts as T[];
+  return { top, right, bottom, left };
+};
+
+/**
+ * Parses a non-negative number such as a flex factor.
+ *
+ * @param value - CSS number.
+ * @returns Parsed number, or null when invalid.
+ */
+const parseFactor = (value: string) => {
+  const number = Number(value);
+  return value !== "" && Number.isFinite(number) && number >= 0 ? number : null;
+};
+
+/**
+ * Finds the option key for a CSS keyword, e.g. `space-between` maps to
+ * `spaceBetween`.
+ *
+ * @param options - Option list of a playground select.
+ * @param value - CSS keyword.
+ * @returns Matching option key, or null when there is none.
+ */
+const parseKeyword = <T extends string>(
+  options: { value: T }[],
+  value: string,
+): T | null => {
+  const key = value.replace(/[- ]([a-z])/g, (_, char: string) =>
+    char.toUpperCase(),
+  );
+  return options.find((option) => option.value === key)?.value ?? null;
+};
+
+/**
+ * One side of a grid placement.
+ */
+type ParsedLine =
+  | { kind: "auto" }
+  | { kind: "line"; line: number }
+  | { kind: "span"; span: number }
+  | { kind: "area"; name: string };
+
+/**
+ * Parses one side of a grid placement: `auto`, a line number (negative
+ * lines count from the end), `span N`, or an area name.
+ *
+ * @param value - CSS grid line value.
+ * @returns Parsed line, or null when unsupported.
+ */
+const parseGridLine = (value: string): ParsedLine | null => {
+  if (value === "auto") return { kind: "auto" };
+  if (/^-?\d+$/.test(value) && Number(value) !== 0) {
+    return { kind: "line", line: Number(value) };
+  }
+  const span = /^span\s+(\d+)$/.exec(value);
+  if (span) return { kind: "span", span: Math.max(1, Number(span[1])) };
+  return /^[a-z_][\w-]*$/.test(value) && value !== "span"
+    ? { kind: "area", name: value }
+    : null;
+};
+
+/**
+ * Applies the start and end of a grid placement along one axis.
+ *
+ * @param item - Item to update.
+ * @param axis - Grid axis.
+ * @param start - Start line.
+ * @param end - End line.
+ * @returns Reason when the combination is not supported.
+ */
+const applyGridLines = (
+  item: DemoItem,
+  axis: "row" | "column",
+  start: ParsedLine,
+  end: ParsedLine,
+) => {
+  if (start.kind === "area" || end.kind === "area") {
+    const name = start.kind === "area" ? start.name : "";
+    if (end.kind !== "area" || end.name !== name) {
+      return "Named lines are only supported as a whole area.";
+    }
+    if (item.gridArea && item.gridArea !== name) {
+      return "Items can only be placed in one named area.";
+    }
+    item.gridArea = name;
+    return undefined;
+  }
+  if (start.kind === "span" && end.kind === "span") return UNSUPPORTED_VALUE;
+
+  const span =
+    start.kind === "span" ? start.span : end.kind === "span" ? end.span : 1;
+  if (axis === "row") {
+    item.rowStart = start.kind === "line" ? start.line : 0;
+    item.rowEnd = end.kind === "line" ? end.line : 0;
+    item.rowSpan = span;
+  } else {
+    item.columnStart = start.kind === "line" ? start.line : 0;
+    item.columnEnd = end.kind === "line" ? end.line : 0;
+    item.columnSpan = span;
+  }
+  return undefined;
+};
+
+/**
+ * Splits a `/`-separated grid shorthand and parses each part.
+ *
+ * @param value - CSS shorthand value.
+ * @param max - Maximum number of parts.
+ * @returns Parsed parts, or null when any part is unsupported.
+ */
+const parseGridParts = (value: string, max: number) => {
+  const parts = value.split("/").map((part) => parseGridLine(part.trim()));
+  if (parts.length > max || parts.some((part) => part === null)) return null;
+  return parts as ParsedLine[];
+};
+
+/**
+ * Fills the omitted end of a grid shorthand: an area name repeats, anything
+ * else becomes `auto`.
+ *
+ * @param start - Parsed start line.
+ * @returns End line.
+ */
+const defaultEnd = (start: ParsedLine): ParsedLine =>
+  start.kind === "area" ? start : { kind: "auto" };
+
+/**
+ * Reads the current start or end of an item's placement along one axis.
+ *
+ * @param item - Item to read.
+ * @param axis - Grid axis.
+ * @param side - Which end of the placement to read.
+ * @returns Parsed line.
+ */
+const currentGridLine = (
+  item: DemoItem,
+  axis: "row" | "column",
+  side: "start" | "end",
+): ParsedLine => {
+  if (item.gridArea) return { kind: "area", name: item.gridArea };
+  const [start, end, span] =
+    axis === "row"
+      ? [item.rowStart, item.rowEnd, item.rowSpan]
+      : [item.columnStart, item.columnEnd, item.columnSpan];
+  const line = side === "start" ? start : end;
+  if (line !== 0) return { kind: "line", line };
+  // The span sits on the side without a line, and on the end when neither
+  // side has one
+  return span > 1 && (side === "end" || end !== 0)
+    ? { kind: "span", span }
+    : { kind: "auto" };
+};
+
+/**
+ * Builds a handler for a keyword property of the flex container settings.
+ *
+ * @param field - Flex setting to update.
+ * @param options - Option list for the setting.
+ * @param aliases - CSS keywords mapped to existing options.
+ * @returns Property handler.
+ */
+const flexKeyword =
+  <K extends keyof DemoLayout["container"]["flex"]>(
+    field: K,
+    options: { value: DemoLayout["container"]["flex"][K] }[],
+    aliases: Record<string, DemoLayout["container"]["flex"][K]> = {},
+  ): PropertyHandler<DemoLayout> =>
+  (value, layout) => {
+    const key = aliases[value] ?? parseKeyword(options, value);
+    if (key === null) return UNSUPPORTED_VALUE;
+    layout.container.flex[field] = key;
+    return undefined;
+  };
+
+/**
+ * Builds a handler for a grid track list property.
+ *
+ * @param field - Track list to update.
+ * @returns Property handler.
+ */
+const trackList =
+  (field: "columns" | "rows"): PropertyHandler<DemoLayout> =>
+  (value, layout) => {
+    const tracks = parseTrackTemplate(value);
+    if (typeof tracks === "string") return tracks;
+    layout.container.grid[field] = tracks;
+    return undefined;
+  };
+
+/**
+ * Builds a handler for an implicit track size property.
+ *
+ * @param field - Implicit track setting to update.
+ * @returns Property handler.
+ */
+const autoTracks =
+  (field: "autoColumns" | "autoRows"): PropertyHandler<DemoLayout> =>
+  (value, layout) => {
+    const { error } = parseTrackSizes(value);
+    if (error) return error;
+    layout.container.grid[field] = value === "auto" ? "" : value;
+    return undefined;
+  };
+
+/**
+ * Builds a handler for a gap property.
+ *
+ * @param fields - Gap fields the value applies to, in CSS order.
+ * @returns Property handler.
+ */
+const gap =
+  (fields: ("gapX" | "gapY")[]): PropertyHandler<DemoLayout> =>
+  (value, layout) => {
+    const parts = splitTopLevel(value, /\s/).map(parseLength);
+    if (parts.length > fields.length || parts.some((part) => part === null)) {
+      return dimensionReason(value);
+    }
+    fields.forEach((field, index) => {
+      layout.container[field] = parts[Math.min(index, parts.length - 1)] ?? 0;
+    });
+    return undefined;
+  };
+
+/**
+ * Properties applied to the layout of elements with element children.
+ */
+const CONTAINER_PROPERTIES: Record<string, PropertyHandler<DemoLayout>> = {
+  display: (value, layout) => {
+    if (!isDisplayMode(value)) return UNSUPPORTED_DISPLAY;
+    layout.displayMode = value;
+    return undefined;
+  },
+  "flex-direction": flexKeyword("direction", FLEX_DIRECTION_OPTIONS),
+  "flex-wrap": flexKeyword("wrap", FLEX_WRAP_OPTIONS),
+  "flex-flow": (value, layout) => {
+    const snapshot = { ...layout.container.flex };
+    for (const token of value.split(/\s+/)) {
+      const direction = parseKeyword(FLEX_DIRECTION_OPTIONS, token);
+      const wrap = parseKeyword(FLEX_WRAP_OPTIONS, token);
+      if (direction) layout.container.flex.direction = direction;
+      else if (wrap) layout.container.flex.wrap = wrap;
+      else {
+        layout.container.flex = snapshot;
+        return UNSUPPORTED_VALUE;
+      }
+    }
+    return undefined;
+  },
+  "justify-content": flexKeyword("justifyContent", JUSTIFY_CONTENT_OPTIONS, {
+    normal: "flexStart",
+  }),
+  "align-items": flexKeyword("alignItems", ALIGN_ITEMS_OPTIONS, {
+    normal: "stretch",
+  }),
+  "align-content": flexKeyword("alignContent", ALIGN_CONTENT_OPTIONS, {
+    normal: "stretch",
+  }),
+  gap: gap(["gapY", "gapX"]),
+  "grid-gap": gap(["gapY", "gapX"]),
+  "row-gap": gap(["gapY"]),
+  "column-gap": gap(["gapX"]),
+  "grid-template-columns": trackList("columns"),
+  "grid-template-rows": trackList("rows"),
+  "grid-auto-columns": autoTracks("autoColumns"),
+  "grid-auto-rows": autoTracks("autoRows"),
+  "grid-template-areas": (value, layout) => {
+    if (value === "none") {
+      layout.container.grid.areas = [];
+      return undefined;
+    }
+    const rows = Array.from(value.matchAll(/(["'])(.*?)\1/g), (match) =>
+      match[2].trim(),
+    );
+    if (rows.length === 0) return UNSUPPORTED_VALUE;
+    const { error } = parseTemplateAreas(rows);
+    if (error) return error;
+    layout.container.grid.areas = rows;
+    return undefined;
+  },
+  "grid-auto-flow": (value, layout) => {
+    const key = parseKeyword(GRID_AUTOFLOW_OPTIONS, value);
+    if (key === null) return UNSUPPORTED_VALUE;
+    layout.container.grid.autoFlow = key;
+    return undefined;
+  },
+};
+
+/**
+ * Box edges and insets of an item that are set per side.
+ */
+type BoxField = "margin" | "padding" | "border" | "inset";
+
+/**
+ * Builds a handler for a box shorthand such as `padding` or `border-width`.
+ *
+ * @param field - Box edge to update.
+ * @param parse - Parses a single side.
+ * @returns Property handler.
+ */
+const boxSides =
+  <K extends BoxField>(
+    field: K,
+    parse: (value: string) => DemoItem[K]["top"] | null,
+  ): PropertyHandler<DemoItem> =>
+  (value, item) => {
+    const sides = parseSides(value, parse);
+    if (sides === null) return dimensionReason(value);
+    item[field] = sides as DemoItem[K];
+    return undefined;
+  };
+
+/**
+ * Builds a handler for one side of a box edge, such as `padding-top`.
+ *
+ * @param field - Box edge to update.
+ * @param side - Side to update.
+ * @param parse - Parses the value.
+ * @returns Property handler.
+ */
+const boxSide =
+  <K extends BoxField>(
+    field: K,
+    side: keyof DemoSides,
+    parse: (value: string) => DemoItem[K]["top"] | null,
+  ): PropertyHandler<DemoItem> =>
+  (value, item) => {
+    const parsed = parse(value);
+    if (parsed === null) return dimensionReason(value);
+    item[field] = { ...item[field], [side]: parsed };
+    return undefined;
+  };
+
+/**
+ * Builds handlers for the per-side longhands of a box edge.
+ *
+ * @param field - Box edge to update.
+ * @param property - Builds the CSS property name for a side.
+ * @param parse - Parses the value.
+ * @returns Property handlers keyed by CSS property.
+ */
+const boxLonghands = <K extends BoxField>(
+  field: K,
+  property: (side: keyof DemoSides) => string,
+  parse: (value: string) => DemoItem[K]["top"] | null,
+) =>
+  Object.fromEntries(
+    (["top", "right", "bottom", "left"] as const).map((side) => [
+      property(side),
+      boxSide(field, side, parse),
+    ]),
+  );
+
+/**
+ * Properties applied to every element, including the root.
+ */
+const BOX_PROPERTIES: Record<string, PropertyHandler<DemoItem>> = {
+  padding: boxSides("padding", parseLength),
+  ...boxLonghands("padding", (side) => `padding-${side}`, parseLength),
+  "border-width": boxSides("border", parseBorderWidth),
+  ...boxLonghands("border", (side) => `border-${side}-width`, parseBorderWidth),
+  border: (value, item) => {
+    // Only the width affects layout; style and color are not imported
+    const widths = splitTopLevel(value, /\s/)
+      .map(parseBorderWidth)
+      .filter((part) => part !== null);
+    if (value !== "none" && widths.length !== 1) {
+      return "Borders are only supported with one explicit width.";
+    }
+    item.border = uniformSides(widths[0] ?? 0);
+    return undefined;
+  },
+  // Borders are laid out with their width whatever the style, as in Taffy
+  "border-style": () => undefined,
+};
+
+/**
+ * Builds a handler for a minimum or maximum size property.
+ *
+ * @param field - Size limit to update.
+ * @param axis - Axis of the limit.
+ * @returns Property handler.
+ */
+const sizeLimit =
+  (
+    field: "minSize" | "maxSize",
+    axis: "width" | "height",
+  ): PropertyHandler<DemoItem> =>
+  (value, item) => {
+    const unset = field === "minSize" ? "auto" : "none";
+    const size =
+      value === unset ? "auto" : parseDimension(value, { css: true });
+    if (size === null) return dimensionReason(value);
+    item[field] = { ...item[field], [axis]: size };
+    return undefined;
+  };
+
+/**
+ * Builds a handler for an item size property.
+ *
+ * @param axis - Size axis to update.
+ * @returns Property handler.
+ */
+const itemSize =
+  (axis: "width" | "height"): PropertyHandler<DemoItem> =>
+  (value, item) => {
+    const size = parseSize(value);
+    if (size === null) return dimensionReason(value);
+    item[axis] = size;
+    return undefined;
+  };
+
+/**
+ * Applies a flex-basis value to an item.
+ *
+ * @param value - CSS flex-basis value.
+ * @param item - Item to update.
+ * @returns Reason when the value is not supported.
+ */
+const applyFlexBasis: PropertyHandler<DemoItem> = (value, item) => {
+  const basis = parseSize(value);
+  if (basis === null) return dimensionReason(value);
+  item.flexBasis = basis;
+  return undefined;
+};
+
+/**
+ * Expansions of the keyword values of the `flex` shorthand.
+ */
+const FLEX_KEYWORDS: Record<string, string> = {
+  none: "0 0 auto",
+  auto: "1 1 auto",
+  initial: "0 1 auto",
+};
+
+/**
+ * Builds a handler for a `grid-row` or `grid-column` shorthand.
+ *
+ * @param axis - Grid axis to update.
+ * @returns Property handler.
+ */
+const gridPlacement =
+  (axis: "row" | "column"): PropertyHandler<DemoItem> =>
+  (value, item) => {
+    const parts = parseGridParts(value, 2);
+    if (parts === null) return UNSUPPORTED_VALUE;
+    const [start, end = defaultEnd(start)] = parts;
+    return applyGridLines(item, axis, start, end);
+  };
+
+/**
+ * Builds a handler for a grid line longhand such as `grid-row-start`.
+ *
+ * @param axis - Grid axis to update.
+ * @param side - Which end of the placement the property sets.
+ * @returns Property handler.
+ */
+const gridLonghand =
+  (axis: "row" | "column", side: "start" | "end"): PropertyHandler<DemoItem> =>
+  (value, item) => {
+    const line = parseGridLine(value);
+    if (line === null) return UNSUPPORTED_VALUE;
+    if (line.kind === "area") {
+      return "Named lines are only supported as a whole area.";
+    }
+    const other = currentGridLine(
+      item,
+      axis,
+      side === "start" ? "end" : "start",
+    );
+    if (other.kind === "area") {
+      return "Named lines are only supported as a whole area.";
+    }
+    return side === "start"
+      ? applyGridLines(item, axis, line, other)
+      : applyGridLines(item, axis, other, line);
+  };
+
+/**
+ * Properties applied to every element except the root.
+ */
+const ITEM_PROPERTIES: Record<string, PropertyHandler<DemoItem>> = {
+  width: itemSize("width"),
+  height: itemSize("height"),
+  "min-width": sizeLimit("minSize", "width"),
+  "min-height": sizeLimit("minSize", "height"),
+  "max-width": sizeLimit("maxSize", "width"),
+  "max-height": sizeLimit("maxSize", "height"),
+  margin: boxSides("margin", parseMargin),
+  ...boxLonghands("margin", (side) => `margin-${side}`, parseMargin),
+  "flex-grow": (value, item) => {
+    const factor = parseFactor(value);
+    if (factor === null) return UNSUPPORTED_VALUE;
+    item.flexGrow = factor;
+    return undefined;
+  },
+  "flex-shrink": (value, item) => {
+    const factor = parseFactor(value);
+    if (factor === null) return UNSUPPORTED_VALUE;
+    item.flexShrink = factor;
+    return undefined;
+  },
+  "flex-basis": applyFlexBasis,
+  position: (value, item) => {
+    const key = parseKeyword(POSITION_OPTIONS, value);
+    if (key === null) {
+      return "Only relative and absolute positioning are supported.";
+    }
+    item.position = key;
+    return undefined;
+  },
+  inset: boxSides("inset", parseMargin),
+  ...boxLonghands("inset", (side) => side, parseMargin),
+  flex: (value, item) => {
+    const tokens = (FLEX_KEYWORDS[value] ?? value).split(" ");
+    const grow = parseFactor(tokens[0]);
+    const second = tokens.length > 1 ? parseFactor(tokens[1]) : null;
+    const shrink = tokens.length === 3 || second !== null ? second : 1;
+    const basis =
+      tokens.length === 1 || (tokens.length === 2 && second !== null)
+        ? "0"
+        : tokens[tokens.length - 1];
+    if (grow === null || shrink === null || tokens.length > 3) {
+      return UNSUPPORTED_VALUE;
+    }
+    const reason = applyFlexBasis(basis, item);
+    if (reason) return reason;
+    item.flexGrow = grow;
+    item.flexShrink = shrink;
+    return undefined;
+  },
+  "align-self": (value, item) => {
+    const key =
+      value === "normal" ? "auto" : parseKeyword(ALIGN_SELF_OPTIONS, value);
+    if (key === null) return UNSUPPORTED_VALUE;
+    item.alignSelf = key;
+    return undefined;
+  },
+  "grid-column": gridPlacement("column"),
+  "grid-row": gridPlacement("row"),
+  "grid-column-start": gridLonghand("column", "start"),
+  "grid-column-end": gridLonghand("column", "end"),
+  "grid-row-start": gridLonghand("row", "start"),
+  "grid-row-end": gridLonghand("row", "end"),
+  "grid-area": (value, item) => {
+    const parts = parseGridParts(value, 4);
+    if (parts === null) return UNSUPPORTED_VALUE;
+    const [rowStart, columnStart = defaultEnd(rowStart)] = parts;
+    const [
+      ,
+      ,
+      rowEnd = defaultEnd(rowStart),
+      columnEnd = defaultEnd(columnStart),
+    ] = parts;
+    return (
+      applyGridLines(item, "row", rowStart, rowEnd) ??
+      applyGridLines(item, "column", columnStart, columnEnd)
+    );
+  },
+};
+
+/**
+ * Splits an inline style attribute into lowercase property/value pairs.
+ *
+ * @param style - Contents of a `style` attribute.
+ * @returns Declarations in source order.
+ */
+const parseInlineStyle = (style: string): [string, string][] =>
+  style
+    .split(";")
+    .map((declaration) => {
+      const colon = declaration.indexOf(":");
+      if (colon === -1) return null;
+      const property = declaration.slice(0, colon).trim().toLowerCase();
+      const value = declaration
+        .slice(colon + 1)
+        .replace(/!important/i, "")
+        .trim()
+        .toLowerCase()
+        .replace(/\s+/g, " ");
+      return property && value ? ([property, value] as [string, string]) : null;
+    })
+    .filter((entry): entry is [string, string] => entry !== null);
+
+/**
+ * Returns the text directly inside an element, ignoring child elements.
+ *
+ * @param element - Element to inspect.
+ * @returns Trimmed text content.
+ */
+const ownText = (element: Element) =>
+  Array.from(element.childNodes)
+    .filter((node) => node.nodeType === 3)
+    .map((node) => node.textContent ?? "")
+    .join("")
+    .trim();
+
+/**
+ * Converts an element into an item, recursing into its children. Dropped
+ * declarations are reported in document order.
+ *
+ * @param element - Container element.
+ * @param path - Path of the element, or `[]` for the root.
+ * @param dropped - Collects declarations that were not imported.
+ * @returns The element's item, with a layout when it has child elements.
+ */
+const parseElement = (
+  element: Element,
+  path: ItemPath,
+  dropped: DroppedProperty[],
+): DemoItem => {
+  const isRoot = path.length === 0;
+  const children = Array.from(element.children);
+  const item: DemoItem = { ...defaultItem, width: "auto", height: "auto" };
+  // Start from CSS initial values: no gaps or explicit tracks
+  const layout =
+    children.length > 0 || isRoot
+      ? createLayout("flex", {
+          gapX: 0,
+          gapY: 0,
+          grid: { ...defaultContainer.grid, columns: [], rows: [] },
+        })
+      : undefined;
+  let fontSize: { value: string; size: number } | undefined;
+
+  for (const [property, value] of parseInlineStyle(
+    element.getAttribute("style") ?? "",
+  )) {
+    const drop = (reason: string) =>
+      dropped.push({ path, property, value, reason });
+    const boxHandler = BOX_PROPERTIES[property];
+    const containerHandler = CONTAINER_PROPERTIES[property];
+    const itemHandler = ITEM_PROPERTIES[property];
+
+    if (property === "display" && value === "none") {
+      if (isRoot) {
+        drop("The root cannot be hidden.");
+      } else {
+        item.hidden = true;
+      }
+    } else if (property === "font-size") {
+      const size = parseDimension(value, { css: true });
+      if (typeof size === "number" && size > 0) {
+        fontSize = { value, size };
+      } else {
+        drop("Only font sizes in pixels are supported.");
+      }
+    } else if (boxHandler) {
+      const reason = boxHandler(value, item);
+      if (reason) drop(reason);
+    } else if (containerHandler) {
+      if (layout) {
+        const reason = containerHandler(value, layout);
+        if (reason) drop(reason);
+      } else if (property !== "display") {
+        drop("Container properties have no effect without child elements.");
+      } else if (!isDisplayMode(value)) {
+        drop(UNSUPPORTED_DISPLAY);
+      }
+    } else if (itemHandler) {
+      if (!isRoot) {
+        const reason = itemHandler(value, item);
+        if (reason) drop(reason);
+      } else if (property === "width" || property === "height") {
+        // The root's size is returned separately as the canvas size
+        const size = parseDimension(value, { css: true, auto: true });
+        if (typeof size === "number" && size > 0) {
+          item[property] = size;
+        } else if (size !== "auto") {
+          drop("Only pixel sizes of the root are imported.");
+        }
+      } else {
+        drop("This property has no effect on the root container.");
+      }
+    } else {
+      drop("This property is not supported by the playground.");
+    }
+  }
+
+  const text = ownText(element);
+  if (text && !layout) {
+    item.text = {
+      content: text,
+      fontSize: fontSize?.size ?? defaultText.fontSize,
+    };
+  } else {
+    if (text) {
+      dropped.push({
+        path,
+        property: "#text",
+        value: text.length > 40 ? `${text.slice(0, 40)}…` : text,
+        reason: "Only text in elements without child elements is measured.",
+      });
+    }
+    if (fontSize) {
+      dropped.push({
+        path,
+        property: "font-size",
+        value: fontSize.value,
+        reason: "Font size has no effect without text.",
+      });
+    }
+  }
+
+  if (!layout) return item;
+  layout.items = children.map((child, index) =>
+    parseElement(child, [...path, index], dropped),
+  );
+  return { ...item, layout };
+};
+
+/**
+ * Imports an HTML snippet or gentest fixture as a playground configuration.
+ *
+ * @param source - HTML source.
+ * @returns Imported configuration, the list of dropped declarations, and
+ * the root size.
+ * @throws LayoutImportError when the source contains no element, or the
+ * imported layout does not pass {@link validateConfig}.
+ *
+ * @example
+ * const { config, dropped } = importHtml(
+ *   '<div style="display: grid; grid-template-columns: 1fr 1fr"><div></div></div>',
+ * );
+ */
+export const importHtml = (source: string): HtmlImportResult => {
+  const doc = new DOMParser().parseFromString(source, "text/html");
+  const root = doc.getElementById("test-root") ?? doc.body.firstElementChild;
+  if (!root) {
+    throw new LayoutImportError(
+      "The pasted HTML does not contain any element.",
+    );
+  }
+
+  const dropped: DroppedProperty[] = [];
+  // The root always parses as a layout, even without child elements
+  const {
+    layout = createLayout("flex"),
+    padding,
+    border,
+    width,
+    height,
+  } = parseElement(root, [], dropped);
+  try {
+    return {
+      config: validateConfig({ ...layout, padding, border }),
+      dropped,
+      rootSize: {
+        width: typeof width === "number" ? width : null,
+        height: typeof height === "number" ? height : null,
+      },
+    };
+  } catch (err) {
+    if (!(err instanceof ConfigValidationError)) throw err;
+    throw new LayoutImportError(
+      `The HTML produced an invalid layout: ${err.message}`,
+      err,
+    );
+  }
+};
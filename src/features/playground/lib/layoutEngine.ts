@@ -0,0 +1,462 @@
+/**
+ * @module features/playground/lib/layoutEngine
+ * @description Lays out playground configurations with a persistent
+ * `TaffyTree` that is updated in place, and converts the results to and
+ * from the flat form sent between the layout worker and the page.
+ */
+
+import { Display, Position, TaffyTree, Style } from "taffy-layout";
+import {
+  ITEM_COLORS,
+  type DemoConfig,
+  type DemoText,
+  type LayoutNode,
+  type NodeMeta,
+  type RootSizing,
+} from "@/features/playground/components/PlaygroundConfig";
+import {
+  describeConfig,
+  rootAvailableSpace,
+  type StyleNode,
+} from "@/features/playground/lib/styles";
+import { measureTextNode } from "@/features/playground/lib/textMeasure";
+import { formatPath } from "@/features/playground/lib/tree";
+
+/**
+ * Layout node without children, pointing at its parent instead.
+ */
+export interface FlatLayoutNode extends Omit<LayoutNode, "children"> {
+  /** Index of the parent in the flat list, or -1 for the root. */
+  parent: number;
+}
+
+/**
+ * Configuration and canvas size to lay out as one frame of a batch.
+ */
+export interface LayoutFrame {
+  /** Configuration to lay out. */
+  config: DemoConfig;
+  /** Size of the canvas. */
+  size: { width: number; height: number };
+}
+
+/**
+ * Layout request sent to the layout worker.
+ */
+export interface LayoutRequest {
+  /** Request kind. */
+  type: "layout";
+  /** Increasing request id; responses carry it back. */
+  id: number;
+  /** Configuration to lay out. */
+  config: DemoConfig;
+  /** Size of the canvas. */
+  size: { width: number; height: number };
+  /** Sizing mode of each root axis. */
+  sizing: RootSizing;
+}
+
+/**
+ * Batch request sent to the layout worker: every frame is laid out in turn,
+ * as for the frames of a sweep or the viewports of a comparison.
+ */
+export interface BatchRequest {
+  /** Request kind. */
+  type: "batch";
+  /** Increasing request id; responses carry it back. */
+  id: number;
+  /** Configuration and canvas size of each frame. */
+  frames: LayoutFrame[];
+  /** Sizing mode of each root axis. */
+  sizing: RootSizing;
+}
+
+/**
+ * Request sent to the layout worker.
+ */
+export type LayoutWorkerRequest = LayoutRequest | BatchRequest;
+
+/**
+ * Message posted by the layout worker.
+ */
+export type LayoutWorkerMessage =
+  /** Taffy has loaded and requests can be laid out. */
+  | { type: "ready" }
+  /** Result of a request, with the time the layout took in milliseconds. */
+  | { type: "layout"; id: number; nodes: FlatLayoutNode[]; time: number }
+  /** Result of a batch, with the time all frames took. */
+  | { type: "batch"; id: number; frames: FlatLayoutNode[][]; time: number }
+  /** A request failed, or Taffy could not be loaded (`id` null). */
+  | { type: "error"; id: number | null; message: string };
+
+/**
+ * Recursively collects layout nodes from the Taffy tree.
+ *
+ * Traverses the Taffy tree starting from the root node and builds a
+ * hierarchy of LayoutNode objects with position, size, resolved box
+ * edges, content and scrollbar sizes, grid tracks, and metadata.
+ *
+ * @param taffyTree - The Taffy layout tree instance.
+ * @param rootNode - The root node ID to start collection from.
+ * @param metaById - Mapping of node IDs to their metadata.
+ * @returns Array of LayoutNode objects representing the computed layout.
+ */
+const collectLayouts = (
+  taffyTree: TaffyTree,
+  rootNode: bigint,
+  metaById: Record<string, NodeMeta>,
+): LayoutNode[] => {
+  const nodes = new Map<bigint, LayoutNode>();
+  const childrenById = new Map<bigint, bigint[]>();
+  const visited = new Set<bigint>();
+  const queue = [rootNode];
+
+  while (queue.length > 0) {
+    const nodeId = queue.shift();
+    if (nodeId === undefined) break;
+    if (visited.has(nodeId)) continue;
+    visited.add(nodeId);
+
+    const layout = taffyTree.getLayout(nodeId);
+    const meta = metaById[nodeId.toString()];
+    const children = taffyTree.children(nodeId);
+    const childIds: bigint[] = [];
+    for (const child of children) {
+      childIds.push(child);
+    }
+
+    nodes.set(nodeId, {
+      id: nodeId,
+      x: layout.x,
+      y: layout.y,
+      width: layout.width,
+      height: layout.height,
+      margin: {
+        top: layout.marginTop,
+        right: layout.marginRight,
+        bottom: layout.marginBottom,
+        left: layout.marginLeft,
+      },
+      border: {
+        top: layout.borderTop,
+        right: layout.borderRight,
+        bottom: layout.borderBottom,
+        left: layout.borderLeft,
+      },
+      padding: {
+        top: layout.paddingTop,
+        right: layout.paddingRight,
+        bottom: layout.paddingBottom,
+        left: layout.paddingLeft,
+      },
+      contentSize: {
+        width: layout.contentWidth,
+        height: layout.contentHeight,
+      },
+      scrollbarSize: {
+        width: layout.scrollbarWidth,
+        height: layout.scrollbarHeight,
+      },
+      order: layout.order,
+      meta,
+      // Childless grids are laid out as leaves and have no track details
+      grid:
+        meta?.isGrid && childIds.length > 0
+          ? (taffyTree.detailedLayoutInfo(nodeId) ?? undefined)
+          : undefined,
+    });
+    layout.free();
+    childrenById.set(nodeId, childIds);
+
+    for (const childId of childIds) {
+      queue.push(childId);
+    }
+  }
+
+  for (const [nodeId, childIds] of childrenById.entries()) {
+    const node = nodes.get(nodeId);
+    if (!node || childIds.length === 0) continue;
+    const childNodes = childIds
+      .map((childId) => nodes.get(childId))
+      .filter((child): child is LayoutNode => Boolean(child));
+    node.children = childNodes.length > 0 ? childNodes : undefined;
+  }
+
+  const rootLayout = nodes.get(rootNode);
+  return rootLayout ? [rootLayout] : [];
+};
+
+/**
+ * Taffy node kept in sync with a style node, mirroring what was last sent to
+ * the tree so the next configuration can be applied as a diff.
+ */
+interface SyncedNode {
+  /** Taffy node ID. */
+  id: bigint;
+  /** Serialized style last set on the node. */
+  styleKey: string;
+  /** Text context last set on the node. */
+  text?: DemoText;
+  /** Child nodes in item order. */
+  children: SyncedNode[];
+}
+
+/**
+ * Checks whether two text contexts measure the same.
+ *
+ * @param a - First text, if any.
+ * @param b - Second text, if any.
+ * @returns True when both are absent or equal.
+ */
+const isSameText = (a?: DemoText, b?: DemoText) =>
+  a?.content === b?.content && a?.fontSize === b?.fontSize;
+
+/**
+ * Recursively creates Taffy nodes for a style tree.
+ *
+ * Text leaves carry their text as node context for {@link measureTextNode}.
+ * The `Style` objects are only needed to copy the properties into the tree
+ * and are freed right away.
+ *
+ * @param tree - The Taffy layout tree instance.
+ * @param node - Style node to build.
+ * @returns Mirror of the created node.
+ */
+const createNode = (tree: TaffyTree, node: StyleNode): SyncedNode => {
+  const children = (node.children ?? []).map((child) =>
+    createNode(tree, child),
+  );
+  const style = new Style(node.style);
+  const id = node.children
+    ? tree.newWithChildren(
+        style,
+        children.map((child) => child.id),
+      )
+    : node.text
+      ? tree.newLeafWithContext(style, node.text)
+      : tree.newLeaf(style);
+  style.free();
+  return {
+    id,
+    styleKey: JSON.stringify(node.style),
+    text: node.text,
+    children,
+  };
+};
+
+/**
+ * Removes a node and its descendants from the tree.
+ *
+ * @param tree - The Taffy layout tree instance.
+ * @param node - Mirror of the node to remove.
+ */
+const removeNode = (tree: TaffyTree, node: SyncedNode) => {
+  node.children.forEach((child) => removeNode(tree, child));
+  tree.remove(node.id);
+};
+
+/**
+ * Applies a style tree to existing Taffy nodes.
+ *
+ * Children are matched by index, like the items they come from. Only nodes
+ * whose style or text changed are updated, which also keeps Taffy's layout
+ * cache for untouched subtrees; missing children are created and surplus
+ * ones removed.
+ *
+ * @param tree - The Taffy layout tree instance.
+ * @param previous - Mirror of the node as last synced.
+ * @param node - Style node to apply.
+ * @returns Mirror of the updated node.
+ */
+const syncNode = (
+  tree: TaffyTree,
+  previous: SyncedNode,
+  node: StyleNode,
+): SyncedNode => {
+  const styleKey = JSON.stringify(node.style);
+  if (styleKey !== previous.styleKey) {
+    const style = new Style(node.style);
+    tree.setStyle(previous.id, style);
+    style.free();
+  }
+  if (!isSameText(previous.text, node.text)) {
+    tree.setNodeContext(previous.id, node.text);
+    tree.markDirty(previous.id);
+  }
+
+  const nextChildren = node.children ?? [];
+  const children = nextChildren.map((child, index) => {
+    const existing = previous.children[index];
+    if (existing) return syncNode(tree, existing, child);
+    const created = createNode(tree, child);
+    tree.addChild(previous.id, created.id);
+    return created;
+  });
+  previous.children
+    .slice(nextChildren.length)
+    .forEach((child) => removeNode(tree, child));
+
+  return { id: previous.id, styleKey, text: node.text, children };
+};
+
+/**
+ * Recursively describes the nodes of a synced tree for the preview.
+ *
+ * Colors are assigned in depth-first order so every item in the tree gets a
+ * distinct swatch.
+ *
+ * @param synced - Mirror of the node.
+ * @param node - Style node the mirror was synced with.
+ * @param metaById - Mapping of node IDs to their metadata, filled in place.
+ * @param counter - Shared depth-first counter used for color assignment.
+ */
+const collectMeta = (
+  synced: SyncedNode,
+  node: StyleNode,
+  metaById: Record<string, NodeMeta>,
+  counter: { value: number },
+) => {
+  const isRoot = node.path.length === 0;
+  const color = isRoot
+    ? "rgba(0, 122, 255, 0.12)"
+    : ITEM_COLORS[counter.value % ITEM_COLORS.length];
+  if (!isRoot) counter.value += 1;
+
+  const isBlock =
+    Boolean(node.children) && node.style.display === Display.Block;
+  const isGrid = Boolean(node.children) && node.style.display === Display.Grid;
+  const gridAreas = isGrid ? node.style.gridTemplateAreas : undefined;
+  metaById[synced.id.toString()] = isRoot
+    ? {
+        label: "Container",
+        color,
+        isBlock,
+        isGrid,
+        gridAreas,
+        style: node.style,
+      }
+    : {
+        label: `Item ${formatPath(node.path)}`,
+        color,
+        index: node.path[node.path.length - 1],
+        path: node.path,
+        isContainer: Boolean(node.children),
+        isAbsolute: node.style.position === Position.Absolute,
+        isHidden: node.style.display === Display.None,
+        isBlock,
+        isGrid,
+        gridAreas,
+        text: node.text,
+        style: node.style,
+      };
+  node.children?.forEach((child, index) =>
+    collectMeta(synced.children[index], child, metaById, counter),
+  );
+};
+
+/**
+ * Flattens a layout tree in depth-first order for posting between threads.
+ *
+ * @param nodes - Root layout nodes.
+ * @returns Flat nodes; parents come before their children.
+ */
+export const flattenLayouts = (nodes: LayoutNode[]): FlatLayoutNode[] => {
+  const flat: FlatLayoutNode[] = [];
+  const visit = (node: LayoutNode, parent: number) => {
+    const { children, ...fields } = node;
+    const index = flat.push({ ...fields, parent }) - 1;
+    children?.forEach((child) => visit(child, index));
+  };
+  nodes.forEach((node) => visit(node, -1));
+  return flat;
+};
+
+/**
+ * Rebuilds a layout tree from {@link flattenLayouts} output.
+ *
+ * @param flat - Flat nodes.
+ * @returns Root layout nodes.
+ */
+export const unflattenLayouts = (flat: FlatLayoutNode[]): LayoutNode[] => {
+  const nodes: LayoutNode[] = [];
+  const roots: LayoutNode[] = [];
+  for (const { parent, ...fields } of flat) {
+    const node: LayoutNode = fields;
+    nodes.push(node);
+    if (parent < 0) {
+      roots.push(node);
+    } else {
+      (nodes[parent].children ??= []).push(node);
+    }
+  }
+  return roots;
+};
+
+/**
+ * Creates a layout engine owning one `TaffyTree` for its lifetime.
+ *
+ * Each configuration is diffed against the previously applied style tree
+ * and only the changed nodes are updated, so a stream of small edits does
+ * not allocate a new tree per frame. Taffy must be loaded first.
+ *
+ * @returns Functions to lay out a configuration and to free the tree.
+ *
+ * @example
+ * const engine = createLayoutEngine();
+ * const nodes = engine.compute(
+ *   config,
+ *   { width: 800, height: 600 },
+ *   { width: "definite", height: "maxContent" },
+ * );
+ * engine.dispose();
+ */
+export const createLayoutEngine = () => {
+  let tree: TaffyTree | null = null;
+  let root: SyncedNode | null = null;
+
+  /**
+   * Frees the tree; the next layout builds a new one.
+   */
+  const dispose = () => {
+    tree?.free();
+    tree = null;
+    root = null;
+  };
+
+  /**
+   * Lays out a configuration.
+   *
+   * @param config - Configuration to lay out.
+   * @param size - Size of the canvas.
+   * @param sizing - Sizing mode of each root axis.
+   * @returns Root layout nodes.
+   */
+  const compute = (
+    config: DemoConfig,
+    size: { width: number; height: number },
+    sizing: RootSizing,
+  ): LayoutNode[] => {
+    try {
+      tree ??= new TaffyTree();
+      const styleRoot = describeConfig(config, size, sizing);
+      root = root
+        ? syncNode(tree, root, styleRoot)
+        : createNode(tree, styleRoot);
+      tree.computeLayoutWithMeasure(
+        root.id,
+        rootAvailableSpace(size, sizing),
+        measureTextNode,
+      );
+
+      const metaById: Record<string, NodeMeta> = {};
+      collectMeta(root, styleRoot, metaById, { value: 0 });
+      return collectLayouts(tree, root.id, metaById);
+    } catch (err) {
+      // A failed update can leave the tree half-synced; start over next time
+      dispose();
+      throw err;
+    }
+  };
+
+  return { compute, dispose };
+};
@@ -0,0 +1,71 @@
+/**
+ * @module features/playground/lib/layoutWorker
+ * @description Web Worker entry that lays out playground configurations off
+ * the main thread, so large trees do not block the controls.
+ *
+ * The worker loads taffy-layout itself, keeps one {@link createLayoutEngine}
+ * for its lifetime, and answers every {@link LayoutRequest} with the flat
+ * layout and the time it took. The page only sends the latest request while
+ * one is in flight, so superseded configurations are never laid out. A batch
+ * request lays out all its frames on the same tree, so each frame only
+ * updates what differs from the one before.
+ */
+
+import { loadTaffy } from "taffy-layout";
+import {
+  createLayoutEngine,
+  flattenLayouts,
+  type LayoutWorkerMessage,
+  type LayoutWorkerRequest,
+} from "./layoutEngine";
+
+/**
+ * Posts a message to the page.
+ *
+ * @param message - Message to post.
+ */
+const post = (message: LayoutWorkerMessage) => self.postMessage(message);
+
+/**
+ * Formats an error for display in the playground.
+ *
+ * @param err - Caught value.
+ * @returns Error text.
+ */
+const describeError = (err: unknown) =>
+  err instanceof Error ? (err.stack ?? err.message) : String(err);
+
+const engine = createLayoutEngine();
+const ready = loadTaffy();
+
+ready
+  .then(() => post({ type: "ready" }))
+  .catch((err) =>
+    post({ type: "error", id: null, message: describeError(err) }),
+  );
+
+self.addEventListener("message", (event: MessageEvent<LayoutWorkerRequest>) => {
+  const request = event.data;
+  ready
+    .then(() => {
+      const start = performance.now();
+      if (request.type === "batch") {
+        const frames = request.frames.map(({ config, size }) =>
+          flattenLayouts(engine.compute(config, size, request.sizing)),
+        );
+        post({
+          type: "batch",
+          id: request.id,
+          frames,
+          time: performance.now() - start,
+        });
+        return;
+      }
+      const { id, config, size, sizing } = request;
+      const nodes = flattenLayouts(engine.compute(config, size, sizing));
+      post({ type: "layout", id, nodes, time: performance.now() - start });
+    })
+    .catch((err) =>
+      post({ type: "error", id: request.id, message: describeError(err) }),
+    );
+});
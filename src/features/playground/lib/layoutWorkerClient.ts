@@ -0,0 +1,17 @@
+/**
+ * @module features/playground/lib/layoutWorkerClient
+ * @description Starts layout workers for the page. The live preview,
+ * sweeps and viewport comparisons each use their own worker, so a long batch
+ * never delays the preview.
+ */
+
+/**
+ * Starts a worker running `layoutWorker`, which loads Taffy and answers
+ * layout and batch requests.
+ *
+ * @returns New worker; the caller terminates it when done.
+ */
+export const createLayoutWorker = () =>
+  new Worker(new URL("./layoutWorker.ts", import.meta.url), {
+    type: "module",
+  });
@@ -0,0 +1,593 @@
+/**
+ * @module features/playground/lib/referenceLayout
+ * @description Lays out playground configurations with reference engines,
+ * the browser's own CSS layout and Yoga, and compares the results with
+ * Taffy's.
+ *
+ * The browser layout renders the markup of the HTML export into an
+ * offscreen shadow root and reads the boxes back. Yoga only implements
+ * flexbox, and the bundled 1.10 release has no gaps, so configurations that
+ * use anything else are reported as unsupported instead of being laid out
+ * differently.
+ */
+
+import Yoga from "yoga-layout-prebuilt";
+import { Display, Style, TaffyTree } from "taffy-layout";
+import {
+  type AlignContentKey,
+  type AlignSelfKey,
+  type DemoConfig,
+  type DemoItem,
+  type DemoLayout,
+  type DemoLength,
+  type DemoSides,
+  type FlexDirectionKey,
+  type FlexWrapKey,
+  type ItemPath,
+  type JustifyContentKey,
+  type LayoutNode,
+} from "@/features/playground/components/PlaygroundConfig";
+import { resolveDimension, resolveLength } from "./dimensions";
+import { BASE_CSS, exportHtmlFragment } from "./htmlExport";
+import { describeConfig, type StyleNode } from "./styles";
+import { TEXT_FONT_FAMILY, measureText, measureTextNode } from "./textMeasure";
+import { formatPath } from "./tree";
+
+/**
+ * Engines the Taffy layout can be compared with.
+ */
+export type ReferenceEngine = "browser" | "yoga";
+
+/**
+ * A box laid out by a reference engine. Positions are relative to the
+ * parent's border box, as in Taffy's layout.
+ */
+export interface ReferenceNode {
+  /** Path of the configured item, or `[]` for the root container. */
+  path: ItemPath;
+  /** X position relative to the parent. */
+  x: number;
+  /** Y position relative to the parent. */
+  y: number;
+  /** Border-box width. */
+  width: number;
+  /** Border-box height. */
+  height: number;
+  /** Laid-out children; hidden items are left out. */
+  children?: ReferenceNode[];
+}
+
+/**
+ * Result of laying out a configuration with a reference engine.
+ */
+export interface ReferenceLayout {
+  /** Engine that produced the layout. */
+  engine: ReferenceEngine;
+  /** Root box, or null when the engine could not lay out the configuration. */
+  root: ReferenceNode | null;
+  /** Why the configuration could not be laid out, or null. */
+  error: string | null;
+}
+
+/**
+ * A box edge where a reference engine disagrees with Taffy.
+ */
+export interface LayoutDifference {
+  /** Path of the item, or `[]` for the root container. */
+  path: ItemPath;
+  /** Engine Taffy is compared with. */
+  engine: ReferenceEngine;
+  /** Compared value. */
+  field: "x" | "y" | "width" | "height";
+  /** Taffy's value. */
+  taffy: number;
+  /** The reference engine's value. */
+  reference: number;
+}
+
+/**
+ * Describes an item path for messages.
+ *
+ * @param path - Item path.
+ * @returns "the root" or "item 1.2".
+ */
+const describePath = (path: ItemPath) =>
+  path.length === 0 ? "the root" : `item ${formatPath(path)}`;
+
+/**
+ * Reads the boxes of rendered elements back into reference nodes.
+ *
+ * @param element - Element rendered for the style node.
+ * @param node - Style node the element was rendered from.
+ * @param parent - Border box of the parent element, or null for the root.
+ * @returns Reference node with its visible children.
+ */
+const readElementBoxes = (
+  element: Element,
+  node: StyleNode,
+  parent: DOMRect | null,
+): ReferenceNode => {
+  const rect = element.getBoundingClientRect();
+  const children = (node.children ?? []).flatMap((child, index) =>
+    child.style.display === Display.None
+      ? []
+      : [readElementBoxes(element.children[index], child, rect)],
+  );
+  return {
+    path: node.path,
+    x: parent ? rect.left - parent.left : 0,
+    y: parent ? rect.top - parent.top : 0,
+    width: rect.width,
+    height: rect.height,
+    ...(children.length > 0 ? { children } : {}),
+  };
+};
+
+/**
+ * Lays out a configuration with the browser's CSS engine, using the same
+ * markup and base stylesheet as the HTML export.
+ *
+ * @param config - Playground configuration.
+ * @param rootSize - Size of the root container.
+ * @returns Browser layout, or the reason it failed.
+ */
+export const layoutWithBrowser = (
+  config: DemoConfig,
+  rootSize: { width: number; height: number },
+): ReferenceLayout => {
+  if (typeof document === "undefined") {
+    return { engine: "browser", root: null, error: "No browser DOM." };
+  }
+
+  const host = document.createElement("div");
+  host.style.cssText =
+    "position: fixed; left: -100000px; top: 0; visibility: hidden; pointer-events: none;";
+  document.body.appendChild(host);
+  try {
+    // The shadow root keeps the page's stylesheets away from the layout
+    const shadow = host.attachShadow({ mode: "open" });
+    shadow.innerHTML = `<style>:host { all: initial; font-family: ${TEXT_FONT_FAMILY}; }\n${BASE_CSS}</style>${exportHtmlFragment(config, rootSize)}`;
+    const element = shadow.querySelector("#test-root");
+    if (!element) {
+      return { engine: "browser", root: null, error: "Nothing was rendered." };
+    }
+    return {
+      engine: "browser",
+      root: readElementBoxes(element, describeConfig(config, rootSize), null),
+      error: null,
+    };
+  } catch (err) {
+    return {
+      engine: "browser",
+      root: null,
+      error: err instanceof Error ? err.message : String(err),
+    };
+  } finally {
+    host.remove();
+  }
+};
+
+/**
+ * Yoga flex directions by playground key.
+ */
+const YOGA_FLEX_DIRECTION: Record<FlexDirectionKey, Yoga.YogaFlexDirection> = {
+  row: Yoga.FLEX_DIRECTION_ROW,
+  column: Yoga.FLEX_DIRECTION_COLUMN,
+  rowReverse: Yoga.FLEX_DIRECTION_ROW_REVERSE,
+  columnReverse: Yoga.FLEX_DIRECTION_COLUMN_REVERSE,
+};
+
+/**
+ * Yoga wrap modes by playground key.
+ */
+const YOGA_WRAP: Record<FlexWrapKey, Yoga.YogaFlexWrap> = {
+  nowrap: Yoga.WRAP_NO_WRAP,
+  wrap: Yoga.WRAP_WRAP,
+  wrapReverse: Yoga.WRAP_WRAP_REVERSE,
+};
+
+/**
+ * Yoga justification by playground key. Yoga has no `start`/`end` or
+ * `stretch`; in a left-to-right flex container they behave as the
+ * flex-relative values.
+ */
+const YOGA_JUSTIFY: Record<JustifyContentKey, Yoga.YogaJustifyContent> = {
+  flexStart: Yoga.JUSTIFY_FLEX_START,
+  center: Yoga.JUSTIFY_CENTER,
+  flexEnd: Yoga.JUSTIFY_FLEX_END,
+  start: Yoga.JUSTIFY_FLEX_START,
+  end: Yoga.JUSTIFY_FLEX_END,
+  spaceBetween: Yoga.JUSTIFY_SPACE_BETWEEN,
+  spaceAround: Yoga.JUSTIFY_SPACE_AROUND,
+  spaceEvenly: Yoga.JUSTIFY_SPACE_EVENLY,
+  stretch: Yoga.JUSTIFY_FLEX_START,
+};
+
+/**
+ * Yoga alignment by playground key, for align-items, align-self, and
+ * align-content. Yoga 1.10 has no `space-evenly` alignment.
+ */
+const YOGA_ALIGN: Record<
+  Exclude<AlignSelfKey | AlignContentKey, "spaceEvenly">,
+  Yoga.YogaAlign
+> = {
+  auto: Yoga.ALIGN_AUTO,
+  stretch: Yoga.ALIGN_STRETCH,
+  flexStart: Yoga.ALIGN_FLEX_START,
+  center: Yoga.ALIGN_CENTER,
+  flexEnd: Yoga.ALIGN_FLEX_END,
+  start: Yoga.ALIGN_FLEX_START,
+  end: Yoga.ALIGN_FLEX_END,
+  baseline: Yoga.ALIGN_BASELINE,
+  spaceBetween: Yoga.ALIGN_SPACE_BETWEEN,
+  spaceAround: Yoga.ALIGN_SPACE_AROUND,
+};
+
+/**
+ * Yoga edges by side name.
+ */
+const YOGA_EDGES = {
+  top: Yoga.EDGE_TOP,
+  right: Yoga.EDGE_RIGHT,
+  bottom: Yoga.EDGE_BOTTOM,
+  left: Yoga.EDGE_LEFT,
+} as const;
+
+/**
+ * Checks whether any border width is a percentage, which Yoga cannot lay out.
+ *
+ * @param border - Border widths per side.
+ * @returns True when a side resolves to a percentage.
+ */
+const hasPercentageBorder = (border: DemoSides<DemoLength>) =>
+  Object.values(border).some((side) => typeof resolveLength(side) !== "number");
+
+/**
+ * Finds the first feature of a layout that Yoga cannot lay out.
+ *
+ * @param layout - Layout to check, including its nested layouts.
+ * @param path - Path of the layout's item, or `[]` for the root.
+ * @returns Reason, or null when Yoga supports the layout.
+ */
+const yogaUnsupportedReason = (
+  layout: DemoLayout,
+  path: ItemPath,
+): string | null => {
+  if (layout.displayMode !== "flex") {
+    return `Yoga only implements flexbox, and ${describePath(path)} is a ${layout.displayMode} container.`;
+  }
+  const { gapX, gapY, flex } = layout.container;
+  if (resolveLength(gapX) !== 0 || resolveLength(gapY) !== 0) {
+    return `Yoga 1.10 has no gap support, used by ${describePath(path)}.`;
+  }
+  if (flex.alignContent === "spaceEvenly") {
+    return `Yoga 1.10 has no align-content: space-evenly, used by ${describePath(path)}.`;
+  }
+  for (const [index, item] of layout.items.entries()) {
+    const itemPath = [...path, index];
+    if (hasPercentageBorder(item.border)) {
+      return `Yoga has no percentage borders, used by ${describePath(itemPath)}.`;
+    }
+    if (item.layout && !item.hidden) {
+      const reason = yogaUnsupportedReason(item.layout, itemPath);
+      if (reason) return reason;
+    }
+  }
+  return null;
+};
+
+/**
+ * Applies per-side values through a Yoga edge setter.
+ *
+ * @param sides - Resolved values per side.
+ * @param set - Setter called for each side.
+ */
+const setEdges = <T>(
+  sides: DemoSides<T>,
+  set: (edge: Yoga.YogaEdge, value: T) => void,
+) => {
+  for (const side of ["top", "right", "bottom", "left"] as const) {
+    set(YOGA_EDGES[side], sides[side]);
+  }
+};
+
+/**
+ * Applies padding and border, shared by the root and items.
+ *
+ * @param node - Yoga node.
+ * @param padding - Padding per side.
+ * @param border - Border widths per side.
+ */
+const applyBox = (
+  node: Yoga.YogaNode,
+  padding: DemoItem["padding"],
+  border: DemoItem["border"],
+) => {
+  setEdges(padding, (edge, value) =>
+    node.setPadding(edge, resolveLength(value)),
+  );
+  setEdges(border, (edge, value) =>
+    node.setBorder(edge, Number(resolveLength(value))),
+  );
+};
+
+/**
+ * Applies a layout's container settings and creates its items.
+ *
+ * @param node - Yoga node of the container.
+ * @param layout - Layout of the container.
+ */
+const applyLayout = (node: Yoga.YogaNode, layout: DemoLayout) => {
+  const { flex } = layout.container;
+  node.setFlexDirection(YOGA_FLEX_DIRECTION[flex.direction]);
+  node.setFlexWrap(YOGA_WRAP[flex.wrap]);
+  node.setJustifyContent(YOGA_JUSTIFY[flex.justifyContent]);
+  node.setAlignItems(YOGA_ALIGN[flex.alignItems]);
+  if (flex.alignContent !== "spaceEvenly") {
+    node.setAlignContent(YOGA_ALIGN[flex.alignContent]);
+  }
+  layout.items.forEach((item, index) => {
+    node.insertChild(createYogaItem(item), index);
+  });
+};
+
+/**
+ * Creates the Yoga node of an item and its descendants. Yoga's defaults
+ * differ from CSS (e.g. column direction, no shrinking), so every property
+ * is set explicitly.
+ *
+ * @param item - Item to create.
+ * @returns Yoga node.
+ */
+const createYogaItem = (item: DemoItem): Yoga.YogaNode => {
+  const node = Yoga.Node.create();
+  node.setWidth(resolveDimension(item.width));
+  node.setHeight(resolveDimension(item.height));
+  // `auto` limits and basis are Yoga's defaults; its setters reject them
+  const minWidth = resolveDimension(item.minSize.width);
+  const minHeight = resolveDimension(item.minSize.height);
+  const maxWidth = resolveDimension(item.maxSize.width);
+  const maxHeight = resolveDimension(item.maxSize.height);
+  if (minWidth !== "auto") node.setMinWidth(minWidth);
+  if (minHeight !== "auto") node.setMinHeight(minHeight);
+  if (maxWidth !== "auto") node.setMaxWidth(maxWidth);
+  if (maxHeight !== "auto") node.setMaxHeight(maxHeight);
+  setEdges(item.margin, (edge, value) => {
+    const margin = resolveDimension(value);
+    if (margin === "auto") node.setMarginAuto(edge);
+    else if (typeof margin === "number") node.setMargin(edge, margin);
+    else node.setMarginPercent(edge, parseFloat(margin));
+  });
+  applyBox(node, item.padding, item.border);
+  node.setPositionType(
+    item.position === "absolute"
+      ? Yoga.POSITION_TYPE_ABSOLUTE
+      : Yoga.POSITION_TYPE_RELATIVE,
+  );
+  setEdges(item.inset, (edge, value) => {
+    const inset = resolveDimension(value);
+    if (inset !== "auto") node.setPosition(edge, inset);
+  });
+  node.setFlexGrow(item.flexGrow);
+  node.setFlexShrink(item.flexShrink);
+  const flexBasis = resolveDimension(item.flexBasis);
+  if (flexBasis !== "auto") node.setFlexBasis(flexBasis);
+  node.setAlignSelf(YOGA_ALIGN[item.alignSelf]);
+  if (item.hidden) node.setDisplay(Yoga.DISPLAY_NONE);
+
+  if (item.layout) {
+    applyLayout(node, item.layout);
+  } else if (item.text) {
+    const text = item.text;
+    node.setMeasureFunc((width, widthMode, height, heightMode) =>
+      measureText(
+        text,
+        {
+          width: widthMode === Yoga.MEASURE_MODE_EXACTLY ? width : undefined,
+          height: heightMode === Yoga.MEASURE_MODE_EXACTLY ? height : undefined,
+        },
+        {
+          width:
+            widthMode === Yoga.MEASURE_MODE_UNDEFINED ? "max-content" : width,
+          height:
+            heightMode === Yoga.MEASURE_MODE_UNDEFINED ? "max-content" : height,
+        },
+      ),
+    );
+  }
+  return node;
+};
+
+/**
+ * Reads computed Yoga boxes back into reference nodes.
+ *
+ * @param node - Yoga node.
+ * @param path - Path of the node's item.
+ * @param items - Items of the node's layout, if any.
+ * @returns Reference node with its visible children.
+ */
+const readYogaBoxes = (
+  node: Yoga.YogaNode,
+  path: ItemPath,
+  items: DemoItem[] = [],
+): ReferenceNode => {
+  const { left, top, width, height } = node.getComputedLayout();
+  const children = items.flatMap((item, index) =>
+    item.hidden
+      ? []
+      : [
+          readYogaBoxes(
+            node.getChild(index),
+            [...path, index],
+            item.layout?.items,
+          ),
+        ],
+  );
+  return {
+    path,
+    x: left,
+    y: top,
+    width,
+    height,
+    ...(children.length > 0 ? { children } : {}),
+  };
+};
+
+/**
+ * Lays out a flexbox configuration with Yoga.
+ *
+ * @param config - Playground configuration.
+ * @param rootSize - Size of the root container.
+ * @returns Yoga layout, or the reason the configuration is unsupported.
+ */
+export const layoutWithYoga = (
+  config: DemoConfig,
+  rootSize: { width: number; height: number },
+): ReferenceLayout => {
+  const reason = hasPercentageBorder(config.border)
+    ? "Yoga has no percentage borders, used by the root."
+    : yogaUnsupportedReason(config, []);
+  if (reason) return { engine: "yoga", root: null, error: reason };
+
+  const root = Yoga.Node.create();
+  try {
+    root.setWidth(rootSize.width);
+    root.setHeight(rootSize.height);
+    applyBox(root, config.padding, config.border);
+    applyLayout(root, config);
+    root.calculateLayout(rootSize.width, rootSize.height, Yoga.DIRECTION_LTR);
+    return {
+      engine: "yoga",
+      root: readYogaBoxes(root, [], config.items),
+      error: null,
+    };
+  } catch (err) {
+    return {
+      engine: "yoga",
+      root: null,
+      error: err instanceof Error ? err.message : String(err),
+    };
+  } finally {
+    root.freeRecursive();
+  }
+};
+
+/**
+ * Lays out a configuration with Taffy, without the metadata the preview
+ * needs. The engine must already be loaded with `loadTaffy()`.
+ *
+ * @param config - Playground configuration.
+ * @param rootSize - Size of the root container.
+ * @returns Taffy's root box.
+ */
+export const layoutWithTaffy = (
+  config: DemoConfig,
+  rootSize: { width: number; height: number },
+): ReferenceNode => {
+  const tree = new TaffyTree();
+  try {
+    const build = (node: StyleNode): bigint => {
+      const childIds = node.children?.map(build);
+      const style = new Style(node.style);
+      const id = childIds
+        ? tree.newWithChildren(style, childIds)
+        : node.text
+          ? tree.newLeafWithContext(style, node.text)
+          : tree.newLeaf(style);
+      style.free();
+      return id;
+    };
+    const styleRoot = describeConfig(config, rootSize);
+    const rootId = build(styleRoot);
+    tree.computeLayoutWithMeasure(rootId, rootSize, measureTextNode);
+
+    const read = (id: bigint, node: StyleNode): ReferenceNode => {
+      const layout = tree.getLayout(id);
+      const { x, y, width, height } = layout;
+      layout.free();
+      const childIds = tree.children(id);
+      const children = (node.children ?? []).flatMap((child, index) =>
+        child.style.display === Display.None
+          ? []
+          : [read(childIds[index], child)],
+      );
+      return {
+        path: node.path,
+        x,
+        y,
+        width,
+        height,
+        ...(children.length > 0 ? { children } : {}),
+      };
+    };
+    return read(rootId, styleRoot);
+  } finally {
+    tree.free();
+  }
+};
+
+/**
+ * Converts the preview's layout nodes into reference nodes, so they can be
+ * compared with {@link compareLayouts}.
+ *
+ * @param node - Layout node from `useTaffyLayout`.
+ * @returns Box tree keyed by item paths.
+ */
+export const toReferenceNode = (node: LayoutNode): ReferenceNode => ({
+  path: node.meta?.path ?? [],
+  x: node.x,
+  y: node.y,
+  width: node.width,
+  height: node.height,
+  ...(node.children ? { children: node.children.map(toReferenceNode) } : {}),
+});
+
+/**
+ * Lists the boxes where a reference engine and Taffy disagree by more than
+ * a tolerance.
+ *
+ * @param taffyRoot - Root of Taffy's layout.
+ * @param reference - Layout of the reference engine.
+ * @param tolerance - Largest difference in pixels that is ignored.
+ * @returns Differences in document order.
+ *
+ * @example
+ * compareLayouts(
+ *   toReferenceNode(layoutNodes[0]),
+ *   layoutWithYoga(config, previewSize),
+ *   1,
+ * );
+ */
+export const compareLayouts = (
+  taffyRoot: ReferenceNode,
+  reference: ReferenceLayout,
+  tolerance: number,
+): LayoutDifference[] => {
+  const taffyNodes = new Map<string, ReferenceNode>();
+  const index = (node: ReferenceNode) => {
+    taffyNodes.set(formatPath(node.path), node);
+    node.children?.forEach(index);
+  };
+  index(taffyRoot);
+
+  const differences: LayoutDifference[] = [];
+  const visit = (node: ReferenceNode) => {
+    const taffy = taffyNodes.get(formatPath(node.path));
+    if (taffy) {
+      for (const field of ["x", "y", "width", "height"] as const) {
+        if (Math.abs(taffy[field] - node[field]) > tolerance) {
+          differences.push({
+            path: node.path,
+            engine: reference.engine,
+            field,
+            taffy: taffy[field],
+            reference: node[field],
+          });
+        }
+      }
+    }
+    node.children?.forEach(visit);
+  };
+  if (reference.root) visit(reference.root);
+  return differences;
+};
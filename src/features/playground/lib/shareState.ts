@@ -0,0 +1,222 @@
+/**
+ * @module features/playground/lib/shareState
+ * @description Serializes the playground state into a compact URL hash
+ * payload and restores it again.
+ *
+ * The payload is `<version>.<codec>.<data>`, where `data` is the JSON state
+ * encoded as base64url. The `z` codec deflates the JSON first and is used
+ * whenever the browser provides `CompressionStream`; `j` stores plain JSON.
+ * The configuration inside is versioned separately, see `configSchema`.
+ */
+
+import {
+  PRESETS,
+  ROOT_SIZING_OPTIONS,
+  type DemoConfig,
+  type RootSizing,
+  type RootSizingMode,
+} from "@/features/playground/components/PlaygroundConfig";
+import { CONFIG_VERSION, loadConfig } from "./configSchema";
+import { isCustomPresetKey } from "./customPresets";
+import { ConfigValidationError, ShareStateError } from "./errors";
+
+/**
+ * Hash parameter that carries the encoded playground state.
+ */
+export const SHARE_HASH_PARAM = "config";
+
+/**
+ * Current version of the share payload format.
+ */
+export const SHARE_FORMAT_VERSION = 1;
+
+/**
+ * Playground state captured in a shareable link.
+ */
+export interface SharedPlaygroundState {
+  /** Full playground configuration. */
+  config: DemoConfig;
+  /** Preview scale percentages. */
+  previewScale: { width: number; height: number };
+  /** Sizing mode of each root axis. */
+  rootSizing: RootSizing;
+  /** Key of the preset the configuration started from. */
+  presetKey: string;
+}
+
+/**
+ * Encodes bytes as unpadded base64url.
+ *
+ * @param bytes - Bytes to encode.
+ * @returns Base64url string.
+ */
+const toBase64Url = (bytes: Uint8Array) => {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary)
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+};
+
+/**
+ * Decodes unpadded base64url into bytes.
+ *
+ * @param value - Base64url string.
+ * @returns Decoded bytes.
+ */
+const fromBase64Url = (value: string) => {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, "="));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+};
+
+/**
+ * Pipes bytes through a compression or decompression stream.
+ *
+ * @param bytes - Input bytes.
+ * @param stream - Transform stream to apply.
+ * @returns Transformed bytes.
+ */
+const transform = async (
+  bytes: Uint8Array,
+  stream: CompressionStream | DecompressionStream,
+) => {
+  const output = new Blob([bytes as BlobPart]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(output).arrayBuffer());
+};
+
+/**
+ * Checks whether a value is a plain object.
+ *
+ * @param value - Value to check.
+ * @returns True for non-null, non-array objects.
+ */
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Encodes playground state into a URL hash payload. The configuration is
+ * stored with the version of its format so later versions can upgrade it.
+ *
+ * @param state - State to encode.
+ * @returns Encoded payload, without the hash parameter name.
+ */
+export const encodeShareState = async (
+  state: SharedPlaygroundState,
+): Promise<string> => {
+  const json = new TextEncoder().encode(
+    JSON.stringify({ ...state, configVersion: CONFIG_VERSION }),
+  );
+  if (typeof CompressionStream === "undefined") {
+    return `${SHARE_FORMAT_VERSION}.j.${toBase64Url(json)}`;
+  }
+  const compressed = await transform(
+    json,
+    new CompressionStream("deflate-raw"),
+  );
+  return `${SHARE_FORMAT_VERSION}.z.${toBase64Url(compressed)}`;
+};
+
+/**
+ * Decodes a URL hash payload back into playground state.
+ *
+ * @param payload - Encoded payload produced by {@link encodeShareState}.
+ * @returns Restored playground state.
+ * @throws ShareStateError when the payload is malformed or unsupported.
+ */
+export const decodeShareState = async (
+  payload: string,
+): Promise<SharedPlaygroundState> => {
+  const [version, codec, data] = payload.split(".");
+  if (!version || !codec || !data) {
+    throw new ShareStateError("The link is not a valid playground link.");
+  }
+  if (Number(version) !== SHARE_FORMAT_VERSION) {
+    throw new ShareStateError(
+      `The link uses playground format v${version}, which this version of the playground cannot read.`,
+    );
+  }
+
+  let parsed: unknown;
+  try {
+    let bytes = fromBase64Url(data);
+    if (codec === "z") {
+      bytes = await transform(bytes, new DecompressionStream("deflate-raw"));
+    } else if (codec !== "j") {
+      throw new Error(`Unknown codec "${codec}"`);
+    }
+    parsed = JSON.parse(new TextDecoder().decode(bytes));
+  } catch (err) {
+    throw new ShareStateError(
+      "The link is damaged and could not be decoded.",
+      err,
+    );
+  }
+
+  if (!isRecord(parsed)) {
+    throw new ShareStateError("The link does not contain playground state.");
+  }
+
+  const scale = isRecord(parsed.previewScale) ? parsed.previewScale : {};
+  const clampScale = (value: unknown) =>
+    typeof value === "number" && Number.isFinite(value)
+      ? Math.min(100, Math.max(10, value))
+      : 100;
+  const sizing = isRecord(parsed.rootSizing) ? parsed.rootSizing : {};
+  // Links from before root sizing existed always filled the canvas
+  const readSizing = (value: unknown): RootSizingMode =>
+    ROOT_SIZING_OPTIONS.find((option) => option.value === value)?.value ??
+    "definite";
+  // Custom preset keys are kept even when this browser lacks the preset
+  const presetKey =
+    typeof parsed.presetKey === "string" &&
+    (Object.hasOwn(PRESETS, parsed.presetKey) ||
+      isCustomPresetKey(parsed.presetKey))
+      ? parsed.presetKey
+      : "flexBetween";
+
+  let config: DemoConfig;
+  try {
+    config = loadConfig(parsed.config, parsed.configVersion);
+  } catch (err) {
+    if (!(err instanceof ConfigValidationError)) throw err;
+    throw new ShareStateError(
+      `The link does not contain a valid layout: ${err.message}`,
+      err,
+    );
+  }
+
+  return {
+    config,
+    previewScale: {
+      width: clampScale(scale.width),
+      height: clampScale(scale.height),
+    },
+    rootSizing: {
+      width: readSizing(sizing.width),
+      height: readSizing(sizing.height),
+    },
+    presetKey,
+  };
+};
+
+/**
+ * Extracts the encoded state payload from a URL hash.
+ *
+ * @param hash - Hash string such as `window.location.hash`.
+ * @returns Encoded payload, or null when the hash has none.
+ */
+export const readSharePayload = (hash: string) =>
+  new URLSearchParams(hash.replace(/^#/, "")).get(SHARE_HASH_PARAM);
+
+/**
+ * Builds a URL hash that carries the encoded state payload.
+ *
+ * @param payload - Encoded payload.
+ * @returns Hash string including the leading `#`.
+ */
+export const buildShareHash = (payload: string) =>
+  `#${SHARE_HASH_PARAM}=${payload}`;
@@ -0,0 +1,40 @@
+/**
+ * @module features/playground/lib/storage
+ * @description Helpers shared by the playground lists kept in localStorage,
+ * such as custom presets and viewports.
+ */
+
+/**
+ * Creates an id for a new stored entry.
+ *
+ * @returns Random id.
+ */
+export const createStoredId = () =>
+  `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Loads a value from localStorage.
+ *
+ * @param key - localStorage key.
+ * @param parse - Reads the stored JSON; may throw when it is damaged.
+ * @param fallback - Value used when nothing is stored.
+ * @returns Stored value, or the fallback.
+ */
+export const loadStored = <T>(
+  key: string,
+  parse: (json: string) => T,
+  fallback: T,
+): T => {
+  const stored = window.localStorage.getItem(key);
+  return stored ? parse(stored) : fallback;
+};
+
+/**
+ * Writes a value to localStorage.
+ *
+ * @param key - localStorage key.
+ * @param json - Serialized value.
+ */
+export const saveStored = (key: string, json: string) => {
+  window.localStorage.setItem(key, json);
+};
@@ -0,0 +1,352 @@
+/**
+ * @module features/playground/lib/styles
+ * @description Translates playground configurations into plain Taffy style
+ * descriptors shared by the layout engine and the code generators.
+ */
+
+import type {
+  AvailableSpace,
+  Dimension,
+  GridPlacement,
+  Line,
+  Rect,
+  Size,
+  StyleProperty,
+  StylePropertyValues,
+} from "taffy-layout";
+import {
+  AlignContent,
+  AlignItems,
+  AlignSelf,
+  Display,
+  FlexDirection,
+  FlexWrap,
+  GridAutoFlow,
+  JustifyContent,
+  Position,
+} from "taffy-layout";
+import {
+  ALIGN_CONTENT_MAP,
+  ALIGN_ITEMS_MAP,
+  ALIGN_SELF_MAP,
+  DEFAULT_ROOT_SIZING,
+  DISPLAY_MODE_MAP,
+  FLEX_DIRECTION_MAP,
+  FLEX_WRAP_MAP,
+  GRID_AUTOFLOW_MAP,
+  JUSTIFY_CONTENT_MAP,
+  POSITION_MAP,
+  type DemoConfig,
+  type DemoItem,
+  type DemoLayout,
+  type DemoSides,
+  type DemoSize,
+  type DemoText,
+  type DisplayMode,
+  type ItemPath,
+  type RootSizing,
+  type RootSizingMode,
+} from "@/features/playground/components/PlaygroundConfig";
+import { parseTemplateAreas } from "./gridAreas";
+import { resolveDimension, resolveLength } from "./dimensions";
+import { buildTrackList, parseTrackSizes } from "./gridTracks";
+
+/**
+ * Style descriptor for one node of the layout tree.
+ */
+export interface StyleNode {
+  /** Path of the configured item, or `[]` for the root container. */
+  path: ItemPath;
+  /** Style properties sent to Taffy for this node. */
+  style: StylePropertyValues;
+  /** Child nodes in item order; undefined for leaf nodes. */
+  children?: StyleNode[];
+  /** Text measured for the content size of a text leaf. */
+  text?: DemoText;
+}
+
+/**
+ * Enum-valued style properties with their enum name and the enum object used
+ * for reverse lookup of member names.
+ */
+export const STYLE_ENUMS: Partial<
+  Record<StyleProperty, { name: string; values: Record<number, string> }>
+> = {
+  display: { name: "Display", values: Display },
+  flexDirection: { name: "FlexDirection", values: FlexDirection },
+  flexWrap: { name: "FlexWrap", values: FlexWrap },
+  justifyContent: { name: "JustifyContent", values: JustifyContent },
+  alignItems: { name: "AlignItems", values: AlignItems },
+  alignContent: { name: "AlignContent", values: AlignContent },
+  alignSelf: { name: "AlignSelf", values: AlignSelf },
+  gridAutoFlow: { name: "GridAutoFlow", values: GridAutoFlow },
+  position: { name: "Position", values: Position },
+};
+
+/**
+ * Style values that match Taffy's defaults and can be omitted from
+ * generated output.
+ */
+const STYLE_DEFAULTS: StylePropertyValues = {
+  size: { width: "auto", height: "auto" },
+  alignSelf: AlignSelf.Auto,
+  flexGrow: 0,
+  flexShrink: 1,
+  flexBasis: "auto",
+  flexDirection: FlexDirection.Row,
+  flexWrap: FlexWrap.NoWrap,
+  gridAutoFlow: GridAutoFlow.Row,
+  gridTemplateColumns: [],
+  gridTemplateRows: [],
+  gridTemplateAreas: [],
+  gridAutoColumns: [],
+  gridAutoRows: [],
+  margin: { left: 0, right: 0, top: 0, bottom: 0 },
+  padding: { left: 0, right: 0, top: 0, bottom: 0 },
+  border: { left: 0, right: 0, top: 0, bottom: 0 },
+  minSize: { width: "auto", height: "auto" },
+  maxSize: { width: "auto", height: "auto" },
+  gap: { width: 0, height: 0 },
+  position: Position.Relative,
+  inset: { left: "auto", right: "auto", top: "auto", bottom: "auto" },
+};
+
+/**
+ * Converts box sides into a Taffy rect. Keys follow Taffy's order so the
+ * result compares equal to {@link STYLE_DEFAULTS}.
+ *
+ * @param sides - Per-side values.
+ * @param resolve - Converts each side into a value Taffy accepts.
+ * @returns Rect with the resolved values.
+ */
+const toRect = <T, R>(
+  sides: DemoSides<T>,
+  resolve: (value: T) => R,
+): Rect<R> => ({
+  left: resolve(sides.left),
+  right: resolve(sides.right),
+  top: resolve(sides.top),
+  bottom: resolve(sides.bottom),
+});
+
+/**
+ * Converts a size, minimum, or maximum into a Taffy size.
+ *
+ * @param size - Dimension per axis.
+ * @returns Size with `calc()` expressions folded.
+ */
+const toSize = (size: DemoSize): Size<Dimension> => ({
+  width: resolveDimension(size.width),
+  height: resolveDimension(size.height),
+});
+
+/**
+ * Returns the style entries that differ from Taffy's defaults.
+ *
+ * @param style - Style properties of a node.
+ * @returns Property/value pairs to emit.
+ */
+export const significantStyleEntries = (style: StylePropertyValues) =>
+  (Object.entries(style) as [StyleProperty, unknown][]).filter(
+    ([key, value]) =>
+      value !== undefined &&
+      JSON.stringify(value) !== JSON.stringify(STYLE_DEFAULTS[key]),
+  );
+
+/**
+ * Builds the container-level style properties of a layout.
+ *
+ * @param layout - Layout whose container settings are converted.
+ * @returns Style properties for the container node.
+ */
+export const containerStyleProps = (
+  layout: DemoLayout,
+): StylePropertyValues => {
+  const { container } = layout;
+  const display = DISPLAY_MODE_MAP[layout.displayMode];
+  // Block containers stack their children and have no gap
+  if (layout.displayMode === "block") return { display };
+
+  const base: StylePropertyValues = {
+    display,
+    gap: {
+      width: resolveLength(container.gapX),
+      height: resolveLength(container.gapY),
+    },
+  };
+
+  if (layout.displayMode === "flex") {
+    return {
+      ...base,
+      flexDirection: FLEX_DIRECTION_MAP[container.flex.direction],
+      justifyContent: JUSTIFY_CONTENT_MAP[container.flex.justifyContent],
+      alignItems: ALIGN_ITEMS_MAP[container.flex.alignItems],
+      alignContent: ALIGN_CONTENT_MAP[container.flex.alignContent],
+      flexWrap: FLEX_WRAP_MAP[container.flex.wrap],
+    };
+  }
+
+  const { grid } = container;
+  return {
+    ...base,
+    gridTemplateAreas: parseTemplateAreas(grid.areas).areas,
+    gridAutoFlow: GRID_AUTOFLOW_MAP[grid.autoFlow],
+    gridTemplateColumns: buildTrackList(grid.columns).tracks,
+    gridTemplateRows: buildTrackList(grid.rows).tracks,
+    gridAutoColumns: parseTrackSizes(grid.autoColumns).tracks,
+    gridAutoRows: parseTrackSizes(grid.autoRows).tracks,
+  };
+};
+
+/**
+ * Builds the grid placement of an item along one axis. A span combines with
+ * whichever line is fixed; with no lines the item is auto-placed.
+ *
+ * @param start - Start line, or 0 for auto.
+ * @param end - End line, or 0 to span from the start.
+ * @param span - Number of tracks spanned when one line is not set.
+ * @returns Placement, or undefined when the default auto placement applies.
+ */
+const gridLine = (
+  start: number,
+  end: number,
+  span: number,
+): Line<GridPlacement> | undefined => {
+  const spanned: GridPlacement = span > 1 ? { span } : "auto";
+  if (start !== 0 && end !== 0) return { start, end };
+  if (start !== 0) return { start, end: spanned };
+  if (end !== 0) return { start: spanned, end };
+  return span > 1 ? { start: "auto", end: spanned } : undefined;
+};
+
+/**
+ * Builds the item-level style properties of an item.
+ *
+ * @param item - Item whose settings are converted.
+ * @param parentMode - Display mode of the containing layout.
+ * @returns Style properties for the item node.
+ */
+export const itemStyleProps = (
+  item: DemoItem,
+  parentMode: DisplayMode,
+): StylePropertyValues => {
+  const style: StylePropertyValues = {
+    size: toSize(item),
+    minSize: toSize(item.minSize),
+    maxSize: toSize(item.maxSize),
+    margin: toRect(item.margin, resolveDimension),
+    padding: toRect(item.padding, resolveLength),
+    border: toRect(item.border, resolveLength),
+    position: POSITION_MAP[item.position],
+    inset: toRect(item.inset, resolveDimension),
+    alignSelf: ALIGN_SELF_MAP[item.alignSelf],
+  };
+
+  if (parentMode === "flex") {
+    style.flexGrow = item.flexGrow;
+    style.flexShrink = item.flexShrink;
+    style.flexBasis = resolveDimension(item.flexBasis);
+  } else if (parentMode === "grid" && item.gridArea) {
+    // A bare area name resolves to the area's implicit -start/-end lines
+    const area: Line<GridPlacement> = {
+      start: { line: 1, ident: item.gridArea },
+      end: { line: 1, ident: item.gridArea },
+    };
+    style.gridRow = area;
+    style.gridColumn = area;
+  } else if (parentMode === "grid") {
+    const column = gridLine(item.columnStart, item.columnEnd, item.columnSpan);
+    const row = gridLine(item.rowStart, item.rowEnd, item.rowSpan);
+    if (column) style.gridColumn = column;
+    if (row) style.gridRow = row;
+  }
+
+  return style;
+};
+
+/**
+ * Recursively describes the items of a layout. Hidden items keep their
+ * styles but use `display: none`, which overrides a container's display.
+ *
+ * @param layout - Layout whose items are described.
+ * @param parentPath - Path of the containing item, or `[]` for the root.
+ * @returns Style nodes for the items, in item order.
+ */
+const describeItems = (layout: DemoLayout, parentPath: ItemPath): StyleNode[] =>
+  layout.items.map((item, index) => {
+    const path = [...parentPath, index];
+    const hidden = item.hidden ? { display: Display.None } : {};
+    const style = itemStyleProps(item, layout.displayMode);
+    if (!item.layout) {
+      return {
+        path,
+        style: { ...style, ...hidden },
+        ...(item.text ? { text: item.text } : {}),
+      };
+    }
+    return {
+      path,
+      style: { ...style, ...containerStyleProps(item.layout), ...hidden },
+      children: describeItems(item.layout, path),
+    };
+  });
+
+/**
+ * Available space Taffy offers the root for each sizing mode; definite and
+ * auto axes are laid out within the canvas.
+ */
+const ROOT_AVAILABLE_SPACE: Record<
+  RootSizingMode,
+  (canvas: number) => AvailableSpace
+> = {
+  definite: (canvas) => canvas,
+  auto: (canvas) => canvas,
+  minContent: () => "min-content",
+  maxContent: () => "max-content",
+};
+
+/**
+ * Resolves the available space the root container is laid out in.
+ *
+ * @param rootSize - Size of the canvas.
+ * @param rootSizing - Sizing mode of each root axis.
+ * @returns Available space passed to `computeLayout`.
+ */
+export const rootAvailableSpace = (
+  rootSize: Size<number>,
+  rootSizing: RootSizing = DEFAULT_ROOT_SIZING,
+): Size<AvailableSpace> => ({
+  width: ROOT_AVAILABLE_SPACE[rootSizing.width](rootSize.width),
+  height: ROOT_AVAILABLE_SPACE[rootSizing.height](rootSize.height),
+});
+
+/**
+ * Describes the full style tree of a playground configuration.
+ *
+ * Definite root axes are sized to the given root size, matching the size
+ * the preview passes to `computeLayout`; the other axes are left `auto` so
+ * the root takes the size of its content in the space given by
+ * {@link rootAvailableSpace}.
+ *
+ * @param config - Playground configuration.
+ * @param rootSize - Size of the canvas.
+ * @param rootSizing - Sizing mode of each root axis.
+ * @returns Style node for the root container.
+ */
+export const describeConfig = (
+  config: DemoConfig,
+  rootSize: Size<number>,
+  rootSizing: RootSizing = DEFAULT_ROOT_SIZING,
+): StyleNode => ({
+  path: [],
+  style: {
+    ...containerStyleProps(config),
+    size: {
+      width: rootSizing.width === "definite" ? rootSize.width : "auto",
+      height: rootSizing.height === "definite" ? rootSize.height : "auto",
+    },
+    padding: toRect(config.padding, resolveLength),
+    border: toRect(config.border, resolveLength),
+  },
+  children: describeItems(config, []),
+});
@@ -0,0 +1,446 @@
+/**
+ * @module features/playground/lib/sweep
+ * @description Lays a configuration out across a range of values of one
+ * numeric setting, such as the canvas width, and reads the item boxes and
+ * the points where the layout changes shape back from the frames.
+ *
+ * The frames themselves are laid out by the layout worker; this module only
+ * prepares their inputs and analyzes the results.
+ */
+
+import { Display, FlexDirection, FlexWrap } from "taffy-layout";
+import {
+  type DemoConfig,
+  type DemoContainer,
+  type DemoItem,
+  type ItemPath,
+  type LayoutNode,
+} from "@/features/playground/components/PlaygroundConfig";
+import type { LayoutFrame } from "./layoutEngine";
+import { formatPath, getItemAtPath, updateItemAtPath } from "./tree";
+
+/**
+ * Settings that can be swept.
+ */
+export type SweepTargetKey =
+  | "canvasWidth"
+  | "canvasHeight"
+  | "gapX"
+  | "gapY"
+  | "itemWidth"
+  | "itemHeight"
+  | "itemFlexBasis"
+  | "itemFlexGrow"
+  | "itemFlexShrink";
+
+/**
+ * Definition of a setting that can be swept.
+ */
+export interface SweepTarget {
+  /** Label shown in the target menu. */
+  label: string;
+  /** Unit of the swept value. */
+  unit: "px" | "";
+  /** Whether the setting belongs to the selected item. */
+  item: boolean;
+  /** Default first value. */
+  from: number;
+  /** Default last value. */
+  to: number;
+  /**
+   * Applies a value to a frame.
+   *
+   * @param frame - Frame to update.
+   * @param value - Swept value.
+   * @param path - Path of the selected item, for item settings.
+   * @returns Updated frame.
+   */
+  apply: (frame: LayoutFrame, value: number, path: ItemPath) => LayoutFrame;
+}
+
+/**
+ * Range of a sweep.
+ */
+export interface SweepSettings {
+  /** Setting that is swept. */
+  target: SweepTargetKey;
+  /** First value. */
+  from: number;
+  /** Last value. */
+  to: number;
+  /** Number of frames, including both ends. */
+  steps: number;
+}
+
+/**
+ * Position and size of one item in one frame.
+ */
+export interface SweepBox {
+  /** X position within the parent. */
+  x: number;
+  /** Y position within the parent. */
+  y: number;
+  /** Width. */
+  width: number;
+  /** Height. */
+  height: number;
+}
+
+/**
+ * Boxes of one item across all frames.
+ */
+export interface SweepSeries {
+  /** Path of the item. */
+  path: ItemPath;
+  /** Display label of the item. */
+  label: string;
+  /** Color of the item in the preview. */
+  color: string;
+  /** Box per frame; null where the item is hidden. */
+  boxes: (SweepBox | null)[];
+}
+
+/**
+ * Kind of change at a breakpoint: flex items moved to another line, or a
+ * grid gained or lost tracks.
+ */
+export type SweepBreakpointKind = "wrap" | "tracks";
+
+/**
+ * Frame at which a container's layout changes shape.
+ */
+export interface SweepBreakpoint {
+  /** Index of the first frame with the new shape. */
+  index: number;
+  /** Kind of change. */
+  kind: SweepBreakpointKind;
+  /** Path of the container, or `[]` for the root. */
+  path: ItemPath;
+}
+
+/**
+ * Most frames one sweep may have.
+ */
+export const MAX_SWEEP_STEPS = 200;
+
+/**
+ * Returns a copy of the root container with one field replaced.
+ *
+ * @param frame - Frame to update.
+ * @param patch - Container fields to replace.
+ * @returns Updated frame.
+ */
+const patchRootContainer = (
+  frame: LayoutFrame,
+  patch: Partial<DemoContainer>,
+): LayoutFrame => ({
+  ...frame,
+  config: {
+    ...frame.config,
+    container: { ...frame.config.container, ...patch },
+  },
+});
+
+/**
+ * Returns a copy of the frame with the selected item's fields replaced.
+ *
+ * @param frame - Frame to update.
+ * @param path - Path of the item.
+ * @param patch - Item fields to replace.
+ * @returns Updated frame.
+ */
+const patchItem = (
+  frame: LayoutFrame,
+  path: ItemPath,
+  patch: Partial<DemoItem>,
+): LayoutFrame => ({
+  ...frame,
+  config: updateItemAtPath(frame.config, path, (item) => ({
+    ...item,
+    ...patch,
+  })),
+});
+
+/**
+ * Settings that can be swept, in menu order.
+ */
+export const SWEEP_TARGETS: Record<SweepTargetKey, SweepTarget> = {
+  canvasWidth: {
+    label: "Canvas width",
+    unit: "px",
+    item: false,
+    from: 240,
+    to: 960,
+    apply: (frame, width) => ({ ...frame, size: { ...frame.size, width } }),
+  },
+  canvasHeight: {
+    label: "Canvas height",
+    unit: "px",
+    item: false,
+    from: 120,
+    to: 720,
+    apply: (frame, height) => ({ ...frame, size: { ...frame.size, height } }),
+  },
+  gapX: {
+    label: "Horizontal gap",
+    unit: "px",
+    item: false,
+    from: 0,
+    to: 64,
+    apply: (frame, gapX) => patchRootContainer(frame, { gapX }),
+  },
+  gapY: {
+    label: "Vertical gap",
+    unit: "px",
+    item: false,
+    from: 0,
+    to: 64,
+    apply: (frame, gapY) => patchRootContainer(frame, { gapY }),
+  },
+  itemWidth: {
+    label: "Item width",
+    unit: "px",
+    item: true,
+    from: 0,
+    to: 400,
+    apply: (frame, width, path) => patchItem(frame, path, { width }),
+  },
+  itemHeight: {
+    label: "Item height",
+    unit: "px",
+    item: true,
+    from: 0,
+    to: 300,
+    apply: (frame, height, path) => patchItem(frame, path, { height }),
+  },
+  itemFlexBasis: {
+    label: "Item flex basis",
+    unit: "px",
+    item: true,
+    from: 0,
+    to: 400,
+    apply: (frame, flexBasis, path) => patchItem(frame, path, { flexBasis }),
+  },
+  itemFlexGrow: {
+    label: "Item flex grow",
+    unit: "",
+    item: true,
+    from: 0,
+    to: 4,
+    apply: (frame, flexGrow, path) => patchItem(frame, path, { flexGrow }),
+  },
+  itemFlexShrink: {
+    label: "Item flex shrink",
+    unit: "",
+    item: true,
+    from: 0,
+    to: 4,
+    apply: (frame, flexShrink, path) => patchItem(frame, path, { flexShrink }),
+  },
+};
+
+/**
+ * Default sweep: the canvas width in 20px steps.
+ */
+export const DEFAULT_SWEEP_SETTINGS: SweepSettings = {
+  target: "canvasWidth",
+  from: SWEEP_TARGETS.canvasWidth.from,
+  to: SWEEP_TARGETS.canvasWidth.to,
+  steps: 37,
+};
+
+/**
+ * Lists the values of a sweep, evenly spaced from `from` to `to`.
+ *
+ * @param settings - Sweep range.
+ * @returns One value per frame.
+ */
+export const sweepValues = (settings: SweepSettings) => {
+  const steps = Math.min(MAX_SWEEP_STEPS, Math.max(2, settings.steps));
+  const span = settings.to - settings.from;
+  return Array.from(
+    { length: steps },
+    (_, index) =>
+      Math.round((settings.from + (span * index) / (steps - 1)) * 100) / 100,
+  );
+};
+
+/**
+ * Builds the frames of a sweep.
+ *
+ * @param config - Configuration to sweep.
+ * @param size - Canvas size.
+ * @param settings - Sweep range.
+ * @param path - Path of the selected item, or null.
+ * @returns Frame inputs and their values, or the reason the sweep cannot run.
+ */
+export const buildSweepFrames = (
+  config: DemoConfig,
+  size: { width: number; height: number },
+  settings: SweepSettings,
+  path: ItemPath | null,
+) => {
+  const target = SWEEP_TARGETS[settings.target];
+  if (target.item && (!path || !getItemAtPath(config, path))) {
+    return { value: null, error: "Select an item to sweep its settings." };
+  }
+  const values = sweepValues(settings);
+  const frames = values.map((value) =>
+    target.apply({ config, size }, value, path ?? []),
+  );
+  return { value: { values, frames }, error: null };
+};
+
+/**
+ * Collects the box of every item across the frames.
+ *
+ * @param frames - Root layout nodes of each frame.
+ * @returns One series per item, in depth-first order of the first frame.
+ */
+export const collectSweepSeries = (frames: LayoutNode[][]): SweepSeries[] => {
+  const series = new Map<string, SweepSeries>();
+
+  const visit = (node: LayoutNode, frameIndex: number) => {
+    const path = node.meta?.path;
+    if (path && node.meta) {
+      const key = formatPath(path);
+      let entry = series.get(key);
+      if (!entry) {
+        entry = {
+          path,
+          label: node.meta.label,
+          color: node.meta.color,
+          boxes: frames.map(() => null),
+        };
+        series.set(key, entry);
+      }
+      if (!node.meta.isHidden) {
+        const { x, y, width, height } = node;
+        entry.boxes[frameIndex] = { x, y, width, height };
+      }
+    }
+    node.children?.forEach((child) => visit(child, frameIndex));
+  };
+
+  frames.forEach((roots, frameIndex) =>
+    roots.forEach((root) => visit(root, frameIndex)),
+  );
+  return [...series.values()];
+};
+
+/**
+ * Shape of a container: its grid track counts, or the number of lines of a
+ * wrapping flex container.
+ */
+export interface LayoutShape {
+  /** Kind of container. */
+  kind: SweepBreakpointKind;
+  /** `[columns, rows]` of a grid, or `[lines]` of a wrapping flex container. */
+  counts: number[];
+  /** Path of the container, or `[]` for the root. */
+  path: ItemPath;
+}
+
+/**
+ * Describes the shape of a container.
+ *
+ * @param node - Container node.
+ * @returns Kind and counts, or null when the container cannot change shape
+ * this way.
+ */
+const describeShape = (node: LayoutNode): Omit<LayoutShape, "path"> | null => {
+  const style = node.meta?.style;
+  if (!style || !node.children) return null;
+
+  if (style.display === Display.Grid && node.grid) {
+    const { columns, rows } = node.grid;
+    return {
+      kind: "tracks",
+      counts: [columns.sizes.length, rows.sizes.length],
+    };
+  }
+  if (
+    style.display !== Display.Flex ||
+    (style.flexWrap ?? FlexWrap.NoWrap) === FlexWrap.NoWrap
+  ) {
+    return null;
+  }
+
+  // A new line starts wherever an item goes back along the main axis
+  const direction = style.flexDirection ?? FlexDirection.Row;
+  const isRow =
+    direction === FlexDirection.Row || direction === FlexDirection.RowReverse;
+  const isReverse =
+    direction === FlexDirection.RowReverse ||
+    direction === FlexDirection.ColumnReverse;
+  const inFlow = node.children.filter(
+    (child) => !child.meta?.isAbsolute && !child.meta?.isHidden,
+  );
+  let lines = inFlow.length > 0 ? 1 : 0;
+  inFlow.forEach((child, index) => {
+    if (index === 0) return;
+    const previous = isRow ? inFlow[index - 1].x : inFlow[index - 1].y;
+    const current = isRow ? child.x : child.y;
+    if (isReverse ? current > previous : current < previous) lines += 1;
+  });
+  return { kind: "wrap", counts: [lines] };
+};
+
+/**
+ * Describes the shape of every grid and wrapping flex container of a layout.
+ *
+ * @param roots - Root layout nodes.
+ * @returns Shapes keyed by the formatted container path, in depth-first
+ * order.
+ */
+export const collectLayoutShapes = (roots: LayoutNode[]) => {
+  const shapes = new Map<string, LayoutShape>();
+  const visit = (node: LayoutNode) => {
+    const shape = describeShape(node);
+    if (shape) {
+      const path = node.meta?.path ?? [];
+      shapes.set(formatPath(path), { ...shape, path });
+    }
+    node.children?.forEach(visit);
+  };
+  roots.forEach(visit);
+  return shapes;
+};
+
+/**
+ * Checks whether two shapes of the same container are the same.
+ *
+ * @param a - First shape.
+ * @param b - Second shape.
+ * @returns True when the kind and counts match.
+ */
+export const isSameShape = (a: LayoutShape, b: LayoutShape) =>
+  a.kind === b.kind &&
+  a.counts.length === b.counts.length &&
+  a.counts.every((count, index) => count === b.counts[index]);
+
+/**
+ * Finds the frames at which a container wraps onto a different number of
+ * lines or its grid gains or loses tracks.
+ *
+ * @param frames - Root layout nodes of each frame.
+ * @returns Breakpoints in frame order.
+ */
+export const findSweepBreakpoints = (
+  frames: LayoutNode[][],
+): SweepBreakpoint[] => {
+  const breakpoints: SweepBreakpoint[] = [];
+  let previous = new Map<string, LayoutShape>();
+
+  frames.forEach((roots, index) => {
+    const shapes = collectLayoutShapes(roots);
+    shapes.forEach((shape, key) => {
+      const before = previous.get(key);
+      if (index > 0 && before && !isSameShape(before, shape)) {
+        breakpoints.push({ index, kind: shape.kind, path: shape.path });
+      }
+    });
+    previous = shapes;
+  });
+  return breakpoints;
+};
@@ -0,0 +1,186 @@
+/**
+ * @module features/playground/lib/textMeasure
+ * @description Measures and wraps the text of text leaves for Taffy's
+ * measure functions.
+ *
+ * Widths come from canvas text metrics in the font the preview renders text
+ * with, so the lines drawn in the preview are the lines Taffy was sized
+ * for. Without a canvas, e.g. during server rendering, every character is
+ * assumed to be 0.6em wide.
+ */
+
+import type { AvailableSpace, MeasureFunction, Size } from "taffy-layout";
+import { type DemoText } from "@/features/playground/components/PlaygroundConfig";
+
+/**
+ * Font family used to measure and render text leaves.
+ */
+export const TEXT_FONT_FAMILY = "system-ui, sans-serif";
+
+/**
+ * Line height of text leaves, relative to the font size.
+ */
+export const TEXT_LINE_HEIGHT = 1.2;
+
+/**
+ * Number of measured strings kept before the width cache is reset.
+ */
+const WIDTH_CACHE_LIMIT = 2000;
+
+/**
+ * Measured widths keyed by font size and text.
+ */
+const widthCache = new Map<string, number>();
+
+/**
+ * Canvas context used for measuring; undefined until first used.
+ */
+let context:
+  | CanvasRenderingContext2D
+  | OffscreenCanvasRenderingContext2D
+  | null
+  | undefined;
+
+/**
+ * Returns a shared 2D canvas context: a DOM canvas on the page, an
+ * offscreen canvas in the layout worker, or null when neither exists.
+ *
+ * @returns Canvas context used for text metrics.
+ */
+const getContext = () => {
+  if (context === undefined) {
+    if (typeof document !== "undefined") {
+      context = document.createElement("canvas").getContext("2d");
+    } else if (typeof OffscreenCanvas !== "undefined") {
+      context = new OffscreenCanvas(1, 1).getContext("2d");
+    } else {
+      context = null;
+    }
+  }
+  return context;
+};
+
+/**
+ * Measures the width of a single line of text.
+ *
+ * @param line - Text without line breaks.
+ * @param fontSize - Font size in pixels.
+ * @returns Width in pixels.
+ */
+export const measureLineWidth = (line: string, fontSize: number) => {
+  const key = `${fontSize}:${line}`;
+  const cached = widthCache.get(key);
+  if (cached !== undefined) return cached;
+
+  const ctx = getContext();
+  let width = line.length * fontSize * 0.6;
+  if (ctx) {
+    ctx.font = `${fontSize}px ${TEXT_FONT_FAMILY}`;
+    width = ctx.measureText(line).width;
+  }
+  if (widthCache.size >= WIDTH_CACHE_LIMIT) widthCache.clear();
+  widthCache.set(key, width);
+  return width;
+};
+
+/**
+ * Breaks text into lines that fit a width. Runs of whitespace collapse to
+ * one space and line breaks in the content are kept; a word wider than the
+ * width overflows on its own line, as with CSS `white-space: normal`.
+ *
+ * @param text - Text to wrap.
+ * @param maxWidth - Available width, `Infinity` for a single line per
+ * paragraph, or 0 for one word per line.
+ * @returns Lines of text.
+ *
+ * @example
+ * wrapText({ content: "Hello wide world", fontSize: 16 }, 0);
+ * // => ["Hello", "wide", "world"]
+ */
+export const wrapText = ({ content, fontSize }: DemoText, maxWidth: number) =>
+  content.split("\n").flatMap((paragraph) => {
+    const lines: string[] = [];
+    let line = "";
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && measureLineWidth(candidate, fontSize) > maxWidth) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    }
+    return line ? [...lines, line] : lines;
+  });
+
+/**
+ * Resolves the width text may wrap to.
+ *
+ * @param knownWidth - Width already determined by the layout, if any.
+ * @param available - Available width.
+ * @returns Wrapping width.
+ */
+const wrapWidth = (
+  knownWidth: number | undefined,
+  available: AvailableSpace,
+) => {
+  if (knownWidth !== undefined) return knownWidth;
+  if (available === "min-content") return 0;
+  if (available === "max-content") return Infinity;
+  return available;
+};
+
+/**
+ * Measures the content size of text for the given constraints.
+ *
+ * @param text - Text content.
+ * @param knownDimensions - Dimensions already determined by the layout.
+ * @param availableSpace - Space available to the content box.
+ * @returns Content size in pixels.
+ */
+export const measureText = (
+  text: DemoText,
+  knownDimensions: Size<number | undefined>,
+  availableSpace: Size<AvailableSpace>,
+): Size<number> => {
+  const lines = wrapText(
+    text,
+    wrapWidth(knownDimensions.width, availableSpace.width),
+  );
+  return {
+    width:
+      knownDimensions.width ??
+      Math.max(
+        0,
+        ...lines.map((line) => measureLineWidth(line, text.fontSize)),
+      ),
+    height:
+      knownDimensions.height ?? lines.length * text.fontSize * TEXT_LINE_HEIGHT,
+  };
+};
+
+/**
+ * Measure function for trees whose text leaves carry their {@link DemoText}
+ * as node context. Leaves without text have no content.
+ *
+ * @example
+ * tree.newLeafWithContext(style, { content: "Hello", fontSize: 16 });
+ * tree.computeLayoutWithMeasure(root, availableSpace, measureTextNode);
+ */
+export const measureTextNode: MeasureFunction = (
+  knownDimensions,
+  availableSpace,
+  _node,
+  nodeContext,
+  style,
+) => {
+  style.free();
+  const text = nodeContext as DemoText | undefined;
+  if (!text) {
+    return {
+      width: knownDimensions.width ?? 0,
+      height: knownDimensions.height ?? 0,
+    };
+  }
+  return measureText(text, knownDimensions, availableSpace);
+};
@@ -0,0 +1,276 @@
+/**
+ * @module features/playground/lib/tree
+ * @description Immutable helpers for reading and editing the nested item tree
+ * of a playground configuration.
+ */
+
+import {
+  createLayout,
+  defaultItem,
+  type DemoItem,
+  type DemoLayout,
+  type ItemPath,
+} from "@/features/playground/components/PlaygroundConfig";
+
+/**
+ * Direction used when moving an item within the tree.
+ * - "up" / "down": Swap with the previous or next sibling.
+ * - "indent": Move into the previous sibling, turning it into a container.
+ * - "outdent": Move out of the parent, placing the item right after it.
+ */
+export type MoveDirection = "up" | "down" | "indent" | "outdent";
+
+/**
+ * Gives an item a nested layout. Text leaves lose their text, since an item
+ * is sized either by its content or by its children.
+ *
+ * @param item - Item to convert.
+ * @returns Item with a layout.
+ */
+const toContainer = (item: DemoItem): DemoItem =>
+  item.layout ? item : { ...item, text: undefined, layout: createLayout() };
+
+/**
+ * Checks whether two item paths point at the same item.
+ *
+ * @param a - First path.
+ * @param b - Second path.
+ * @returns True when both paths are equal.
+ */
+export const isSamePath = (a: ItemPath | null, b: ItemPath | null) =>
+  a !== null &&
+  b !== null &&
+  a.length === b.length &&
+  a.every((value, index) => value === b[index]);
+
+/**
+ * Formats an item path as a one-based dotted label, e.g. `[1, 0]` → `"2.1"`.
+ *
+ * @param path - Item path to format.
+ * @returns Human-readable path label.
+ */
+export const formatPath = (path: ItemPath) =>
+  path.map((index) => index + 1).join(".");
+
+/**
+ * Resolves the layout that directly contains the items at the given depth.
+ *
+ * @param root - Root layout of the configuration.
+ * @param parentPath - Path of the container item, or `[]` for the root.
+ * @returns The nested layout, or null when the path is not a container.
+ */
+export const getLayoutAtPath = (
+  root: DemoLayout,
+  parentPath: ItemPath,
+): DemoLayout | null => {
+  let layout: DemoLayout | undefined = root;
+  for (const index of parentPath) {
+    layout = layout?.items[index]?.layout;
+  }
+  return layout ?? null;
+};
+
+/**
+ * Resolves the item at the given path.
+ *
+ * @param root - Root layout of the configuration.
+ * @param path - Path of the item.
+ * @returns The item, or null when the path does not exist.
+ */
+export const getItemAtPath = (
+  root: DemoLayout,
+  path: ItemPath,
+): DemoItem | null => {
+  if (path.length === 0) return null;
+  const parent = getLayoutAtPath(root, path.slice(0, -1));
+  return parent?.items[path[path.length - 1]] ?? null;
+};
+
+/**
+ * Returns a copy of the layout with the items of one container replaced.
+ *
+ * @param root - Root layout of the configuration.
+ * @param parentPath - Path of the container whose items are replaced.
+ * @param updater - Receives the current items and returns the next items.
+ * @returns Updated root layout, or the original when the path is invalid.
+ */
+export const updateItemsAtPath = <T extends DemoLayout>(
+  root: T,
+  parentPath: ItemPath,
+  updater: (items: DemoItem[]) => DemoItem[],
+): T => {
+  if (parentPath.length === 0) {
+    return { ...root, items: updater(root.items) };
+  }
+
+  const [head, ...rest] = parentPath;
+  const child = root.items[head];
+  if (!child?.layout) return root;
+
+  const items = [...root.items];
+  items[head] = {
+    ...child,
+    layout: updateItemsAtPath(child.layout, rest, updater),
+  };
+  return { ...root, items };
+};
+
+/**
+ * Returns a copy of the layout with a single item replaced.
+ *
+ * @param root - Root layout of the configuration.
+ * @param path - Path of the item to update.
+ * @param updater - Receives the current item and returns the next item.
+ * @returns Updated root layout.
+ */
+export const updateItemAtPath = <T extends DemoLayout>(
+  root: T,
+  path: ItemPath,
+  updater: (item: DemoItem) => DemoItem,
+): T => {
+  if (path.length === 0) return root;
+  const index = path[path.length - 1];
+  return updateItemsAtPath(root, path.slice(0, -1), (items) =>
+    items.map((item, itemIndex) =>
+      itemIndex === index ? updater(item) : item,
+    ),
+  );
+};
+
+/**
+ * Appends a default item to a container, turning a leaf into a container
+ * when needed.
+ *
+ * @param root - Root layout of the configuration.
+ * @param parentPath - Path of the container, or `[]` for the root.
+ * @returns Updated root layout and the path of the new item.
+ */
+export const addItemAtPath = <T extends DemoLayout>(
+  root: T,
+  parentPath: ItemPath,
+): { config: T; path: ItemPath } => {
+  let next = root;
+  if (parentPath.length > 0) {
+    next = updateItemAtPath(next, parentPath, toContainer);
+  }
+  const count = getLayoutAtPath(next, parentPath)?.items.length ?? 0;
+  return {
+    config: updateItemsAtPath(next, parentPath, (items) => [
+      ...items,
+      { ...defaultItem },
+    ]),
+    path: [...parentPath, count],
+  };
+};
+
+/**
+ * Removes the item at the given path together with its descendants.
+ *
+ * @param root - Root layout of the configuration.
+ * @param path - Path of the item to remove.
+ * @returns Updated root layout.
+ */
+export const removeItemAtPath = <T extends DemoLayout>(
+  root: T,
+  path: ItemPath,
+): T => {
+  if (path.length === 0) return root;
+  const index = path[path.length - 1];
+  return updateItemsAtPath(root, path.slice(0, -1), (items) =>
+    items.filter((_, itemIndex) => itemIndex !== index),
+  );
+};
+
+/**
+ * Moves an item within the tree.
+ *
+ * @param root - Root layout of the configuration.
+ * @param path - Path of the item to move.
+ * @param direction - Kind of move to perform.
+ * @returns Updated root layout and the new path of the item, or null when the
+ * move is not possible from the current position.
+ */
+export const moveItemAtPath = <T extends DemoLayout>(
+  root: T,
+  path: ItemPath,
+  direction: MoveDirection,
+): { config: T; path: ItemPath } | null => {
+  const item = getItemAtPath(root, path);
+  if (!item) return null;
+
+  const parentPath = path.slice(0, -1);
+  const index = path[path.length - 1];
+  const siblings = getLayoutAtPath(root, parentPath)?.items ?? [];
+
+  if (direction === "up" || direction === "down") {
+    const target = direction === "up" ? index - 1 : index + 1;
+    if (target < 0 || target >= siblings.length) return null;
+    return {
+      config: updateItemsAtPath(root, parentPath, (items) => {
+        const next = [...items];
+        [next[index], next[target]] = [next[target], next[index]];
+        return next;
+      }),
+      path: [...parentPath, target],
+    };
+  }
+
+  if (direction === "indent") {
+    if (index === 0) return null;
+    const containerPath = [...parentPath, index - 1];
+    const removed = removeItemAtPath(root, path);
+    const withLayout = updateItemAtPath(removed, containerPath, toContainer);
+    const count = getLayoutAtPath(withLayout, containerPath)?.items.length ?? 0;
+    return {
+      config: updateItemsAtPath(withLayout, containerPath, (items) => [
+        ...items,
+        item,
+      ]),
+      path: [...containerPath, count],
+    };
+  }
+
+  if (parentPath.length === 0) return null;
+  const grandparentPath = parentPath.slice(0, -1);
+  const target = parentPath[parentPath.length - 1] + 1;
+  const removed = removeItemAtPath(root, path);
+  return {
+    config: updateItemsAtPath(removed, grandparentPath, (items) => [
+      ...items.slice(0, target),
+      item,
+      ...items.slice(target),
+    ]),
+    path: [...grandparentPath, target],
+  };
+};
+
+/**
+ * Moves an item to another position among its siblings.
+ *
+ * @param root - Root layout of the configuration.
+ * @param path - Path of the item to move.
+ * @param targetIndex - New index within the same container, clamped to the
+ * valid range.
+ * @returns The updated configuration and the item's new path.
+ */
+export const reorderItemAtPath = <T extends DemoLayout>(
+  root: T,
+  path: ItemPath,
+  targetIndex: number,
+): { config: T; path: ItemPath } => {
+  const parentPath = path.slice(0, -1);
+  const index = path[path.length - 1];
+  const count = getLayoutAtPath(root, parentPath)?.items.length ?? 0;
+  const target = Math.min(Math.max(targetIndex, 0), Math.max(count - 1, 0));
+  if (target === index) return { config: root, path };
+
+  return {
+    config: updateItemsAtPath(root, parentPath, (items) => {
+      const next = [...items];
+      const [item] = next.splice(index, 1);
+      next.splice(target, 0, item);
+      return next;
+    }),
+    path: [...parentPath, target],
+  };
+};
@@ -0,0 +1,125 @@
+/**
+ * @module features/playground/lib/viewports
+ * @description Viewport sizes the playground configuration is compared at,
+ * the device presets they start from, and their storage in localStorage.
+ */
+
+import { createStoredId, loadStored, saveStored } from "./storage";
+
+/**
+ * localStorage key the viewports are stored under.
+ */
+export const VIEWPORTS_STORAGE_KEY = "taffy-playground-viewports";
+
+/**
+ * Smallest width or height of a viewport.
+ */
+export const MIN_VIEWPORT_SIZE = 1;
+
+/**
+ * Largest width or height of a viewport.
+ */
+export const MAX_VIEWPORT_SIZE = 4096;
+
+/**
+ * Most viewports that can be compared at once.
+ */
+export const MAX_VIEWPORTS = 8;
+
+/**
+ * Canvas size the configuration is laid out at in viewport mode.
+ */
+export interface Viewport {
+  /** Stable identifier, unique within the list. */
+  id: string;
+  /** Name shown above the viewport. */
+  name: string;
+  /** Canvas width. */
+  width: number;
+  /** Canvas height. */
+  height: number;
+}
+
+/**
+ * Common device sizes, in CSS pixels.
+ */
+export const DEVICE_PRESETS: Omit<Viewport, "id">[] = [
+  { name: "Phone", width: 375, height: 667 },
+  { name: "Large phone", width: 430, height: 932 },
+  { name: "Tablet", width: 768, height: 1024 },
+  { name: "Tablet landscape", width: 1024, height: 768 },
+  { name: "Laptop", width: 1280, height: 800 },
+  { name: "Desktop", width: 1440, height: 900 },
+];
+
+/**
+ * Viewports shown before the user changes them: phone, tablet and desktop.
+ */
+export const DEFAULT_VIEWPORTS: Viewport[] = [
+  { id: "phone", ...DEVICE_PRESETS[0] },
+  { id: "tablet", ...DEVICE_PRESETS[2] },
+  { id: "desktop", ...DEVICE_PRESETS[5] },
+];
+
+/**
+ * Clamps a viewport dimension to the supported range.
+ *
+ * @param value - Entered size.
+ * @returns Whole number of pixels within the supported range.
+ */
+export const clampViewportSize = (value: number) =>
+  Math.min(
+    MAX_VIEWPORT_SIZE,
+    Math.max(MIN_VIEWPORT_SIZE, Math.round(value) || MIN_VIEWPORT_SIZE),
+  );
+
+/**
+ * Reads a stored viewport list. Entries that are not viewports are
+ * skipped, and sizes are clamped to the supported range.
+ *
+ * @param json - Stored JSON.
+ * @returns Viewports in stored order.
+ * @throws SyntaxError when the JSON cannot be parsed.
+ */
+export const parseViewports = (json: string): Viewport[] => {
+  const parsed: unknown = JSON.parse(json);
+  if (!Array.isArray(parsed)) return DEFAULT_VIEWPORTS;
+
+  return parsed
+    .filter(
+      (entry): entry is Record<keyof Viewport, unknown> =>
+        typeof entry === "object" && entry !== null,
+    )
+    .filter(
+      (entry) =>
+        typeof entry.width === "number" && typeof entry.height === "number",
+    )
+    .slice(0, MAX_VIEWPORTS)
+    .map((entry, index) => ({
+      id: typeof entry.id === "string" ? entry.id : createStoredId(),
+      name:
+        typeof entry.name === "string" && entry.name.trim()
+          ? entry.name.trim()
+          : `Viewport ${index + 1}`,
+      width: clampViewportSize(Number(entry.width)),
+      height: clampViewportSize(Number(entry.height)),
+    }));
+};
+
+/**
+ * Loads the viewports from localStorage.
+ *
+ * @returns Stored viewports, or the defaults when there are none.
+ * @throws SyntaxError when the stored list is damaged.
+ */
+export const loadViewports = (): Viewport[] =>
+  loadStored(VIEWPORTS_STORAGE_KEY, parseViewports, DEFAULT_VIEWPORTS);
+
+/**
+ * Writes the viewports to localStorage.
+ *
+ * @param viewports - Viewports to store.
+ */
+export const saveViewports = (viewports: Viewport[]) => {
+  saveStored(VIEWPORTS_STORAGE_KEY, JSON.stringify(viewports));
+};
@@ -136,10 +136,122 @@ export const UI_STRINGS = {
     presetFlexGrowDesc: "Items grow proportionally to fill the row.",
     presetFlexWrap: "Flex · Wrap",
     presetFlexWrapDesc: "Wrapping layout with align-content controls.",
+    presetFlexAutoMargins: "Flex · Auto Margins",
+    presetFlexAutoMarginsDesc: "Auto margins push items apart and center them.",
     presetGridBasic: "Grid · Basic",
     presetGridBasicDesc: "Auto-placed grid tracks with fixed sizes.",
     presetGridSpans: "Grid · Spans",
     presetGridSpansDesc: "Mix spans to highlight grid placement.",
+    presetGridAreas: "Grid · Areas",
+    presetGridAreasDesc:
+      "A dashboard placed with named areas and explicit lines.",
+    presetGridAutoFill: "Grid · Auto-fill",
+    presetGridAutoFillDesc:
+      "Responsive columns with repeat(auto-fill, minmax()).",
+    presetNestedSidebar: "Nested · Sidebar",
+    presetNestedSidebarDesc:
+      "A sidebar and a main column built from nested containers.",
+    presetAbsoluteOverlays: "Absolute · Badges & Overlays",
+    presetAbsoluteOverlaysDesc:
+      "Badges, captions and dialogs placed with absolute insets.",
+    presetTextWrapping: "Text · Wrapping in a Row",
+    presetTextWrappingDesc:
+      "Measured text that shrinks to its longest word and wraps in a flex row.",
+    presetBlockDocument: "Block · Document",
+    presetBlockDocumentDesc:
+      "Stacked blocks whose vertical margins collapse, with a hidden block.",
+    copyLink: "Copy link",
+    linkCopied: "Link copied",
+    tabPreview: "Preview",
+    tabCode: "Code",
+    copyCode: "Copy",
+    codeCopied: "Copied",
+    downloadCode: "Download",
+    exportHtml: "Export HTML",
+    tabImport: "Import",
+    importPlaceholder: "Paste an HTML snippet or a Taffy gentest fixture…",
+    importOpenFile: "Open file",
+    importApply: "Import",
+    importComplete: "Imported without dropping any CSS.",
+    importDropped:
+      "These declarations could not be represented and were dropped:",
+    importRoot: "Root",
+    compareEngines: "Compare",
+    compareBrowser: "Browser CSS",
+    compareYoga: "Yoga",
+    compareMatches: "Matches Taffy",
+    compareDifferences: "{{count}} differences",
+    compareTolerance: "Tolerance (px)",
+    compareItem: "Item",
+    compareEngine: "Engine",
+    compareField: "Field",
+    compareReference: "Reference",
+    tabFuzz: "Fuzz",
+    fuzzIntro:
+      "Lays out random layouts with Taffy and the browser, and reduces each divergence to a minimal reproduction.",
+    fuzzCases: "Cases",
+    fuzzSeed: "Seed",
+    fuzzMaxDepth: "Max depth",
+    fuzzMaxItems: "Max items",
+    fuzzText: "Text leaves",
+    fuzzProgress: "{{checked}} / {{total}} checked, {{count}} reproductions",
+    fuzzStart: "Start",
+    fuzzStop: "Stop",
+    fuzzItems: "items",
+    fuzzOpen: "Open",
+    inspector: "Inspect",
+    inspectorPath: "Path",
+    inspectorLayout: "Computed layout",
+    inspectorStyle: "Style sent to Taffy",
+    tabPresets: "My presets",
+    presetsIntro:
+      "Save layouts as presets in this browser, and import or export them as JSON files to share a library of test layouts.",
+    presetsName: "Preset name",
+    presetsSave: "Save current layout",
+    presetsEmpty: "No saved presets yet.",
+    presetsLoad: "Load",
+    presetsUpdate: "Overwrite",
+    presetsDelete: "Delete preset",
+    presetsImport: "Import JSON",
+    presetsExport: "Export JSON",
+    presetsImported: "Imported {{count}} presets.",
+    presetsCustom: "My presets",
+    presetsCustomDesc: "A preset saved in this browser.",
+    sweep: "Sweep",
+    sweepIntro:
+      "Lays the layout out across a range of one setting. Scrub or play the frames in the preview; dashed lines mark where items wrap or grid tracks change.",
+    sweepProperty: "Setting",
+    sweepFrom: "From",
+    sweepTo: "To",
+    sweepSteps: "Steps",
+    sweepPlay: "Play",
+    sweepPause: "Pause",
+    sweepFrame: "Frame",
+    sweepComputing: "Laying out…",
+    sweepTime: "{{count}} frames in {{time}} ms",
+    sweepBreakpoints: "Breakpoints",
+    sweepNoBreakpoints: "No wrapping or track changes in this range.",
+    sweepWrap: "wrap",
+    sweepTracks: "tracks",
+    viewports: "Viewports",
+    viewportsIntro:
+      "Lay out the same configuration at several viewport sizes side by side, each with its own layout pass. Containers that wrap or place their tracks differently between viewports are listed under each one.",
+    viewportsAdd: "Add",
+    viewportsReset: "Reset",
+    viewportsName: "Viewport name",
+    viewportsWidth: "width",
+    viewportsHeight: "height",
+    viewportsRemove: "Remove viewport",
+    viewportsEmpty: "Add a viewport to compare layouts.",
+    viewportsComputing: "Laying out…",
+    viewportsTime: "{{count}} viewports in {{time}} ms, shown at {{scale}}%",
+    viewportsLines: "{{count}} lines",
+    viewportsTracks: "{{columns}} × {{rows}} tracks",
+    viewportsSameShape:
+      "No container wraps or changes its tracks between these viewports.",
+    undo: "Undo",
+    redo: "Redo",
+    history: "History",
     themeToggle: "Toggle theme",
     themeSwitchToLight: "Switch to light mode",
     themeSwitchToDark: "Switch to dark mode",
@@ -221,10 +333,115 @@ export const UI_STRINGS = {
     presetFlexGrowDesc: "项目按比例增长以填充行。",
     presetFlexWrap: "Flex · 换行",
     presetFlexWrapDesc: "带对齐内容控制的换行布局。",
+    presetFlexAutoMargins: "Flex · 自动外边距",
+    presetFlexAutoMarginsDesc: "自动外边距将项目推开并居中。",
     presetGridBasic: "Grid · 基础",
     presetGridBasicDesc: "固定大小的自动放置网格轨道。",
     presetGridSpans: "Grid · 跨度",
     presetGridSpansDesc: "混合跨度以突出网格放置。",
+    presetGridAreas: "Grid · 区域",
+    presetGridAreasDesc: "使用命名区域和显式网格线放置的仪表盘。",
+    presetGridAutoFill: "Grid · 自动填充",
+    presetGridAutoFillDesc: "使用 repeat(auto-fill, minmax()) 的响应式列。",
+    presetNestedSidebar: "嵌套 · 侧边栏",
+    presetNestedSidebarDesc: "由嵌套容器构建的侧边栏和主内容列。",
+    presetAbsoluteOverlays: "绝对定位 · 徽标与浮层",
+    presetAbsoluteOverlaysDesc: "使用绝对定位偏移放置的徽标、说明栏和对话框。",
+    presetTextWrapping: "文本 · 行内换行",
+    presetTextWrappingDesc:
+      "经过测量的文本在弹性行中收缩至最长单词的宽度并换行。",
+    presetBlockDocument: "块布局 · 文档",
+    presetBlockDocumentDesc: "垂直外边距折叠的堆叠块，以及一个隐藏的块。",
+    copyLink: "复制链接",
+    linkCopied: "链接已复制",
+    tabPreview: "预览",
+    tabCode: "代码",
+    copyCode: "复制",
+    codeCopied: "已复制",
+    downloadCode: "下载",
+    exportHtml: "导出 HTML",
+    tabImport: "导入",
+    importPlaceholder: "粘贴 HTML 片段或 Taffy gentest 测试用例…",
+    importOpenFile: "打开文件",
+    importApply: "导入",
+    importComplete: "导入完成，没有丢弃任何 CSS。",
+    importDropped: "以下声明无法表示，已被丢弃：",
+    importRoot: "根容器",
+    compareEngines: "对比",
+    compareBrowser: "浏览器 CSS",
+    compareYoga: "Yoga",
+    compareMatches: "与 Taffy 一致",
+    compareDifferences: "{{count}} 处差异",
+    compareTolerance: "容差 (px)",
+    compareItem: "项目",
+    compareEngine: "引擎",
+    compareField: "字段",
+    compareReference: "参考值",
+    tabFuzz: "模糊测试",
+    fuzzIntro:
+      "用 Taffy 和浏览器布局随机生成的布局，并将每处差异缩减为最小复现。",
+    fuzzCases: "用例数",
+    fuzzSeed: "种子",
+    fuzzMaxDepth: "最大深度",
+    fuzzMaxItems: "最多项目",
+    fuzzText: "文本叶子",
+    fuzzProgress: "已检查 {{checked}} / {{total}}，{{count}} 个复现",
+    fuzzStart: "开始",
+    fuzzStop: "停止",
+    fuzzItems: "个项目",
+    fuzzOpen: "打开",
+    inspector: "检查",
+    inspectorPath: "路径",
+    inspectorLayout: "计算布局",
+    inspectorStyle: "传给 Taffy 的样式",
+    tabPresets: "我的预设",
+    presetsIntro:
+      "将布局保存为此浏览器中的预设，并以 JSON 文件导入或导出，以便共享测试布局库。",
+    presetsName: "预设名称",
+    presetsSave: "保存当前布局",
+    presetsEmpty: "还没有保存的预设。",
+    presetsLoad: "加载",
+    presetsUpdate: "覆盖",
+    presetsDelete: "删除预设",
+    presetsImport: "导入 JSON",
+    presetsExport: "导出 JSON",
+    presetsImported: "已导入 {{count}} 个预设。",
+    presetsCustom: "我的预设",
+    presetsCustomDesc: "保存在此浏览器中的预设。",
+    sweep: "扫描",
+    sweepIntro:
+      "在某个设置的取值范围内逐帧计算布局。可在预览中拖动或播放各帧；虚线标出项目换行或网格轨道变化的位置。",
+    sweepProperty: "设置",
+    sweepFrom: "从",
+    sweepTo: "到",
+    sweepSteps: "步数",
+    sweepPlay: "播放",
+    sweepPause: "暂停",
+    sweepFrame: "帧",
+    sweepComputing: "正在计算…",
+    sweepTime: "{{count}} 帧，用时 {{time}} ms",
+    sweepBreakpoints: "断点",
+    sweepNoBreakpoints: "此范围内没有换行或轨道变化。",
+    sweepWrap: "换行",
+    sweepTracks: "轨道",
+    viewports: "视口",
+    viewportsIntro:
+      "以多个视口尺寸并排布局同一配置，每个视口单独计算布局。在不同视口间换行或轨道不同的容器会列在各视口下方。",
+    viewportsAdd: "添加",
+    viewportsReset: "重置",
+    viewportsName: "视口名称",
+    viewportsWidth: "宽度",
+    viewportsHeight: "高度",
+    viewportsRemove: "移除视口",
+    viewportsEmpty: "添加视口以比较布局。",
+    viewportsComputing: "正在计算…",
+    viewportsTime: "{{count}} 个视口，用时 {{time}} ms，缩放 {{scale}}%",
+    viewportsLines: "{{count}} 行",
+    viewportsTracks: "{{columns}} × {{rows}} 轨道",
+    viewportsSameShape: "这些视口之间没有容器换行或改变轨道。",
+    undo: "撤销",
+    redo: "重做",
+    history: "历史记录",
     themeToggle: "切换主题",
     themeSwitchToLight: "切换到浅色模式",
     themeSwitchToDark: "切换到深色模式",
@@ -308,10 +525,123 @@ export const UI_STRINGS = {
     presetFlexGrowDesc: "アイテムが行を埋めるように比例して成長します。",
     presetFlexWrap: "Flex · ラップ",
     presetFlexWrapDesc: "align-contentコントロール付きのラップレイアウト。",
+    presetFlexAutoMargins: "Flex · 自動マージン",
+    presetFlexAutoMarginsDesc:
+      "自動マージンでアイテムを押し離し、中央に配置します。",
     presetGridBasic: "Grid · 基本",
     presetGridBasicDesc: "固定サイズの自動配置グリッドトラック。",
     presetGridSpans: "Grid · スパン",
     presetGridSpansDesc: "グリッド配置を強調するためのミックススパン。",
+    presetGridAreas: "Grid · エリア",
+    presetGridAreasDesc:
+      "名前付きエリアと明示的なラインで配置したダッシュボード。",
+    presetGridAutoFill: "Grid · 自動フィル",
+    presetGridAutoFillDesc:
+      "repeat(auto-fill, minmax()) によるレスポンシブな列。",
+    presetNestedSidebar: "ネスト · サイドバー",
+    presetNestedSidebarDesc:
+      "ネストしたコンテナで構成されたサイドバーとメインカラム。",
+    presetAbsoluteOverlays: "絶対配置 · バッジとオーバーレイ",
+    presetAbsoluteOverlaysDesc:
+      "絶対配置のインセットで配置したバッジ、キャプション、ダイアログ。",
+    presetTextWrapping: "テキスト · 行内の折り返し",
+    presetTextWrappingDesc:
+      "計測されたテキストがフレックス行の中で最長の単語幅まで縮み、折り返します。",
+    presetBlockDocument: "ブロック · ドキュメント",
+    presetBlockDocumentDesc:
+      "垂直マージンが相殺される積み重ねブロックと、非表示のブロック。",
+    copyLink: "リンクをコピー",
+    linkCopied: "リンクをコピーしました",
+    tabPreview: "プレビュー",
+    tabCode: "コード",
+    copyCode: "コピー",
+    codeCopied: "コピーしました",
+    downloadCode: "ダウンロード",
+    exportHtml: "HTML をエクスポート",
+    tabImport: "インポート",
+    importPlaceholder:
+      "HTML スニペットまたは Taffy の gentest フィクスチャを貼り付け…",
+    importOpenFile: "ファイルを開く",
+    importApply: "インポート",
+    importComplete: "CSS を失わずにインポートしました。",
+    importDropped: "次の宣言は表現できないため破棄されました：",
+    importRoot: "ルート",
+    compareEngines: "比較",
+    compareBrowser: "ブラウザ CSS",
+    compareYoga: "Yoga",
+    compareMatches: "Taffy と一致",
+    compareDifferences: "{{count}} 件の差異",
+    compareTolerance: "許容差 (px)",
+    compareItem: "アイテム",
+    compareEngine: "エンジン",
+    compareField: "項目",
+    compareReference: "参照値",
+    tabFuzz: "ファズ",
+    fuzzIntro:
+      "ランダムなレイアウトを Taffy とブラウザで配置し、差異ごとに最小の再現例へ縮小します。",
+    fuzzCases: "ケース数",
+    fuzzSeed: "シード",
+    fuzzMaxDepth: "最大の深さ",
+    fuzzMaxItems: "最大アイテム数",
+    fuzzText: "テキストリーフ",
+    fuzzProgress: "{{checked}} / {{total}} 件確認、再現例 {{count}} 件",
+    fuzzStart: "開始",
+    fuzzStop: "停止",
+    fuzzItems: "アイテム",
+    fuzzOpen: "開く",
+    inspector: "検査",
+    inspectorPath: "パス",
+    inspectorLayout: "計算済みレイアウト",
+    inspectorStyle: "Taffy に渡したスタイル",
+    tabPresets: "マイプリセット",
+    presetsIntro:
+      "レイアウトをこのブラウザにプリセットとして保存し、JSON ファイルでインポート・エクスポートしてテスト用レイアウト集を共有できます。",
+    presetsName: "プリセット名",
+    presetsSave: "現在のレイアウトを保存",
+    presetsEmpty: "保存されたプリセットはまだありません。",
+    presetsLoad: "読み込む",
+    presetsUpdate: "上書き",
+    presetsDelete: "プリセットを削除",
+    presetsImport: "JSON をインポート",
+    presetsExport: "JSON をエクスポート",
+    presetsImported: "{{count}} 件のプリセットをインポートしました。",
+    presetsCustom: "マイプリセット",
+    presetsCustomDesc: "このブラウザに保存されたプリセットです。",
+    sweep: "スイープ",
+    sweepIntro:
+      "ひとつの設定を範囲内で変えながらレイアウトを計算します。プレビューでフレームをスクラブまたは再生でき、破線はアイテムの折り返しやグリッドトラックの変化を示します。",
+    sweepProperty: "設定",
+    sweepFrom: "開始",
+    sweepTo: "終了",
+    sweepSteps: "ステップ数",
+    sweepPlay: "再生",
+    sweepPause: "一時停止",
+    sweepFrame: "フレーム",
+    sweepComputing: "計算中…",
+    sweepTime: "{{count}} フレーム、{{time}} ms",
+    sweepBreakpoints: "ブレークポイント",
+    sweepNoBreakpoints: "この範囲では折り返しやトラックの変化はありません。",
+    sweepWrap: "折り返し",
+    sweepTracks: "トラック",
+    viewports: "ビューポート",
+    viewportsIntro:
+      "同じ設定を複数のビューポートサイズで並べてレイアウトします。各ビューポートは個別にレイアウトされます。ビューポート間で折り返しやトラックが異なるコンテナは各ビューポートの下に表示されます。",
+    viewportsAdd: "追加",
+    viewportsReset: "リセット",
+    viewportsName: "ビューポート名",
+    viewportsWidth: "幅",
+    viewportsHeight: "高さ",
+    viewportsRemove: "ビューポートを削除",
+    viewportsEmpty: "ビューポートを追加してレイアウトを比較します。",
+    viewportsComputing: "計算中…",
+    viewportsTime: "{{count}} 個のビューポート、{{time}} ms、{{scale}}% で表示",
+    viewportsLines: "{{count}} 行",
+    viewportsTracks: "{{columns}} × {{rows}} トラック",
+    viewportsSameShape:
+      "これらのビューポート間で折り返しやトラックが変わるコンテナはありません。",
+    undo: "元に戻す",
+    redo: "やり直す",
+    history: "履歴",
     themeToggle: "テーマを切り替え",
     themeSwitchToLight: "ライトモードに切り替え",
     themeSwitchToDark: "ダークモードに切り替え",